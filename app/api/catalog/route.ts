@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { z } from "zod"
+import { CatalogUnavailableError, queryCatalog } from "@/lib/server/catalog"
+
+const catalogQuerySchema = z
+  .object({
+    starttime: z.coerce.date(),
+    endtime: z.coerce.date().default(() => new Date()),
+    minmagnitude: z.coerce.number().min(0).max(10).default(3),
+    limit: z.coerce.number().int().min(1).max(1000).default(500),
+    cursor: z.string().optional(),
+  })
+  .refine((query) => query.starttime < query.endtime, {
+    message: "starttime must be before endtime",
+    path: ["starttime"],
+  })
+
+/**
+ * Page through the historical catalog for an arbitrary time range
+ * Follow nextCursor until it is null to retrieve the whole range
+ */
+export async function GET(request: NextRequest) {
+  const entries = Array.from(request.nextUrl.searchParams.entries()).filter(([, value]) => value.trim() !== "")
+  const query = catalogQuerySchema.safeParse(Object.fromEntries(entries))
+
+  if (!query.success) {
+    return NextResponse.json(
+      {
+        status: "error",
+        errors: query.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+      },
+      { status: 400 },
+    )
+  }
+
+  try {
+    const page = await queryCatalog(query.data)
+    return NextResponse.json({
+      status: "ok",
+      count: page.data.length,
+      starttime: query.data.starttime.toISOString(),
+      endtime: query.data.endtime.toISOString(),
+      minmagnitude: query.data.minmagnitude,
+      nextCursor: page.nextCursor,
+      data: page.data,
+    })
+  } catch (error) {
+    const status = error instanceof CatalogUnavailableError ? 503 : 400
+    return NextResponse.json({ status: "error", errors: [(error as Error).message] }, { status })
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { findCachedEarthquake } from "@/lib/server/earthquake-cache"
+
+/**
+ * Get a single earthquake by canonical id or by any source's id for the same event
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const earthquake = await findCachedEarthquake(decodeURIComponent(id))
+
+  if (!earthquake) {
+    return NextResponse.json({ status: "error", errors: [`Earthquake ${id} not found`] }, { status: 404 })
+  }
+
+  return NextResponse.json(
+    { status: "ok", data: earthquake },
+    {
+      headers: { "Cache-Control": "public, s-maxage=30, stale-while-revalidate=60" },
+    },
+  )
+}
@@ -0,0 +1,49 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getCachedEarthquakes } from "@/lib/server/earthquake-cache"
+import { parseEarthquakeQuery, queryEarthquakes } from "@/lib/server/earthquake-query"
+
+/**
+ * List earthquakes from the server-side cache
+ * Supports time range, bounding box, radius, magnitude, depth and region filters with offset pagination
+ * Responds with status "stale" and the last good data when every upstream source is failing
+ */
+export async function GET(request: NextRequest) {
+  const query = parseEarthquakeQuery(request.nextUrl.searchParams)
+
+  if (!query.success) {
+    return NextResponse.json(
+      {
+        status: "error",
+        errors: query.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+      },
+      { status: 400 },
+    )
+  }
+
+  const result = await getCachedEarthquakes()
+
+  if (result.status === "error") {
+    return NextResponse.json(
+      { status: "error", errors: [`Earthquake sources unavailable: ${result.error}`] },
+      { status: 503, headers: { "Retry-After": "30" } },
+    )
+  }
+
+  const { data, total } = queryEarthquakes(result.data, query.data)
+
+  return NextResponse.json(
+    {
+      status: result.status,
+      count: data.length,
+      total,
+      offset: query.data.offset,
+      limit: query.data.limit,
+      updatedAt: result.fetchedAt,
+      ...(result.status === "stale" && { error: result.error }),
+      data,
+    },
+    {
+      headers: { "Cache-Control": "public, s-maxage=30, stale-while-revalidate=60" },
+    },
+  )
+}
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { NextRequest } from "next/server"
+import type { EarthquakeData } from "@/lib/api"
+import type { EarthquakeChangeType } from "@/lib/earthquake-changes"
+import { getCachedEarthquakes, setEarthquakeFeed } from "@/lib/server/earthquake-cache"
+import { getLatestSeq, subscribeToChanges } from "@/lib/server/earthquake-events"
+import { createFakeFeed } from "@/lib/server/fake-feed"
+import { GET } from "./route"
+
+type ServerSentEvent = Partial<Record<"id" | "event" | "data" | "retry", string>>
+
+const REFRESH_INTERVAL_MS = 30 * 1000
+
+/**
+ * Open the stream and parse what it sends
+ */
+async function openStream(headers: Record<string, string> = {}, query = "") {
+  const abort = new AbortController()
+  const request = new NextRequest(`http://localhost/api/earthquakes/stream${query}`, { headers, signal: abort.signal })
+  const response = await GET(request)
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  // Read events until one matches, returning all of them
+  const readUntil = async (last: (event: ServerSentEvent) => boolean) => {
+    const events: ServerSentEvent[] = []
+    for (;;) {
+      let end: number
+      while ((end = buffer.indexOf("\n\n")) !== -1) {
+        const fields = buffer.slice(0, end).split("\n")
+        buffer = buffer.slice(end + 2)
+        const event = Object.fromEntries(fields.map((field) => field.split(/: (.*)/, 2))) as ServerSentEvent
+        events.push(event)
+        if (last(event)) return events
+      }
+      buffer += decoder.decode((await reader.read()).value)
+    }
+  }
+
+  return { response, readUntil, close: () => abort.abort() }
+}
+
+const isStatus = (event: ServerSentEvent) => event.event === "status"
+
+/**
+ * Refresh the fake feed until it has added, revised and retracted an event
+ */
+async function refreshUntilEveryChangeType() {
+  const types = new Set<EarthquakeChangeType>()
+  const unsubscribe = subscribeToChanges((change) => types.add(change.type))
+  for (let i = 0; types.size < 3 && i < 50; i++) {
+    await vi.advanceTimersByTimeAsync(REFRESH_INTERVAL_MS)
+    await getCachedEarthquakes()
+  }
+  unsubscribe()
+  return types
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date", "setInterval", "clearInterval"] })
+  vi.setSystemTime(Date.parse("2024-03-10T08:00:00Z"))
+  setEarthquakeFeed(createFakeFeed({ seed: 7, initialEvents: 10, now: () => Date.now() }))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("GET /api/earthquakes/stream", () => {
+  it("sends the retry delay, a snapshot and the feed status on connect", async () => {
+    const stream = await openStream()
+    const [retry, snapshot, status] = await stream.readUntil(isStatus)
+    stream.close()
+
+    expect(stream.response.headers.get("Content-Type")).toBe("text/event-stream")
+    expect(retry).toEqual({ retry: "5000" })
+    expect(snapshot).toMatchObject({ id: String(getLatestSeq()), event: "snapshot" })
+    expect(JSON.parse(snapshot.data!)).toHaveLength(10)
+    expect(JSON.parse(status.data!)).toMatchObject({ status: "ok", updatedAt: "2024-03-10T08:00:00.000Z" })
+  })
+
+  it("streams created, updated and deleted events as the feed changes", async () => {
+    const stream = await openStream()
+    const [, snapshot] = await stream.readUntil(isStatus)
+
+    expect(await refreshUntilEveryChangeType()).toEqual(new Set(["created", "updated", "deleted"]))
+
+    const latest = String(getLatestSeq())
+    const changes = (await stream.readUntil((event) => event.id === latest)).filter((event) => !isStatus(event))
+    stream.close()
+
+    expect(changes.map((event) => Number(event.id))).toEqual(changes.map((_, i) => Number(snapshot.id) + i + 1))
+    changes.forEach((event) => {
+      expect(["created", "updated", "deleted"]).toContain(event.event)
+      expect((JSON.parse(event.data!) as EarthquakeData).id).toMatch(/^fake-7-/)
+    })
+  })
+
+  it("resumes from Last-Event-ID with only the missed changes", async () => {
+    await getCachedEarthquakes()
+    const lastSeen = getLatestSeq()
+    await refreshUntilEveryChangeType()
+
+    for (const [headers, query] of [
+      [{ "last-event-id": String(lastSeen) }, ""],
+      [{}, `?lastEventId=${lastSeen}`],
+    ] as const) {
+      const stream = await openStream(headers, query)
+      const [retry, ...rest] = await stream.readUntil(isStatus)
+      stream.close()
+
+      expect(retry.retry).toBe("5000")
+      expect(rest.pop()?.event).toBe("status")
+      expect(rest.map((event) => Number(event.id))).toEqual(
+        Array.from({ length: getLatestSeq() - lastSeen }, (_, i) => lastSeen + i + 1),
+      )
+      expect(rest.some((event) => event.event === "snapshot")).toBe(false)
+    }
+  })
+
+  it("sends a snapshot when the Last-Event-ID is unknown", async () => {
+    await getCachedEarthquakes()
+    await refreshUntilEveryChangeType()
+
+    for (const lastEventId of [String(getLatestSeq() + 100), "not-a-number"]) {
+      const stream = await openStream({ "last-event-id": lastEventId })
+      const [, snapshot] = await stream.readUntil(isStatus)
+      stream.close()
+
+      expect(snapshot).toMatchObject({ id: String(getLatestSeq()), event: "snapshot" })
+    }
+  })
+})
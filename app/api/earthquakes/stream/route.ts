@@ -0,0 +1,100 @@
+import type { NextRequest } from "next/server"
+import type { EarthquakeChange } from "@/lib/earthquake-changes"
+import { getCacheResult, getCachedEarthquakes, keepCacheFresh } from "@/lib/server/earthquake-cache"
+import { getChangesSince, getLatestSeq, subscribeToChanges } from "@/lib/server/earthquake-events"
+
+export const dynamic = "force-dynamic"
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000
+const CLIENT_RETRY_MS = 5000
+
+/**
+ * Server-Sent Events stream of earthquake changes
+ * Sends a "snapshot" on connect, then "created", "updated" and "deleted" events.
+ * A "status" event with the data freshness follows the snapshot and replaces the heartbeat comment.
+ * Clients resuming with Last-Event-ID (header or lastEventId query parameter) receive only what they missed.
+ */
+export async function GET(request: NextRequest) {
+  const lastEventId = request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("lastEventId")
+  const encoder = new TextEncoder()
+
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+
+      let sentSeq = -1
+      let ready = false
+      const queued: EarthquakeChange[] = []
+
+      const sendChange = (change: EarthquakeChange) => {
+        if (change.seq <= sentSeq) return
+        sentSeq = change.seq
+        send(`id: ${change.seq}\nevent: ${change.type}\ndata: ${JSON.stringify(change.earthquake)}\n\n`)
+      }
+
+      // Subscribe before loading the snapshot so no change falls in between
+      const unsubscribe = subscribeToChanges((change) => (ready ? sendChange(change) : queued.push(change)))
+      const release = keepCacheFresh()
+      const sendStatus = () => {
+        const result = getCacheResult()
+        const status = {
+          status: result.status,
+          updatedAt: result.fetchedAt,
+          ...(result.status !== "ok" && { error: result.error }),
+        }
+        send(`event: status\ndata: ${JSON.stringify(status)}\n\n`)
+      }
+      const heartbeat = setInterval(sendStatus, HEARTBEAT_INTERVAL_MS)
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+        release()
+        cleanup = () => {}
+      }
+      request.signal.addEventListener("abort", () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed
+        }
+      })
+
+      send(`retry: ${CLIENT_RETRY_MS}\n\n`)
+
+      const earthquakes = (await getCachedEarthquakes()).data ?? []
+      const missed = lastEventId !== null ? getChangesSince(Number(lastEventId)) : null
+
+      if (missed) {
+        missed.forEach(sendChange)
+      } else {
+        sentSeq = getLatestSeq()
+        send(`id: ${sentSeq}\nevent: snapshot\ndata: ${JSON.stringify(earthquakes)}\n\n`)
+      }
+
+      sendStatus()
+      ready = true
+      queued.forEach(sendChange)
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
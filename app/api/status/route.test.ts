@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+import { okResult } from "@/lib/fetch-result"
+import { setEarthquakeFeed } from "@/lib/server/earthquake-cache"
+import { recordSourceFailure, recordSourceSuccess } from "@/lib/sources/status"
+import { GET } from "./route"
+
+describe("GET /api/status", () => {
+  it("reports a failing source next to healthy ones", async () => {
+    setEarthquakeFeed(async () => okResult([]))
+    recordSourceSuccess("csn", 250)
+    recordSourceFailure("usgs", 8000, new Error("HTTP 503 from https://earthquake.usgs.gov"))
+
+    const response = await GET()
+    const body = await response.json()
+
+    expect(response.headers.get("Cache-Control")).toBe("no-store")
+    expect(body.feed).toMatchObject({ status: "ok" })
+    expect(body.sources.map((source: { source: string }) => source.source)).toEqual(["csn", "usgs", "emsc", "fdsn"])
+    expect(body.sources[0]).toMatchObject({ source: "csn", health: "ok", latencyMs: 250, quarantined: 0 })
+    expect(body.sources[1]).toMatchObject({
+      source: "usgs",
+      health: "degraded",
+      lastError: "HTTP 503 from https://earthquake.usgs.gov",
+      errorRate: 1,
+    })
+    expect(body.sources[2]).toMatchObject({ source: "emsc", health: "unknown" })
+  })
+
+  it("reports the feed as stale while every source fails", async () => {
+    setEarthquakeFeed(async () => okResult([]))
+    await GET()
+    setEarthquakeFeed(async () => ({ status: "error", data: null, fetchedAt: null, error: "All sources failed" }))
+
+    const body = await (await GET()).json()
+
+    expect(body.feed).toMatchObject({ status: "error", error: "All sources failed" })
+  })
+})
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { getSources } from "@/lib/sources"
+import { getQuarantinedRecords } from "@/lib/sources/quarantine"
+import { getSourceStatus } from "@/lib/sources/status"
+import { getCachedEarthquakes } from "@/lib/server/earthquake-cache"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Health of the earthquake feed and of each upstream source
+ * Reports last success, latency, error rate and origin-to-receipt lag per source
+ */
+export async function GET() {
+  // Refreshes the cache if due, so the report reflects a recent attempt
+  const feed = await getCachedEarthquakes()
+
+  const sources = getSources().map((source) => ({
+    ...getSourceStatus(source.id),
+    name: source.name,
+    quarantined: getQuarantinedRecords(source.id).length,
+  }))
+
+  return NextResponse.json(
+    {
+      status: "ok",
+      generatedAt: new Date().toISOString(),
+      feed: {
+        status: feed.status,
+        updatedAt: feed.fetchedAt,
+        ...(feed.status !== "ok" && { error: feed.error }),
+      },
+      sources,
+    },
+    { headers: { "Cache-Control": "no-store" } },
+  )
+}
@@ -1,9 +1,25 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import { fetchLatestEarthquake, fetchRecentEarthquakes, type EarthquakeData } from "@/lib/api"
+import { useState, useEffect, useMemo } from "react"
+import type { EarthquakeData } from "@/lib/api"
+import { getEventReference } from "@/lib/gazetteer"
 import { useGeolocation } from "@/hooks/use-geolocation"
+import { useEarthquakeStream } from "@/hooks/use-earthquake-stream"
+import { useEventRevisions } from "@/hooks/use-event-revisions"
+import { useRateAnomalies } from "@/hooks/use-rate-anomalies"
+import { useLocationAlerts } from "@/hooks/use-location-alerts"
+import { useForecastMainshock } from "@/hooks/use-aftershock-forecast"
+import { useSavedLocations } from "@/hooks/use-saved-locations"
+import { toast } from "@/hooks/use-toast"
+import { declusterCatalog } from "@/utils/declustering"
+import { evaluateLocations, updateCountdowns, type SavedLocation } from "@/utils/location-impact"
+import { getMomentMagnitude } from "@/utils/magnitude"
+import { crossesThreshold } from "@/utils/event-revisions"
+import type { VelocityModelId } from "@/utils/travel-times"
 import EarthquakeAlert from "@/components/earthquake-alert"
+import AftershockForecast from "@/components/aftershock-forecast"
+import ActivityNotice from "@/components/activity-notice"
+import LocationImpacts from "@/components/location-impacts"
 import EarthquakeMap from "@/components/earthquake-map"
 import NotificationManager from "@/components/notification-manager"
 import UserLocations from "@/components/user-locations"
@@ -14,72 +30,102 @@ import CrowdsourceReport from "@/components/crowdsource-report"
 import AdvancedSettings from "@/components/advanced-settings"
 import TsunamiWarning from "@/components/tsunami-warning"
 import EducationalContent from "@/components/educational-content"
+import RevisionTimeline from "@/components/revision-timeline"
+import DataFreshness from "@/components/data-freshness"
+import SourceStatusPanel from "@/components/source-status-panel"
+import TectonicRegimeBadge from "@/components/tectonic-regime-badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Activity, AlertTriangle, MapPin, Book } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
 
-interface Location {
-  id: string
-  name: string
-  latitude: number
-  longitude: number
-  type: "home" | "work" | "family" | "other"
-  regionCode: string
-}
+// Moment magnitude that activates emergency mode; every magnitude threshold compares Mw, whatever the scale
+const EMERGENCY_MAGNITUDE = 5.5
 
 export default function Home() {
   const [latestEarthquake, setLatestEarthquake] = useState<EarthquakeData | null>(null)
-  const [recentEarthquakes, setRecentEarthquakes] = useState<EarthquakeData[]>([])
   const [selectedEarthquake, setSelectedEarthquake] = useState<EarthquakeData | null>(null)
-  const [loading, setLoading] = useState(true)
   const [minimumMagnitude, setMinimumMagnitude] = useState(4.0)
-  const [savedLocations, setSavedLocations] = useState<Location[]>([])
-  const [selectedLocation, setSelectedLocation] = useState<Location | null>(null)
+  const [selectedLocationId, setSelectedLocationId] = useState<string | null>(null)
   const [emergencyModeActive, setEmergencyModeActive] = useState(false)
   const [constructionType, setConstructionType] = useState<"hormigon" | "albanileria" | "madera" | "adobe">("hormigon")
+  const [velocityModel, setVelocityModel] = useState<VelocityModelId>("chile")
+  const [aftershockMagnitude, setAftershockMagnitude] = useState(6.0)
   const [activeTab, setActiveTab] = useState("map")
   const [showEducation, setShowEducation] = useState(false)
+  const [colorByCluster, setColorByCluster] = useState(false)
+
+  // Saved locations and their alert profiles, persisted across reloads
+  const {
+    locations: savedLocations,
+    loading: locationsLoading,
+    addLocation,
+    updateLocation,
+    removeLocation,
+  } = useSavedLocations()
+  const selectedLocation = savedLocations.find((location) => location.id === selectedLocationId) ?? null
 
   // Get user's geolocation
   const { latitude, longitude, regionCode, loading: geoLoading, error: geoError } = useGeolocation()
 
-  // Fetch latest earthquake data
+  // Subscribe to live earthquake updates (falls back to polling if the stream is unavailable)
+  const { earthquakes: recentEarthquakes, loading, feed } = useEarthquakeStream({ limit: 50 })
+
+  // React to a new most recent earthquake
   useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true)
-
-        // Fetch latest earthquake
-        const latest = await fetchLatestEarthquake()
-        if (latest) {
-          setLatestEarthquake(latest)
-          setSelectedEarthquake(latest)
-
-          // Activate emergency mode for significant earthquakes
-          if (latest.magnitude >= 5.5) {
-            setEmergencyModeActive(true)
-          }
-        }
+    const latest = recentEarthquakes[0]
+    if (!latest || latest.id === latestEarthquake?.id) return
 
-        // Fetch recent earthquakes
-        const recent = await fetchRecentEarthquakes(50)
-        setRecentEarthquakes(recent)
-      } catch (error) {
-        console.error("Error fetching earthquake data:", error)
-      } finally {
-        setLoading(false)
-      }
+    setLatestEarthquake(latest)
+    setSelectedEarthquake(latest)
+
+    // Activate emergency mode for significant earthquakes
+    if (getMomentMagnitude(latest) >= EMERGENCY_MAGNITUDE) {
+      setEmergencyModeActive(true)
+    }
+  }, [recentEarthquakes, latestEarthquake])
+
+  // Track revisions and re-evaluate alerts when a magnitude update crosses a threshold
+  const revisions = useEventRevisions(recentEarthquakes, (revision, previous) => {
+    const current = revision.earthquake
+    const previousMw = getMomentMagnitude(previous)
+    const currentMw = getMomentMagnitude(current)
+
+    const emergency = crossesThreshold(previousMw, currentMw, EMERGENCY_MAGNITUDE)
+    if (emergency === "upgrade") {
+      setSelectedEarthquake(current)
+      setEmergencyModeActive(true)
+    }
+
+    // Leave emergency mode if the earthquake it is showing was revised below the emergency magnitude
+    if (emergency === "downgrade" && emergencyModeActive && selectedEarthquake?.id === current.id) {
+      setEmergencyModeActive(false)
+      toast({
+        title: "Sismo actualizado",
+        description: `Magnitud revisada de ${previous.magnitude} a ${current.magnitude}; modo de emergencia desactivado`,
+      })
     }
 
-    fetchData()
+    if (crossesThreshold(previousMw, currentMw, minimumMagnitude) === "upgrade") {
+      toast({
+        title: "Sismo actualizado",
+        description: `Magnitud revisada de ${previous.magnitude} a ${current.magnitude}: ${getEventReference(current)}`,
+      })
+    }
+  })
 
-    // Set up polling interval (every 60 seconds)
-    const interval = setInterval(fetchData, 60000)
+  // Keep the latest and selected earthquakes in sync with revised solutions
+  useEffect(() => {
+    const byId = new Map(recentEarthquakes.map((quake) => [quake.id, quake]))
+    setLatestEarthquake((prev) => (prev && byId.get(prev.id)) || prev)
+    setSelectedEarthquake((prev) => (prev && byId.get(prev.id)) || prev)
+  }, [recentEarthquakes])
 
-    return () => clearInterval(interval)
-  }, [])
+  // Whether an earthquake has been revised since it was first reported
+  const isUpdated = (quake: EarthquakeData) => (revisions[quake.id]?.length ?? 0) > 1
 
   // Load settings from localStorage
   useEffect(() => {
@@ -93,6 +139,12 @@ export default function Home() {
         if (settings.notificationThreshold) {
           setMinimumMagnitude(settings.notificationThreshold)
         }
+        if (settings.velocityModel) {
+          setVelocityModel(settings.velocityModel)
+        }
+        if (settings.aftershockMagnitude) {
+          setAftershockMagnitude(settings.aftershockMagnitude)
+        }
 
         // Apply dark mode if enabled
         if (settings.darkMode) {
@@ -113,20 +165,15 @@ export default function Home() {
   }, [])
 
   // Handle location selection
-  const handleLocationSelected = (location: Location) => {
-    setSelectedLocation(location)
-  }
-
-  // Handle location added
-  const handleLocationAdded = (location: Location) => {
-    setSavedLocations((prev) => [...prev, location])
+  const handleLocationSelected = (location: SavedLocation) => {
+    setSelectedLocationId(location.id)
   }
 
   // Handle location removed
   const handleLocationRemoved = (id: string) => {
-    setSavedLocations((prev) => prev.filter((loc) => loc.id !== id))
-    if (selectedLocation?.id === id) {
-      setSelectedLocation(null)
+    removeLocation(id)
+    if (selectedLocationId === id) {
+      setSelectedLocationId(null)
     }
   }
 
@@ -138,6 +185,12 @@ export default function Home() {
     if (settings.notificationThreshold) {
       setMinimumMagnitude(settings.notificationThreshold)
     }
+    if (settings.velocityModel) {
+      setVelocityModel(settings.velocityModel)
+    }
+    if (settings.aftershockMagnitude) {
+      setAftershockMagnitude(settings.aftershockMagnitude)
+    }
 
     // Apply dark mode if enabled
     if (settings.darkMode) {
@@ -153,8 +206,8 @@ export default function Home() {
     localStorage.setItem("has-seen-education", "true")
   }
 
-  // Get user location object
-  const getUserLocation = () => {
+  // Get user location object, kept stable across renders since the countdowns re-render the page every second
+  const userLocation = useMemo(() => {
     if (selectedLocation) {
       return {
         latitude: selectedLocation.latitude,
@@ -172,10 +225,52 @@ export default function Home() {
     }
 
     return null
-  }
+  }, [selectedLocation, latitude, longitude, regionCode])
 
   // Filter earthquakes by minimum magnitude
-  const filteredEarthquakes = recentEarthquakes.filter((quake) => quake.magnitude >= minimumMagnitude)
+  const filteredEarthquakes = recentEarthquakes.filter((quake) => getMomentMagnitude(quake) >= minimumMagnitude)
+
+  // Group recent events into sequences for the map
+  const clusterLabels = useMemo(
+    () => (colorByCluster ? declusterCatalog(recentEarthquakes) : null),
+    [colorByCluster, recentEarthquakes],
+  )
+
+  // Watch for swarms and unusual activity around the saved locations and the current position
+  const monitoredLocations = useMemo(() => {
+    if (latitude === null || longitude === null) return savedLocations
+    return [...savedLocations, { id: "current", name: "tu ubicación actual", latitude, longitude }]
+  }, [savedLocations, latitude, longitude])
+  const { anomalies } = useRateAnomalies(recentEarthquakes, monitoredLocations)
+
+  // Largest recent earthquake to forecast aftershocks for, kept while its aftershocks arrive
+  const forecastMainshock = useForecastMainshock(recentEarthquakes, aftershockMagnitude)
+
+  // Alert every saved location whose thresholds a new or revised earthquake meets
+  useLocationAlerts(recentEarthquakes, savedLocations, !locationsLoading, velocityModel)
+
+  // Clock for the S-wave countdowns, restarted with each selected earthquake
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => setNow(Date.now()), [selectedEarthquake])
+
+  // Impact of the selected earthquake on all saved locations at once; only the countdowns follow the clock
+  const evaluatedImpacts = useMemo(
+    () => (selectedEarthquake ? evaluateLocations(selectedEarthquake, savedLocations, velocityModel) : []),
+    [selectedEarthquake, savedLocations, velocityModel],
+  )
+  const locationImpacts = useMemo(
+    () => (selectedEarthquake ? updateCountdowns(evaluatedImpacts, selectedEarthquake, now) : []),
+    [evaluatedImpacts, selectedEarthquake, now],
+  )
+  const selectedLocationImpact = locationImpacts.find((impact) => impact.location.id === selectedLocationId) ?? null
+
+  // Tick every second while the S wave has yet to reach any of the locations
+  const sWaveArriving = locationImpacts.some((impact) => impact.secondsToS !== null)
+  useEffect(() => {
+    if (!sWaveArriving) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [sWaveArriving])
 
   return (
     <main className="container mx-auto py-6 px-4 space-y-6">
@@ -208,25 +303,40 @@ export default function Home() {
       )}
 
       {/* Emergency Mode */}
-      {emergencyModeActive && selectedEarthquake && getUserLocation() && (
+      {emergencyModeActive && selectedEarthquake && userLocation && (
         <EmergencyMode
           earthquake={selectedEarthquake}
-          userLocation={getUserLocation()!}
+          userLocation={userLocation}
+          impact={selectedLocationImpact}
           onClose={() => setEmergencyModeActive(false)}
-          constructionType={constructionType}
+          constructionType={selectedLocation?.profile.constructionType ?? constructionType}
         />
       )}
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="md:col-span-2 space-y-6">
           {/* Alert for latest significant earthquake */}
-          {latestEarthquake && latestEarthquake.magnitude >= 4.5 && getUserLocation() && (
-            <EarthquakeAlert earthquake={latestEarthquake} userLocation={getUserLocation()!} />
+          {latestEarthquake && getMomentMagnitude(latestEarthquake) >= 4.5 && userLocation && (
+            <EarthquakeAlert
+              earthquake={latestEarthquake}
+              userLocation={userLocation}
+              updated={isUpdated(latestEarthquake)}
+              velocityModel={velocityModel}
+            />
           )}
 
+          {/* Aftershock forecast for the largest recent earthquake */}
+          {forecastMainshock && <AftershockForecast earthquake={forecastMainshock} />}
+
+          {/* Estimated impact of the selected earthquake on each saved location */}
+          {selectedEarthquake && <LocationImpacts earthquake={selectedEarthquake} impacts={locationImpacts} />}
+
+          {/* Informational notice of unusual activity nearby */}
+          <ActivityNotice anomalies={anomalies} />
+
           {/* Tsunami warning if applicable */}
-          {selectedEarthquake && selectedEarthquake.magnitude >= 6.5 && getUserLocation() && (
-            <TsunamiWarning earthquake={selectedEarthquake} userLocation={getUserLocation()} />
+          {selectedEarthquake && getMomentMagnitude(selectedEarthquake) >= 6.5 && userLocation && (
+            <TsunamiWarning earthquake={selectedEarthquake} userLocation={userLocation} />
           )}
 
           {/* Main content tabs */}
@@ -242,11 +352,21 @@ export default function Home() {
             <TabsContent value="map" className="mt-4">
               <Card>
                 <CardHeader className="pb-2">
-                  <CardTitle className="flex items-center gap-2">
-                    <MapPin className="h-5 w-5" />
-                    Mapa Sísmico
-                  </CardTitle>
-                  <CardDescription>Visualización de eventos sísmicos recientes en Chile</CardDescription>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1.5">
+                      <CardTitle className="flex items-center gap-2">
+                        <MapPin className="h-5 w-5" />
+                        Mapa Sísmico
+                      </CardTitle>
+                      <CardDescription>Visualización de eventos sísmicos recientes en Chile</CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="color-by-cluster" className="text-sm cursor-pointer">
+                        Colorear por secuencia
+                      </Label>
+                      <Switch id="color-by-cluster" checked={colorByCluster} onCheckedChange={setColorByCluster} />
+                    </div>
+                  </div>
                 </CardHeader>
                 <CardContent>
                   {loading ? (
@@ -257,6 +377,7 @@ export default function Home() {
                       userLocation={latitude !== null && longitude !== null ? { latitude, longitude } : null}
                       selectedEarthquake={selectedEarthquake}
                       onSelectEarthquake={setSelectedEarthquake}
+                      clusterLabels={clusterLabels}
                     />
                   )}
                 </CardContent>
@@ -265,7 +386,7 @@ export default function Home() {
 
             <TabsContent value="intensity" className="mt-4">
               {selectedEarthquake ? (
-                <IntensityMap earthquake={selectedEarthquake} userLocation={getUserLocation()} />
+                <IntensityMap earthquake={selectedEarthquake} userLocation={userLocation} />
               ) : (
                 <Card>
                   <CardContent className="py-10 text-center">
@@ -277,12 +398,12 @@ export default function Home() {
             </TabsContent>
 
             <TabsContent value="history" className="mt-4">
-              <HistoricalData earthquakes={recentEarthquakes} />
+              <HistoricalData />
             </TabsContent>
 
             <TabsContent value="report" className="mt-4">
               {selectedEarthquake ? (
-                <CrowdsourceReport earthquake={selectedEarthquake} userLocation={getUserLocation()} />
+                <CrowdsourceReport earthquake={selectedEarthquake} userLocation={userLocation} />
               ) : (
                 <Card>
                   <CardContent className="py-10 text-center">
@@ -299,23 +420,33 @@ export default function Home() {
           </Tabs>
 
           {/* Selected earthquake details */}
-          {selectedEarthquake && getUserLocation() && activeTab !== "intensity" && (
-            <EarthquakeAlert earthquake={selectedEarthquake} userLocation={getUserLocation()!} />
+          {selectedEarthquake && userLocation && activeTab !== "intensity" && (
+            <EarthquakeAlert
+              earthquake={selectedEarthquake}
+              userLocation={userLocation}
+              updated={isUpdated(selectedEarthquake)}
+              velocityModel={velocityModel}
+            />
           )}
+
+          {/* Revision timeline for the selected earthquake */}
+          {selectedEarthquake && <RevisionTimeline revisions={revisions[selectedEarthquake.id] ?? []} />}
         </div>
 
         <div className="space-y-6">
           <Tabs defaultValue="locations">
-            <TabsList className="grid grid-cols-3 w-full">
+            <TabsList className="grid grid-cols-4 w-full">
               <TabsTrigger value="locations">Ubicaciones</TabsTrigger>
               <TabsTrigger value="notifications">Alertas</TabsTrigger>
               <TabsTrigger value="settings">Ajustes</TabsTrigger>
+              <TabsTrigger value="status">Estado</TabsTrigger>
             </TabsList>
 
             <TabsContent value="locations" className="mt-4">
               <UserLocations
-                initialLocations={savedLocations}
-                onLocationAdded={handleLocationAdded}
+                locations={savedLocations}
+                onLocationAdded={addLocation}
+                onLocationUpdated={updateLocation}
                 onLocationRemoved={handleLocationRemoved}
                 onLocationSelected={handleLocationSelected}
               />
@@ -328,6 +459,10 @@ export default function Home() {
             <TabsContent value="settings" className="mt-4">
               <AdvancedSettings onSave={handleSettingsSaved} />
             </TabsContent>
+
+            <TabsContent value="status" className="mt-4">
+              <SourceStatusPanel />
+            </TabsContent>
           </Tabs>
 
           {/* Recent earthquakes list */}
@@ -337,9 +472,10 @@ export default function Home() {
                 <Activity className="h-5 w-5" />
                 Sismos Recientes
               </CardTitle>
-              <CardDescription>Últimos eventos registrados por el CSN</CardDescription>
+              <CardDescription>Últimos eventos registrados por el CSN y catálogos internacionales</CardDescription>
             </CardHeader>
             <CardContent>
+              <DataFreshness feed={feed} />
               {loading ? (
                 <div className="space-y-2">
                   {[...Array(5)].map((_, i) => (
@@ -374,8 +510,20 @@ export default function Home() {
                           {quake.magnitude.toFixed(1)}
                         </div>
                         <div>
-                          <p className="font-medium line-clamp-1">{quake.reference}</p>
-                          <p className="text-xs text-muted-foreground">{new Date(quake.local_time).toLocaleString()}</p>
+                          <p className="font-medium line-clamp-1">
+                            {getEventReference(quake)}
+                            {isUpdated(quake) && (
+                              <span className="ml-2 text-xs font-normal bg-blue-100 text-blue-800 px-1.5 py-0.5 rounded-full dark:bg-blue-900 dark:text-blue-100">
+                                actualizado
+                              </span>
+                            )}
+                          </p>
+                          <div className="flex items-center gap-2">
+                            <p className="text-xs text-muted-foreground">
+                              {new Date(quake.local_time).toLocaleString()}
+                            </p>
+                            <TectonicRegimeBadge earthquake={quake} />
+                          </div>
                         </div>
                       </div>
                     </div>
@@ -390,11 +538,11 @@ export default function Home() {
             variant="destructive"
             className="w-full"
             onClick={() => {
-              if (selectedEarthquake && getUserLocation()) {
+              if (selectedEarthquake && userLocation) {
                 setEmergencyModeActive(true)
               }
             }}
-            disabled={!selectedEarthquake || !getUserLocation()}
+            disabled={!selectedEarthquake || !userLocation}
           >
             <AlertTriangle className="h-4 w-4 mr-2" />
             Activar Modo Emergencia
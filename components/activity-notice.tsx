@@ -0,0 +1,53 @@
+"use client"
+
+import { Info } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import type { AnomalyKind, RateAnomaly } from "@/utils/rate-anomalies"
+
+interface ActivityNoticeProps {
+  anomalies: RateAnomaly[]
+}
+
+const KIND_LABELS: Record<AnomalyKind, string> = {
+  swarm: "Enjambre sísmico",
+  sequence: "Secuencia de réplicas",
+}
+
+/**
+ * Format a number with a decimal comma, e.g. "0,4"
+ */
+function formatDecimal(value: number, digits: number): string {
+  return value.toFixed(digits).replace(".", ",")
+}
+
+/**
+ * Informational notice of unusual seismic activity near the user's locations
+ * Unlike an earthquake alert it calls for no immediate action
+ */
+export default function ActivityNotice({ anomalies }: ActivityNoticeProps) {
+  const nearby = anomalies.filter((anomaly) => anomaly.nearbyLocations.length > 0)
+  if (nearby.length === 0) return null
+
+  return (
+    <Alert className="border-blue-200 bg-blue-50 text-blue-900 dark:border-blue-800 dark:bg-blue-950 dark:text-blue-100 [&>svg]:text-blue-600">
+      <Info className="h-4 w-4" />
+      <AlertTitle>Actividad sísmica inusual</AlertTitle>
+      <AlertDescription className="space-y-2">
+        {nearby.map((anomaly) => {
+          const closest = anomaly.nearbyLocations[0]
+          return (
+            <p key={anomaly.id}>
+              <span className="font-medium">{KIND_LABELS[anomaly.kind]}</span> a {Math.round(closest.distanceKm)} km de{" "}
+              {anomaly.nearbyLocations.map((location) => location.name).join(", ")}: {anomaly.recentCount} sismos
+              recientes (máx. M{anomaly.maxMagnitude.toFixed(1)}) donde se esperaban{" "}
+              {formatDecimal(anomaly.expectedCount, 1)} según la tasa del último año.
+            </p>
+          )
+        })}
+        <p className="text-xs opacity-80">
+          Aviso informativo: la actividad supera la tasa habitual de la zona, pero no es una alerta de sismo en curso.
+        </p>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -10,6 +10,7 @@ import { Switch } from "@/components/ui/switch"
 import { Slider } from "@/components/ui/slider"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { toast } from "@/hooks/use-toast"
+import { VELOCITY_MODELS, type VelocityModelId } from "@/utils/travel-times"
 
 interface AdvancedSettingsProps {
   onSave?: (settings: {
@@ -18,6 +19,8 @@ interface AdvancedSettingsProps {
     darkMode: boolean
     dataUsage: string
     lowPowerMode: boolean
+    velocityModel: VelocityModelId
+    aftershockMagnitude: number
   }) => void
 }
 
@@ -27,6 +30,8 @@ export default function AdvancedSettings({ onSave }: AdvancedSettingsProps) {
   const [darkMode, setDarkMode] = useState<boolean>(false)
   const [dataUsage, setDataUsage] = useState<string>("balanced")
   const [lowPowerMode, setLowPowerMode] = useState<boolean>(false)
+  const [velocityModel, setVelocityModel] = useState<VelocityModelId>("chile")
+  const [aftershockMagnitude, setAftershockMagnitude] = useState<number>(6.0)
 
   // Save settings
   const saveSettings = () => {
@@ -36,6 +41,8 @@ export default function AdvancedSettings({ onSave }: AdvancedSettingsProps) {
       darkMode,
       dataUsage,
       lowPowerMode,
+      velocityModel,
+      aftershockMagnitude,
     }
 
     if (onSave) {
@@ -166,6 +173,43 @@ export default function AdvancedSettings({ onSave }: AdvancedSettingsProps) {
             </div>
             <Switch id="low-power" checked={lowPowerMode} onCheckedChange={setLowPowerMode} />
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="velocity-model">Modelo de velocidades</Label>
+            <p className="text-sm text-muted-foreground">Usado para estimar la llegada de las ondas P y S</p>
+            <Select value={velocityModel} onValueChange={(value) => setVelocityModel(value as VelocityModelId)}>
+              <SelectTrigger id="velocity-model" className="w-full">
+                <SelectValue placeholder="Seleccione un modelo" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(VELOCITY_MODELS).map((model) => (
+                  <SelectItem key={model.id} value={model.id}>
+                    {model.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="aftershock-magnitude">Pronóstico de réplicas</Label>
+            <p className="text-sm text-muted-foreground">Magnitud mínima del sismo para mostrar el pronóstico</p>
+            <Select
+              value={aftershockMagnitude.toFixed(1)}
+              onValueChange={(value) => setAftershockMagnitude(Number.parseFloat(value))}
+            >
+              <SelectTrigger id="aftershock-magnitude" className="w-full">
+                <SelectValue placeholder="Seleccione una magnitud" />
+              </SelectTrigger>
+              <SelectContent>
+                {[5.0, 5.5, 6.0, 6.5, 7.0].map((magnitude) => (
+                  <SelectItem key={magnitude} value={magnitude.toFixed(1)}>
+                    M{magnitude.toFixed(1)} o mayor
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
       </CardContent>
       <CardFooter>
@@ -0,0 +1,156 @@
+"use client"
+
+import { Activity } from "lucide-react"
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useAftershockForecast } from "@/hooks/use-aftershock-forecast"
+import type { EarthquakeData } from "@/lib/api"
+import { getEventReference } from "@/lib/gazetteer"
+import {
+  FORECAST_MAGNITUDES,
+  FORECAST_WINDOWS,
+  formatProbability,
+  type AftershockProbability,
+} from "@/utils/aftershock-forecast"
+
+interface AftershockForecastProps {
+  earthquake: EarthquakeData
+}
+
+/**
+ * Background color for a probability cell, darker for likelier outcomes
+ */
+function probabilityClassName(probability: number): string {
+  if (probability >= 0.5) return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100"
+  if (probability >= 0.1) return "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-100"
+  if (probability >= 0.01) return "bg-yellow-50 text-yellow-800 dark:bg-yellow-950 dark:text-yellow-100"
+  return "text-muted-foreground"
+}
+
+/**
+ * Format a time since the mainshock in days as "3 h" or "2,5 d"
+ */
+function formatDays(days: number): string {
+  if (days < 1) return `${Math.round(days * 24)} h`
+  return `${days < 10 ? days.toFixed(1).replace(".", ",") : Math.round(days)} d`
+}
+
+export default function AftershockForecast({ earthquake }: AftershockForecastProps) {
+  const { forecast, loading, error } = useAftershockForecast(earthquake)
+
+  const probabilityOf = (magnitude: number, days: number): AftershockProbability | undefined =>
+    forecast?.probabilities.find((entry) => entry.magnitude === magnitude && entry.window.days === days)
+
+  // Log axes cannot show empty bins
+  const decay = forecast?.decay.map((point) => ({
+    ...point,
+    observedRate: point.observedRate ? point.observedRate : null,
+  }))
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Pronóstico de réplicas
+        </CardTitle>
+        <CardDescription>
+          Probabilidad de réplicas tras el sismo M{earthquake.magnitude.toFixed(1)} {getEventReference(earthquake)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && !forecast ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          forecast && (
+            <>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-muted-foreground">
+                      <th className="text-left font-normal py-1">Magnitud</th>
+                      {FORECAST_WINDOWS.map((window) => (
+                        <th key={window.days} className="text-center font-normal py-1">
+                          {window.label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {FORECAST_MAGNITUDES.map((magnitude) => (
+                      <tr key={magnitude} className="border-t">
+                        <td className="py-2 font-medium">M{magnitude}+</td>
+                        {FORECAST_WINDOWS.map((window) => {
+                          const entry = probabilityOf(magnitude, window.days)
+                          return (
+                            <td key={window.days} className="py-2 text-center">
+                              {entry && (
+                                <span
+                                  className={`inline-block min-w-[4rem] rounded px-2 py-0.5 ${probabilityClassName(entry.probability)}`}
+                                  title={`${entry.expected.toFixed(1).replace(".", ",")} réplicas esperadas`}
+                                >
+                                  {formatProbability(entry.probability)}
+                                </span>
+                              )}
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="h-[220px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={decay} margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      dataKey="days"
+                      type="number"
+                      scale="log"
+                      domain={["dataMin", "dataMax"]}
+                      tickFormatter={formatDays}
+                      tick={{ fontSize: 12 }}
+                    />
+                    <YAxis scale="log" domain={["auto", "auto"]} allowDataOverflow tick={{ fontSize: 12 }} />
+                    <Tooltip
+                      labelFormatter={(days) => `${formatDays(Number(days))} tras el sismo`}
+                      formatter={(value) => `${Number(value).toFixed(1).replace(".", ",")} por día`}
+                    />
+                    <Legend />
+                    <Line
+                      type="monotone"
+                      dataKey="expectedRate"
+                      stroke="#8884d8"
+                      dot={false}
+                      name={`Modelo (M${forecast.completenessMagnitude}+)`}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="observedRate"
+                      stroke="#ef4444"
+                      strokeWidth={0}
+                      dot={{ r: 3 }}
+                      connectNulls={false}
+                      name="Observadas"
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Modelo de Reasenberg y Jones con parámetros genéricos para Chile, ajustado con{" "}
+                {forecast.aftershocks.length} réplicas M{forecast.completenessMagnitude}+ registradas en{" "}
+                {formatDays(forecast.elapsedDays)}. Las réplicas pueden ocurrir en cualquier momento; mantenga su plan
+                de emergencia.
+              </p>
+            </>
+          )
+        )}
+        {error && <p className="text-xs text-yellow-700 dark:text-yellow-300">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,152 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { getNumeroRomano } from "@/utils/intensity-calculations"
+import {
+  CONSTRUCTION_TYPE_LABELS,
+  type AlertProfile,
+  type ConstructionType,
+  type NotificationPreferences,
+} from "@/utils/location-impact"
+import type { SiteClass } from "@/utils/site-response"
+
+interface AlertProfileFormProps {
+  id: string // Prefix for the ids of the fields, unique on the page
+  profile: AlertProfile
+  onChange: (profile: AlertProfile) => void
+}
+
+const SITE_CLASS_LABELS: Record<SiteClass | "auto", string> = {
+  auto: "Automático (según ubicación)",
+  A: "A - Roca",
+  B: "B - Roca blanda o suelo muy denso",
+  C: "C - Suelo denso",
+  D: "D - Suelo medianamente denso",
+  E: "E - Suelo de compacidad mediana",
+}
+
+const INTENSITIES = Array.from({ length: 12 }, (_, i) => i + 1)
+
+/**
+ * Fields of the alert profile of a saved location
+ */
+export default function AlertProfileForm({ id, profile, onChange }: AlertProfileFormProps) {
+  const update = (changes: Partial<AlertProfile>) => onChange({ ...profile, ...changes })
+  const updateNotifications = (changes: Partial<NotificationPreferences>) =>
+    update({ notifications: { ...profile.notifications, ...changes } })
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Tipo de construcción</Label>
+          <Select
+            value={profile.constructionType}
+            onValueChange={(value) => update({ constructionType: value as ConstructionType })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Construcción" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CONSTRUCTION_TYPE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Tipo de suelo</Label>
+          <Select
+            value={profile.siteClass}
+            onValueChange={(value) => update({ siteClass: value as AlertProfile["siteClass"] })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Suelo" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SITE_CLASS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-floor`}>Piso</Label>
+          <Input
+            id={`${id}-floor`}
+            type="number"
+            min={1}
+            value={profile.floor}
+            onChange={(e) => update({ floor: Math.max(1, Number.parseInt(e.target.value) || 1) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-magnitude`}>Magnitud mín.</Label>
+          <Input
+            id={`${id}-magnitude`}
+            type="number"
+            min={0}
+            step={0.1}
+            value={profile.minMagnitude}
+            onChange={(e) => update({ minMagnitude: Number.parseFloat(e.target.value) || 0 })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Intensidad mín.</Label>
+          <Select
+            value={profile.minIntensity.toString()}
+            onValueChange={(value) => update({ minIntensity: Number(value) })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Intensidad" />
+            </SelectTrigger>
+            <SelectContent>
+              {INTENSITIES.map((intensity) => (
+                <SelectItem key={intensity} value={intensity.toString()}>
+                  {getNumeroRomano(intensity)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor={`${id}-notify`}>Notificar</Label>
+          <Switch
+            id={`${id}-notify`}
+            checked={profile.notifications.enabled}
+            onCheckedChange={(enabled) => updateNotifications({ enabled })}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor={`${id}-sound`}>Sonido</Label>
+          <Switch
+            id={`${id}-sound`}
+            checked={profile.notifications.sound}
+            onCheckedChange={(sound) => updateNotifications({ sound })}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor={`${id}-vibration`}>Vibración</Label>
+          <Switch
+            id={`${id}-vibration`}
+            checked={profile.notifications.vibration}
+            onCheckedChange={(vibration) => updateNotifications({ vibration })}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { AlertTriangle, CloudOff } from "lucide-react"
+import { describeDataAge, type FeedStatus } from "@/lib/fetch-result"
+
+interface DataFreshnessProps {
+  feed: FeedStatus
+}
+
+/**
+ * Banner shown when the earthquake list is stale or unavailable, e.g. "Mostrando datos de hace 7 minutos"
+ */
+export default function DataFreshness({ feed }: DataFreshnessProps) {
+  const [now, setNow] = useState(() => Date.now())
+
+  // Keep the age current while the banner is visible
+  useEffect(() => {
+    if (feed.status === "ok") return
+    const timer = setInterval(() => setNow(Date.now()), 30000)
+    return () => clearInterval(timer)
+  }, [feed.status])
+
+  if (feed.status === "ok") return null
+
+  if (feed.status === "error" || !feed.updatedAt) {
+    return (
+      <div className="flex items-center gap-2 p-3 mb-2 rounded-lg bg-red-50 text-red-800 text-sm dark:bg-red-950 dark:text-red-100">
+        <CloudOff className="h-4 w-4 shrink-0" />
+        <span>No se pudo conectar con las fuentes sismológicas. Reintentando…</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-2 p-3 mb-2 rounded-lg bg-yellow-50 text-yellow-800 text-sm dark:bg-yellow-950 dark:text-yellow-100">
+      <AlertTriangle className="h-4 w-4 shrink-0" />
+      <span>Fuentes sismológicas no disponibles. Mostrando {describeDataAge(feed.updatedAt, now)}.</span>
+    </div>
+  )
+}
@@ -1,23 +1,15 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { calcularTiempoLlegada, formatearTiempo } from "@/utils/seismic-calculations"
+import type { EarthquakeData } from "@/lib/api"
+import { getEventReference } from "@/lib/gazetteer"
+import { formatearTiempo } from "@/utils/seismic-calculations"
+import type { VelocityModelId } from "@/utils/travel-times"
+import { estimateArrivalTimes, formatTimeRange, type ArrivalTimeEstimate } from "@/utils/uncertainty"
 import { AlertCircle, Clock, MapPin, Activity } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
 
-interface EarthquakeData {
-  id: string
-  utc_time: string
-  local_time: string
-  latitude: number
-  longitude: number
-  depth: number
-  magnitude: number
-  scale: string
-  reference: string
-}
-
 interface EarthquakeAlertProps {
   earthquake: EarthquakeData
   userLocation: {
@@ -25,16 +17,17 @@ interface EarthquakeAlertProps {
     longitude: number
     regionCode: string
   }
+  updated?: boolean // The event's solution has been revised since it was first reported
+  velocityModel?: VelocityModelId
 }
 
-export default function EarthquakeAlert({ earthquake, userLocation }: EarthquakeAlertProps) {
-  const [arrivalTimes, setArrivalTimes] = useState<{
-    tiempoOndaP: number
-    tiempoOndaS: number
-    diferenciaSegundos: number
-    tiempoAlerta: number
-    distanciaKm: number
-  } | null>(null)
+export default function EarthquakeAlert({
+  earthquake,
+  userLocation,
+  updated = false,
+  velocityModel = "chile",
+}: EarthquakeAlertProps) {
+  const [estimate, setEstimate] = useState<ArrivalTimeEstimate | null>(null)
 
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null)
   const [alertActive, setAlertActive] = useState(false)
@@ -42,16 +35,10 @@ export default function EarthquakeAlert({ earthquake, userLocation }: Earthquake
   // Calculate arrival times when earthquake data changes
   useEffect(() => {
     if (earthquake && userLocation) {
-      const times = calcularTiempoLlegada(
-        earthquake.latitude,
-        earthquake.longitude,
-        userLocation.latitude,
-        userLocation.longitude,
-        earthquake.depth,
-        userLocation.regionCode,
-      )
+      const arrival = estimateArrivalTimes(earthquake, userLocation, velocityModel)
+      const times = arrival.nominal
 
-      setArrivalTimes(times)
+      setEstimate(arrival)
 
       // If S-wave hasn't arrived yet, start countdown
       const eventTime = new Date(earthquake.utc_time).getTime()
@@ -66,7 +53,7 @@ export default function EarthquakeAlert({ earthquake, userLocation }: Earthquake
         setAlertActive(false)
       }
     }
-  }, [earthquake, userLocation])
+  }, [earthquake, userLocation, velocityModel])
 
   // Countdown timer
   useEffect(() => {
@@ -94,7 +81,9 @@ export default function EarthquakeAlert({ earthquake, userLocation }: Earthquake
     return "bg-yellow-500"
   }
 
-  if (!arrivalTimes) return null
+  if (!estimate) return null
+
+  const arrivalTimes = estimate.nominal
 
   return (
     <Card className={`w-full max-w-md mx-auto overflow-hidden ${alertActive ? "border-red-500 border-2" : ""}`}>
@@ -104,6 +93,11 @@ export default function EarthquakeAlert({ earthquake, userLocation }: Earthquake
           <span className="flex items-center gap-2">
             <Activity className="h-5 w-5" />
             Magnitud {earthquake.magnitude} {earthquake.scale}
+            {updated && (
+              <span className="text-xs font-normal bg-blue-100 text-blue-800 px-2 py-0.5 rounded-full dark:bg-blue-900 dark:text-blue-100">
+                actualizado
+              </span>
+            )}
           </span>
           {alertActive && (
             <span className="text-sm bg-red-100 text-red-800 px-2 py-1 rounded-full animate-pulse dark:bg-red-900 dark:text-red-100">
@@ -116,7 +110,7 @@ export default function EarthquakeAlert({ earthquake, userLocation }: Earthquake
         <div className="flex justify-between text-sm">
           <div className="flex items-center gap-1">
             <MapPin className="h-4 w-4 text-muted-foreground" />
-            <span>{earthquake.reference}</span>
+            <span>{getEventReference(earthquake)}</span>
           </div>
           <div className="text-muted-foreground">Prof: {earthquake.depth} km</div>
         </div>
@@ -134,13 +128,15 @@ export default function EarthquakeAlert({ earthquake, userLocation }: Earthquake
                 <span className="font-bold text-red-600 dark:text-red-400">{formatearTiempo(timeRemaining)}</span>
               </div>
               <Progress value={(1 - timeRemaining / arrivalTimes.tiempoOndaS) * 100} className="h-2 mt-1" />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Llegada estimada (90%):</span>
+                <span>{formatTimeRange(estimate.s)} tras el sismo</span>
+              </div>
             </>
           ) : (
             <div className="flex justify-between text-sm">
               <span>Tiempo de llegada:</span>
-              <span>
-                Onda P: {formatearTiempo(arrivalTimes.tiempoOndaP)}, Onda S: {formatearTiempo(arrivalTimes.tiempoOndaS)}
-              </span>
+              <span>Onda P: {formatTimeRange(estimate.p)}, Onda S: {formatTimeRange(estimate.s)}</span>
             </div>
           )}
         </div>
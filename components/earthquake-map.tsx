@@ -3,6 +3,9 @@
 import { useEffect, useState } from "react"
 import dynamic from 'next/dynamic'
 import type { EarthquakeData } from "@/lib/api"
+import { getEventReference } from "@/lib/gazetteer"
+import { EARTHQUAKE_SOURCES } from "@/lib/sources"
+import type { ClusterLabel } from "@/utils/declustering"
 import { calcularDistanciaHaversine } from "@/utils/seismic-calculations"
 import { MapPin, Navigation } from "lucide-react"
 import { Button } from "@/components/ui/button"
@@ -55,6 +58,17 @@ interface EarthquakeMapProps {
   } | null
   onSelectEarthquake?: (earthquake: EarthquakeData) => void
   selectedEarthquake?: EarthquakeData | null
+  clusterLabels?: Record<string, ClusterLabel> | null // Color events by sequence when set
+}
+
+// Colors for sequences, reused cyclically; independent events are gray
+const CLUSTER_COLORS = ["#1C7ED6", "#E03131", "#2F9E44", "#F76707", "#AE3EC9", "#0C8599", "#E8590C", "#5C940D"]
+const INDEPENDENT_COLOR = "#868E96"
+
+const CLUSTER_ROLE_LABELS: Record<ClusterLabel["role"], string> = {
+  mainshock: "Sismo principal",
+  foreshock: "Precursor",
+  aftershock: "Réplica",
 }
 
 export default function EarthquakeMap({
@@ -62,14 +76,19 @@ export default function EarthquakeMap({
   userLocation,
   onSelectEarthquake,
   selectedEarthquake,
+  clusterLabels,
 }: EarthquakeMapProps) {
   const [center, setCenter] = useState<[number, number]>([-35.6751, -71.543])
 
   // Crear icono personalizado para terremotos
-  const createEarthquakeIcon = (magnitude: number) => {
+  const createEarthquakeIcon = (magnitude: number, cluster?: ClusterLabel) => {
     const size = Math.max(20, Math.min(50, magnitude * 8))
     let color = "#FCC419" // Yellow for small earthquakes
-    if (magnitude >= 6)
+    if (clusterLabels)
+      color = cluster && cluster.clusterSize > 1
+        ? CLUSTER_COLORS[cluster.clusterId % CLUSTER_COLORS.length]
+        : INDEPENDENT_COLOR
+    else if (magnitude >= 6)
       color = "#C92A2A" // Dark red for large
     else if (magnitude >= 5)
       color = "#E03131" // Red
@@ -145,16 +164,31 @@ export default function EarthquakeMap({
           <Marker 
             key={quake.id} 
             position={[quake.latitude, quake.longitude]}
-            icon={createEarthquakeIcon(quake.magnitude)}
+            icon={createEarthquakeIcon(quake.magnitude, clusterLabels?.[quake.id])}
             eventHandlers={{
               click: () => handleEarthquakeSelect(quake)
             }}
           >
             <Popup>
               <b>Magnitud {quake.magnitude} {quake.scale}</b><br />
-              {quake.reference}<br />
+              {getEventReference(quake)}<br />
               Profundidad: {quake.depth} km<br />
               Fecha: {new Date(quake.local_time).toLocaleString()}
+              {clusterLabels?.[quake.id] && clusterLabels[quake.id].clusterSize > 1 && (
+                <>
+                  <br />
+                  {CLUSTER_ROLE_LABELS[clusterLabels[quake.id].role]} · secuencia de {clusterLabels[quake.id].clusterSize} sismos
+                </>
+              )}
+              {quake.alternates && quake.alternates.length > 0 && (
+                <>
+                  <br />
+                  Fuentes: {[quake.authoritativeSource, ...quake.alternates.map((alt) => alt.source)]
+                    .filter((source) => source !== undefined)
+                    .map((source) => EARTHQUAKE_SOURCES[source].name)
+                    .join(", ")}
+                </>
+              )}
             </Popup>
           </Marker>
         ))}
@@ -5,12 +5,14 @@ import { AlertTriangle, MapPin, Phone, Shield, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import type { EarthquakeData } from "@/lib/api"
-import {
-  getRecomendacionesIntensidad,
-  estimarIntensidadLocal,
-  getDescripcionIntensidad,
-} from "@/utils/intensity-calculations"
-import { calcularDistanciaHaversine, getRegionName } from "@/utils/seismic-calculations"
+import { getEventReference } from "@/lib/gazetteer"
+import { getSiteConditions } from "@/lib/site-conditions"
+import { classifyEarthquake, getGroundMotionEventType } from "@/lib/tectonic-regime"
+import { getRecomendacionesIntensidad, getDescripcionIntensidad } from "@/utils/intensity-calculations"
+import type { LocationImpact } from "@/utils/location-impact"
+import { describeMagnitudeConversion } from "@/utils/magnitude"
+import { getRegionName } from "@/utils/seismic-calculations"
+import { estimateIntensity, formatIntensityRange, type EstimateRange } from "@/utils/uncertainty"
 
 interface EmergencyModeProps {
   earthquake: EarthquakeData
@@ -19,6 +21,7 @@ interface EmergencyModeProps {
     longitude: number
     regionCode: string
   }
+  impact?: LocationImpact | null // Impact on the selected saved location, which follows its alert profile
   onClose: () => void
   constructionType?: "hormigon" | "albanileria" | "madera" | "adobe"
 }
@@ -26,10 +29,11 @@ interface EmergencyModeProps {
 export default function EmergencyMode({
   earthquake,
   userLocation,
+  impact = null,
   onClose,
   constructionType = "hormigon",
 }: EmergencyModeProps) {
-  const [intensity, setIntensity] = useState<number>(0)
+  const [intensity, setIntensity] = useState<EstimateRange>({ value: 1, low: 1, high: 1 })
   const [recommendations, setRecommendations] = useState<string[]>([])
   const [emergencyContacts, setEmergencyContacts] = useState<{ name: string; phone: string }[]>([])
 
@@ -37,27 +41,20 @@ export default function EmergencyMode({
   useEffect(() => {
     if (!earthquake || !userLocation) return
 
-    // Calculate distance
-    const distance = calcularDistanciaHaversine(
-      earthquake.latitude,
-      earthquake.longitude,
-      userLocation.latitude,
-      userLocation.longitude,
-    )
-
-    // Estimate local intensity
-    const estimatedIntensity = estimarIntensidadLocal(
-      earthquake.magnitude,
-      earthquake.depth,
-      distance,
-      "suelo_firme", // This would come from geological data in a real app
-      userLocation.regionCode,
-    )
+    // Estimate local intensity with its confidence interval, as already evaluated for a saved location
+    const estimatedIntensity =
+      impact?.intensity ??
+      estimateIntensity(
+        earthquake,
+        userLocation,
+        getSiteConditions(userLocation.latitude, userLocation.longitude).vs30,
+        getGroundMotionEventType(classifyEarthquake(earthquake).regime),
+      )
 
     setIntensity(estimatedIntensity)
 
-    // Get recommendations based on intensity and construction type
-    const recs = getRecomendacionesIntensidad(estimatedIntensity, constructionType)
+    // Get recommendations for the upper end of the interval, erring on the side of caution
+    const recs = getRecomendacionesIntensidad(estimatedIntensity.high, constructionType)
     setRecommendations(recs)
 
     // Get emergency contacts based on region
@@ -79,7 +76,7 @@ export default function EmergencyMode({
     if (navigator.vibrate) {
       navigator.vibrate([200, 100, 200, 100, 400])
     }
-  }, [earthquake, userLocation, constructionType])
+  }, [earthquake, userLocation, impact?.intensity, constructionType])
 
   // Handle emergency call
   const callEmergency = (phone: string) => {
@@ -105,7 +102,10 @@ export default function EmergencyMode({
               <p className="text-lg font-bold">
                 Magnitud {earthquake.magnitude} {earthquake.scale}
               </p>
-              <p className="text-sm text-muted-foreground">{earthquake.reference}</p>
+              <p className="text-sm text-muted-foreground">{getEventReference(earthquake)}</p>
+              {describeMagnitudeConversion(earthquake) && (
+                <p className="text-xs text-muted-foreground">{describeMagnitudeConversion(earthquake)}</p>
+              )}
             </div>
             <div className="text-right">
               <p className="text-sm text-muted-foreground">Profundidad</p>
@@ -116,9 +116,11 @@ export default function EmergencyMode({
           <div className="bg-red-50 p-4 rounded-lg border border-red-200 dark:bg-red-900/20 dark:border-red-800">
             <div className="flex justify-between items-center mb-2">
               <p className="font-bold text-red-800 dark:text-red-200">Intensidad estimada en su ubicación:</p>
-              <p className="font-bold text-lg text-red-800 dark:text-red-200">{intensity} (Mercalli)</p>
+              <p className="font-bold text-lg text-red-800 dark:text-red-200">
+                {formatIntensityRange(intensity)} (Mercalli)
+              </p>
             </div>
-            <p className="text-sm text-red-700 dark:text-red-300">{getDescripcionIntensidad(intensity)}</p>
+            <p className="text-sm text-red-700 dark:text-red-300">{getDescripcionIntensidad(intensity.value)}</p>
           </div>
 
           <div>
@@ -0,0 +1,183 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import {
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Scatter,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { EarthquakeData } from "@/lib/api"
+import {
+  MIN_EVENTS_FOR_B_VALUE,
+  binMagnitudes,
+  fitGutenbergRichter,
+  type CompletenessMethod,
+} from "@/utils/magnitude-frequency"
+import { getRegionName } from "@/utils/seismic-calculations"
+
+interface FrequencyMagnitudeProps {
+  earthquakes: EarthquakeData[]
+  getRegionCode: (quake: EarthquakeData) => string
+}
+
+type DepthRange = "all" | "shallow" | "intermediate" | "deep"
+
+// Depth limits in km
+const DEPTH_RANGES: Record<DepthRange, { label: string; min: number; max: number }> = {
+  all: { label: "Todas las profundidades", min: 0, max: Infinity },
+  shallow: { label: "Superficiales (< 70 km)", min: 0, max: 70 },
+  intermediate: { label: "Intermedios (70–300 km)", min: 70, max: 300 },
+  deep: { label: "Profundos (> 300 km)", min: 300, max: Infinity },
+}
+
+const METHOD_LABELS: Record<CompletenessMethod, string> = {
+  maxc: "Curvatura máxima",
+  gof: "Bondad de ajuste",
+}
+
+/**
+ * Format a number with a decimal comma, e.g. "0,98"
+ */
+function formatDecimal(value: number, digits: number): string {
+  return value.toFixed(digits).replace(".", ",")
+}
+
+/**
+ * Frequency-magnitude distribution with the magnitude of completeness and Gutenberg-Richter fit
+ */
+export default function FrequencyMagnitude({ earthquakes, getRegionCode }: FrequencyMagnitudeProps) {
+  const [region, setRegion] = useState("all")
+  const [depthRange, setDepthRange] = useState<DepthRange>("all")
+  const [method, setMethod] = useState<CompletenessMethod>("maxc")
+
+  const regionCodes = useMemo(
+    () => Array.from(new Set(earthquakes.map(getRegionCode))).sort((a, b) => a.localeCompare(b)),
+    [earthquakes, getRegionCode],
+  )
+
+  const magnitudes = useMemo(() => {
+    const depth = DEPTH_RANGES[depthRange]
+    return earthquakes
+      .filter((quake) => region === "all" || getRegionCode(quake) === region)
+      .filter((quake) => quake.depth >= depth.min && quake.depth < depth.max)
+      .map((quake) => quake.magnitude)
+  }, [earthquakes, getRegionCode, region, depthRange])
+
+  const fit = useMemo(() => fitGutenbergRichter(magnitudes, { method }), [magnitudes, method])
+
+  // Log axes cannot show empty bins
+  const chartData = useMemo(
+    () =>
+      binMagnitudes(magnitudes).map((bin) => ({
+        magnitude: bin.magnitude,
+        cumulative: bin.cumulative || null,
+        incremental: bin.incremental || null,
+        model: fit && bin.magnitude >= fit.mc - 1e-6 ? 10 ** (fit.a - fit.b * bin.magnitude) : null,
+      })),
+    [magnitudes, fit],
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <Select value={region} onValueChange={setRegion}>
+          <SelectTrigger>
+            <SelectValue placeholder="Región" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todas las regiones</SelectItem>
+            {regionCodes.map((code) => (
+              <SelectItem key={code} value={code}>
+                {getRegionName(code)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={depthRange} onValueChange={(value) => setDepthRange(value as DepthRange)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Profundidad" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(DEPTH_RANGES).map(([value, { label }]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={method} onValueChange={(value) => setMethod(value as CompletenessMethod)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Método de Mc" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(METHOD_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                Mc: {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {fit ? (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+          <div className="p-2 border rounded-lg">
+            <p className="text-xs text-muted-foreground">Completitud (Mc)</p>
+            <p className="font-medium">
+              {formatDecimal(fit.mc, 1)} ± {formatDecimal(fit.mcSigma, 2)}
+            </p>
+          </div>
+          <div className="p-2 border rounded-lg">
+            <p className="text-xs text-muted-foreground">Valor b</p>
+            <p className="font-medium">
+              {formatDecimal(fit.b, 2)} ± {formatDecimal(fit.bSigma, 2)}
+            </p>
+          </div>
+          <div className="p-2 border rounded-lg">
+            <p className="text-xs text-muted-foreground">Valor a</p>
+            <p className="font-medium">{formatDecimal(fit.a, 2)}</p>
+          </div>
+          <div className="p-2 border rounded-lg">
+            <p className="text-xs text-muted-foreground">Sismos ≥ Mc</p>
+            <p className="font-medium">{fit.count}</p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Se necesitan al menos {MIN_EVENTS_FOR_B_VALUE} sismos sobre la magnitud de completitud para estimar el valor b
+          ({magnitudes.length} sismos seleccionados).
+        </p>
+      )}
+
+      <div className="h-[350px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="magnitude"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(value) => formatDecimal(Number(value), 1)}
+              tick={{ fontSize: 12 }}
+            />
+            <YAxis scale="log" domain={[1, "auto"]} allowDataOverflow tick={{ fontSize: 12 }} />
+            <Tooltip labelFormatter={(value) => `M${formatDecimal(Number(value), 1)}`} />
+            <Legend />
+            <Scatter dataKey="cumulative" fill="#8884d8" name="Acumulada N(≥M)" />
+            <Scatter dataKey="incremental" fill="#82ca9d" name="Incremental" />
+            <Line dataKey="model" stroke="#ef4444" dot={false} name="Gutenberg-Richter" />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
@@ -1,15 +1,56 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from "recharts"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Input } from "@/components/ui/input"
+import FrequencyMagnitude from "@/components/frequency-magnitude"
+import { useCatalog } from "@/hooks/use-catalog"
 import type { EarthquakeData } from "@/lib/api"
-import { getRegionName } from "@/utils/seismic-calculations"
+import { geofence } from "@/lib/geofencing"
+import { parseUtcTime } from "@/lib/sources/normalize"
+import {
+  DECLUSTERING_METHOD_LABELS,
+  declusterCatalog,
+  declusteredEarthquakes,
+  type DeclusteringMethod,
+} from "@/utils/declustering"
+import { cumulativeMomentRelease } from "@/utils/magnitude"
+import { getRegionName, OUTSIDE_CHILE_REGION_CODE } from "@/utils/seismic-calculations"
 
-interface HistoricalDataProps {
-  earthquakes: EarthquakeData[]
+type TimeRange = "7d" | "30d" | "90d" | "1y" | "10y" | "50y" | "custom"
+type CatalogView = "full" | DeclusteringMethod
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Length of each preset range in days
+const RANGE_DAYS: Record<Exclude<TimeRange, "custom">, number> = {
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+  "1y": 365,
+  "10y": 10 * 365,
+  "50y": 50 * 365,
+}
+
+/**
+ * Minimum magnitude to request for a range, keeping decades-long queries to a manageable size
+ */
+function minimumMagnitudeForRange(days: number): number {
+  if (days <= 30) return 2.5
+  if (days <= 365) return 3.0
+  if (days <= 10 * 365) return 4.0
+  return 5.0
+}
+
+/**
+ * Region of an earthquake from its coordinates
+ * Offshore events count for the region they face; events outside Chile are grouped apart
+ */
+function getRegionCode(quake: EarthquakeData): string {
+  return geofence(quake.latitude, quake.longitude).regionCode ?? OUTSIDE_CHILE_REGION_CODE
 }
 
 interface RegionStats {
@@ -26,41 +67,52 @@ interface TimeSeriesData {
   avgMagnitude: number
 }
 
-export default function HistoricalData({ earthquakes }: HistoricalDataProps) {
-  const [timeRange, setTimeRange] = useState<"7d" | "30d" | "90d" | "1y">("30d")
+export default function HistoricalData() {
+  const [timeRange, setTimeRange] = useState<TimeRange>("30d")
+  const [customStart, setCustomStart] = useState("2010-01-01")
+  const [customEnd, setCustomEnd] = useState(new Date().toISOString().split("T")[0])
   const [regionStats, setRegionStats] = useState<RegionStats[]>([])
   const [timeSeriesData, setTimeSeriesData] = useState<TimeSeriesData[]>([])
+  const [catalogView, setCatalogView] = useState<CatalogView>("full")
+
+  // Resolve the selected range to whole UTC days so it stays stable between renders
+  const range = useMemo(() => {
+    if (timeRange === "custom") {
+      const start = new Date(`${customStart}T00:00:00Z`)
+      const end = new Date(new Date(`${customEnd}T00:00:00Z`).getTime() + DAY_MS)
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) return null
+      return { start, end, minMagnitude: minimumMagnitudeForRange((end.getTime() - start.getTime()) / DAY_MS) }
+    }
+
+    const today = new Date()
+    const end = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()) + DAY_MS)
+    const start = new Date(end.getTime() - RANGE_DAYS[timeRange] * DAY_MS)
+    return { start, end, minMagnitude: minimumMagnitudeForRange(RANGE_DAYS[timeRange]) }
+  }, [timeRange, customStart, customEnd])
+
+  const { earthquakes: catalog, loading, error } = useCatalog(range)
+
+  // Optionally remove foreshocks and aftershocks so sequences do not dominate the statistics
+  const earthquakes = useMemo(() => {
+    if (catalogView === "full") return catalog
+    return declusteredEarthquakes(catalog, declusterCatalog(catalog, catalogView))
+  }, [catalog, catalogView])
+
+  const momentRelease = useMemo(() => cumulativeMomentRelease(earthquakes), [earthquakes])
 
   // Process earthquake data for statistics
   useEffect(() => {
-    if (!earthquakes || earthquakes.length === 0) return
+    if (!range || earthquakes.length === 0) {
+      setRegionStats([])
+      setTimeSeriesData([])
+      return
+    }
 
     // Calculate region statistics
     const regionMap = new Map<string, { count: number; sumMag: number; maxMag: number }>()
 
     earthquakes.forEach((quake) => {
-      // Determine region based on coordinates (simplified)
-      // In a real app, this would use proper geofencing
-      let regionCode = "13" // Default to Metropolitan Region
-
-      // Very simplified region assignment based on latitude
-      if (quake.latitude < -41)
-        regionCode = "10" // Los Lagos or further south
-      else if (quake.latitude < -37)
-        regionCode = "08" // Biobío
-      else if (quake.latitude < -33)
-        regionCode = "07" // Maule
-      else if (quake.latitude < -30)
-        regionCode = "05" // Valparaíso
-      else if (quake.latitude < -27)
-        regionCode = "04" // Coquimbo
-      else if (quake.latitude < -24)
-        regionCode = "03" // Atacama
-      else if (quake.latitude < -21)
-        regionCode = "02" // Antofagasta
-      else if (quake.latitude < -18)
-        regionCode = "01" // Tarapacá
-      else if (quake.latitude < -17) regionCode = "15" // Arica y Parinacota
+      const regionCode = getRegionCode(quake)
 
       // Update region statistics
       if (!regionMap.has(regionCode)) {
@@ -88,52 +140,38 @@ export default function HistoricalData({ earthquakes }: HistoricalDataProps) {
     setRegionStats(statsArray)
 
     // Calculate time series data
-    const now = new Date()
     const timeSeriesMap = new Map<string, { count: number; sumMag: number }>()
-
-    // Determine date range based on selected time range
-    let startDate: Date
-    switch (timeRange) {
-      case "7d":
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
-        break
-      case "90d":
-        startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000)
-        break
-      case "1y":
-        startDate = new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000)
-        break
-      case "30d":
-      default:
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000)
-        break
-    }
+    const startDate = range.start
+    const rangeDays = (range.end.getTime() - range.start.getTime()) / DAY_MS
 
     // Group earthquakes by date
     earthquakes.forEach((quake) => {
-      const quakeDate = new Date(quake.utc_time)
+      const quakeDate = parseUtcTime(quake.utc_time)
 
       // Skip if outside selected time range
       if (quakeDate < startDate) return
 
-      // Format date key based on time range
+      // Format date key based on range length
       let dateKey: string
-      if (timeRange === "7d") {
+      if (rangeDays <= 7) {
         // For 7 days, group by day
         dateKey = quakeDate.toISOString().split("T")[0]
-      } else if (timeRange === "30d") {
+      } else if (rangeDays <= 30) {
         // For 30 days, group by 3-day periods
         const dayOfMonth = Math.floor(quakeDate.getDate() / 3) * 3
         const periodDate = new Date(quakeDate)
         periodDate.setDate(dayOfMonth + 1)
         dateKey = periodDate.toISOString().split("T")[0]
-      } else if (timeRange === "90d") {
+      } else if (rangeDays <= 90) {
         // For 90 days, group by week
         const weekNumber = Math.floor((quakeDate.getTime() - startDate.getTime()) / (7 * 24 * 60 * 60 * 1000))
         dateKey = `Week ${weekNumber + 1}`
-      } else {
-        // For 1 year, group by month
+      } else if (rangeDays <= 2 * 365) {
+        // For up to 2 years, group by month
         dateKey = `${quakeDate.getFullYear()}-${(quakeDate.getMonth() + 1).toString().padStart(2, "0")}`
+      } else {
+        // For longer ranges, group by year
+        dateKey = quakeDate.getFullYear().toString()
       }
 
       // Update time series data
@@ -157,13 +195,24 @@ export default function HistoricalData({ earthquakes }: HistoricalDataProps) {
     timeSeriesArray.sort((a, b) => a.date.localeCompare(b.date))
 
     setTimeSeriesData(timeSeriesArray)
-  }, [earthquakes, timeRange])
+  }, [earthquakes, range])
 
   return (
     <Card>
       <CardHeader>
         <CardTitle>Datos Históricos de Sismos</CardTitle>
-        <CardDescription>Análisis estadístico de actividad sísmica en Chile</CardDescription>
+        <CardDescription>
+          Análisis estadístico de actividad sísmica en Chile
+          {range && (
+            <>
+              {" "}
+              · {earthquakes.length} sismos M{range.minMagnitude.toFixed(1)}+
+              {catalogView !== "full" && ` independientes de ${catalog.length}`}
+              {loading && " (cargando…)"}
+            </>
+          )}
+          {error && <span className="text-red-600 dark:text-red-400"> · {error}</span>}
+        </CardDescription>
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="regions">
@@ -171,21 +220,62 @@ export default function HistoricalData({ earthquakes }: HistoricalDataProps) {
             <TabsList>
               <TabsTrigger value="regions">Por Región</TabsTrigger>
               <TabsTrigger value="timeline">Línea de Tiempo</TabsTrigger>
+              <TabsTrigger value="magnitudes">Frecuencia-Magnitud</TabsTrigger>
+              <TabsTrigger value="moment">Momento Sísmico</TabsTrigger>
             </TabsList>
 
-            <Select value={timeRange} onValueChange={(value) => setTimeRange(value as any)}>
-              <SelectTrigger className="w-[150px]">
-                <SelectValue placeholder="Período" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="7d">Últimos 7 días</SelectItem>
-                <SelectItem value="30d">Últimos 30 días</SelectItem>
-                <SelectItem value="90d">Últimos 90 días</SelectItem>
-                <SelectItem value="1y">Último año</SelectItem>
-              </SelectContent>
-            </Select>
+            <div className="flex gap-2">
+              <Select value={catalogView} onValueChange={(value) => setCatalogView(value as CatalogView)}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder="Catálogo" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="full">Catálogo completo</SelectItem>
+                  {Object.entries(DECLUSTERING_METHOD_LABELS).map(([method, label]) => (
+                    <SelectItem key={method} value={method}>
+                      Sin réplicas ({label})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={timeRange} onValueChange={(value) => setTimeRange(value as TimeRange)}>
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue placeholder="Período" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="7d">Últimos 7 días</SelectItem>
+                  <SelectItem value="30d">Últimos 30 días</SelectItem>
+                  <SelectItem value="90d">Últimos 90 días</SelectItem>
+                  <SelectItem value="1y">Último año</SelectItem>
+                  <SelectItem value="10y">Últimos 10 años</SelectItem>
+                  <SelectItem value="50y">Últimos 50 años</SelectItem>
+                  <SelectItem value="custom">Personalizado</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
+          {timeRange === "custom" && (
+            <div className="flex gap-2 items-center mb-4 text-sm">
+              <Input
+                type="date"
+                value={customStart}
+                max={customEnd}
+                onChange={(e) => setCustomStart(e.target.value)}
+                className="w-[160px]"
+              />
+              <span>a</span>
+              <Input
+                type="date"
+                value={customEnd}
+                min={customStart}
+                onChange={(e) => setCustomEnd(e.target.value)}
+                className="w-[160px]"
+              />
+            </div>
+          )}
+
           <TabsContent value="regions" className="h-[400px]">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={regionStats} margin={{ top: 20, right: 30, left: 20, bottom: 70 }}>
@@ -219,6 +309,44 @@ export default function HistoricalData({ earthquakes }: HistoricalDataProps) {
               </LineChart>
             </ResponsiveContainer>
           </TabsContent>
+
+          <TabsContent value="magnitudes">
+            <FrequencyMagnitude earthquakes={earthquakes} getRegionCode={getRegionCode} />
+          </TabsContent>
+
+          <TabsContent value="moment" className="h-[400px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={momentRelease} margin={{ top: 20, right: 30, left: 20, bottom: 70 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={(value) => new Date(value).toISOString().split("T")[0]}
+                  angle={-45}
+                  textAnchor="end"
+                  height={70}
+                  tick={{ fontSize: 12 }}
+                />
+                <YAxis tickFormatter={(value) => Number(value).toExponential(1)} tick={{ fontSize: 12 }} />
+                <Tooltip
+                  labelFormatter={(value) => new Date(value).toISOString().replace("T", " ").slice(0, 16)}
+                  formatter={(value, _, item) => [
+                    `${Number(value).toExponential(2)} N·m (Mw ${item.payload.magnitude.toFixed(1)})`,
+                    "Momento acumulado",
+                  ]}
+                />
+                <Line
+                  type="stepAfter"
+                  dataKey="moment"
+                  stroke="#8884d8"
+                  dot={false}
+                  name="Momento sísmico acumulado (N·m)"
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </TabsContent>
         </Tabs>
       </CardContent>
     </Card>
@@ -2,10 +2,18 @@
 
 import { useEffect, useRef, useState } from "react"
 import type { EarthquakeData } from "@/lib/api"
-import { estimarIntensidadLocal, getColorIntensidad } from "@/utils/intensity-calculations"
+import { getEventReference } from "@/lib/gazetteer"
+import { getSiteConditions } from "@/lib/site-conditions"
+import { classifyEarthquake, getGroundMotionEventType } from "@/lib/tectonic-regime"
+import { estimateRupture, getRuptureOutline, ruptureDistances } from "@/utils/finite-fault"
+import { calcularHuellaIntensidad, estimarIntensidadLocal, getColorIntensidad } from "@/utils/intensity-calculations"
+import { describeMagnitudeConversion, getMomentMagnitude } from "@/utils/magnitude"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Skeleton } from "@/components/ui/skeleton"
 
+// Magnitude from which the rupture is long enough to draw
+const RUPTURE_OUTLINE_MAGNITUDE = 7.0
+
 interface IntensityMapProps {
   earthquake: EarthquakeData
   userLocation?: {
@@ -97,39 +105,43 @@ export default function IntensityMap({ earthquake, userLocation }: IntensityMapP
           <b>Epicentro</b><br>
           Magnitud: ${earthquake.magnitude} ${earthquake.scale}<br>
           Profundidad: ${earthquake.depth} km<br>
-          ${earthquake.reference}
+          ${getEventReference(earthquake)}
         `)
 
-        // Add intensity circles
-        // These would be calculated more precisely in a real app
-        // based on geological data and regional factors
-        const intensityRadii = [
-          { intensity: 8, radius: 30 },
-          { intensity: 7, radius: 60 },
-          { intensity: 6, radius: 100 },
-          { intensity: 5, radius: 150 },
-          { intensity: 4, radius: 220 },
-          { intensity: 3, radius: 300 },
-        ]
-
-        // Adjust radii based on magnitude and depth
-        const magnitudeFactor = earthquake.magnitude / 6.0
-        const depthFactor = Math.max(0.5, Math.min(1.5, 100 / earthquake.depth))
-
-        intensityRadii.forEach(({ intensity, radius }) => {
-          const adjustedRadius = radius * magnitudeFactor * depthFactor * 1000 // Convert to meters
-
-          const circle = L.circle([earthquake.latitude, earthquake.longitude], {
-            radius: adjustedRadius,
+        // Add intensity footprints, where the GMPE estimate for the rupture reaches each level on a generic site
+        const intensityLevels = [8, 7, 6, 5, 4, 3]
+        const eventType = getGroundMotionEventType(classifyEarthquake(earthquake).regime)
+        const magnitude = getMomentMagnitude(earthquake)
+        const rupture = estimateRupture(earthquake, magnitude, eventType)
+
+        intensityLevels.forEach((intensity) => {
+          const footprint = calcularHuellaIntensidad(rupture, intensity, eventType)
+          if (footprint.length === 0) return
+
+          const polygon = L.polygon(footprint, {
             color: getColorIntensidad(intensity),
             fillColor: getColorIntensidad(intensity),
             fillOpacity: 0.3,
             weight: 1,
           }).addTo(map)
 
-          circle.bindTooltip(`Intensidad ${intensity} (Mercalli)`)
+          polygon.bindTooltip(`Intensidad ${intensity} (Mercalli)`)
         })
 
+        if (magnitude >= RUPTURE_OUTLINE_MAGNITUDE) {
+          const outline = L.polygon(getRuptureOutline(rupture), {
+            color: "#111827",
+            dashArray: "6, 4",
+            fill: false,
+            weight: 2,
+          }).addTo(map)
+
+          outline.bindTooltip(
+            `Ruptura estimada: ${Math.round(rupture.lengthKm)} × ${Math.round(rupture.widthKm)} km, ` +
+              `rumbo ${Math.round(rupture.strike)}°, manteo ${Math.round(rupture.dip)}°`,
+          )
+        }
+
         // Add user location if available
         if (userLocation) {
           const userMarker = L.marker([userLocation.latitude, userLocation.longitude], {
@@ -154,17 +166,21 @@ export default function IntensityMap({ earthquake, userLocation }: IntensityMapP
               L.latLng(userLocation.latitude, userLocation.longitude),
             ) / 1000 // km
 
+          const site = getSiteConditions(userLocation.latitude, userLocation.longitude)
+          const distances = ruptureDistances(rupture, userLocation.latitude, userLocation.longitude)
           const estimatedIntensity = estimarIntensidadLocal(
-            earthquake.magnitude,
+            magnitude,
             earthquake.depth,
-            distance,
-            "suelo_firme", // This would come from geological data in a real app
-            userLocation.regionCode,
+            distances,
+            site.vs30,
+            eventType,
           )
 
           userMarker.bindPopup(`
             <b>Su ubicación</b><br>
             Distancia al epicentro: ${Math.round(distance)} km<br>
+            Distancia a la ruptura: ${Math.round(distances.rRupKm)} km<br>
+            Suelo: clase ${site.siteClass} (Vs30 ${Math.round(site.vs30)} m/s)<br>
             Intensidad estimada: ${estimatedIntensity} (Mercalli)
           `)
 
@@ -199,8 +215,12 @@ export default function IntensityMap({ earthquake, userLocation }: IntensityMapP
       <CardHeader>
         <CardTitle>Mapa de Intensidad</CardTitle>
         <CardDescription>
-          Estimación de intensidad sísmica para M{earthquake.magnitude} {earthquake.scale} - {earthquake.reference}
+          Estimación de intensidad sísmica para M{earthquake.magnitude} {earthquake.scale} -{" "}
+          {getEventReference(earthquake)}
         </CardDescription>
+        {describeMagnitudeConversion(earthquake) && (
+          <p className="text-xs text-muted-foreground">{describeMagnitudeConversion(earthquake)}</p>
+        )}
       </CardHeader>
       <CardContent>
         {!mapLoaded ? <Skeleton className="h-[400px] w-full" /> : <div ref={mapRef} className="h-[400px] w-full" />}
@@ -0,0 +1,60 @@
+"use client"
+
+import { Home } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import type { EarthquakeData } from "@/lib/api"
+import { getEventReference } from "@/lib/gazetteer"
+import { CONSTRUCTION_TYPE_LABELS, formatImpactSummary, type LocationImpact } from "@/utils/location-impact"
+import { formatIntensityRange } from "@/utils/uncertainty"
+
+interface LocationImpactsProps {
+  earthquake: EarthquakeData
+  impacts: LocationImpact[]
+}
+
+/**
+ * Estimated intensity and S-wave arrival of an earthquake at every saved location
+ */
+export default function LocationImpacts({ earthquake, impacts }: LocationImpactsProps) {
+  if (impacts.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2">
+          <Home className="h-5 w-5" />
+          Impacto en tus ubicaciones
+        </CardTitle>
+        <CardDescription>
+          M{earthquake.magnitude.toFixed(1)} {getEventReference(earthquake)} — {formatImpactSummary(impacts)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {impacts.map(({ location, intensity, secondsToS, triggered }) => (
+          <div key={location.id} className="flex items-center justify-between p-3 border rounded-lg">
+            <div>
+              <p className="font-medium flex items-center gap-2">
+                {location.name}
+                {triggered && (
+                  <Badge variant="destructive" className="text-[10px] px-1.5 py-0">
+                    Supera tu umbral
+                  </Badge>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {CONSTRUCTION_TYPE_LABELS[location.profile.constructionType]}, piso {location.profile.floor}
+              </p>
+            </div>
+            <div className="text-right">
+              <p className="font-bold">{formatIntensityRange(intensity)}</p>
+              <p className="text-xs text-muted-foreground">
+                {secondsToS !== null ? `Onda S en ${Math.round(secondsToS)} s` : "Onda S ya llegó"}
+              </p>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
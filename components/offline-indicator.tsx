@@ -1,11 +1,15 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { WifiOff } from "lucide-react"
+import { AlertTriangle, WifiOff } from "lucide-react"
 import { toast } from "@/hooks/use-toast"
+import { useSourceStatus } from "@/hooks/use-source-status"
+import { describeAge } from "@/lib/fetch-result"
 
 export default function OfflineIndicator() {
   const [isOnline, setIsOnline] = useState(true)
+  // The network can be fine while the seismic feed itself is stale
+  const { report } = useSourceStatus()
 
   useEffect(() => {
     // Set initial state
@@ -38,7 +42,20 @@ export default function OfflineIndicator() {
     }
   }, [])
 
-  if (isOnline) return null
+  if (isOnline) {
+    if (!report || report.feed.status === "ok") return null
+
+    return (
+      <div className="fixed bottom-4 left-4 z-50 bg-yellow-100 text-yellow-800 px-3 py-2 rounded-full flex items-center gap-2 shadow-md dark:bg-yellow-900 dark:text-yellow-100">
+        <AlertTriangle className="h-4 w-4" />
+        <span className="text-sm font-medium">
+          {report.feed.updatedAt
+            ? `Datos sísmicos desactualizados (${describeAge(report.feed.updatedAt)})`
+            : "Fuentes sísmicas no disponibles"}
+        </span>
+      </div>
+    )
+  }
 
   return (
     <div className="fixed bottom-4 left-4 z-50 bg-yellow-100 text-yellow-800 px-3 py-2 rounded-full flex items-center gap-2 shadow-md dark:bg-yellow-900 dark:text-yellow-100">
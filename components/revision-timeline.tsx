@@ -0,0 +1,61 @@
+"use client"
+
+import { History } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { describeRevision, type EventRevision } from "@/utils/event-revisions"
+
+interface RevisionTimelineProps {
+  revisions: EventRevision[]
+}
+
+export default function RevisionTimeline({ revisions }: RevisionTimelineProps) {
+  // Only worth showing once the event has actually been revised
+  if (revisions.length < 2) return null
+
+  // Most recent revision first
+  const ordered = [...revisions].reverse()
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Historial de revisiones
+        </CardTitle>
+        <CardDescription>Las agencias corrigen magnitud y ubicación a medida que llegan más datos</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ol className="relative border-l border-muted ml-2 space-y-4">
+          {ordered.map((revision, index) => (
+            <li key={revision.revision} className="ml-4">
+              <div
+                className={`absolute w-3 h-3 rounded-full -left-1.5 mt-1.5 ${
+                  index === 0 ? "bg-primary" : "bg-muted-foreground/40"
+                }`}
+              />
+              <div className="flex items-center gap-2">
+                <span className="font-medium">
+                  Revisión {revision.revision}: M{revision.earthquake.magnitude} {revision.earthquake.scale}
+                </span>
+                {index === 0 && <Badge variant="secondary">Actual</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Recibida {new Date(revision.receivedAt).toLocaleTimeString()}
+              </p>
+              {revision.revision === 1 ? (
+                <p className="text-sm text-muted-foreground">Solución preliminar</p>
+              ) : (
+                <ul className="text-sm mt-1 space-y-0.5">
+                  {describeRevision(revision).map((description) => (
+                    <li key={description}>• {description}</li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,80 @@
+"use client"
+
+import { Server } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useSourceStatus } from "@/hooks/use-source-status"
+import { describeAge, describeDataAge } from "@/lib/fetch-result"
+import type { SourceHealth } from "@/lib/sources/status"
+
+const HEALTH_LABELS: Record<SourceHealth, { label: string; className: string }> = {
+  ok: { label: "Operativa", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" },
+  degraded: { label: "Inestable", className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100" },
+  down: { label: "Caída", className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100" },
+  unknown: { label: "Sin datos", className: "bg-muted text-muted-foreground" },
+}
+
+/**
+ * Format a lag in seconds as "45 s", "3,5 min" or "2,0 h"
+ */
+function formatLag(seconds: number): string {
+  if (seconds < 90) return `${Math.round(seconds)} s`
+  if (seconds < 90 * 60) return `${(seconds / 60).toFixed(1).replace(".", ",")} min`
+  return `${(seconds / 3600).toFixed(1).replace(".", ",")} h`
+}
+
+export default function SourceStatusPanel() {
+  const { report, loading, error } = useSourceStatus()
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2">
+          <Server className="h-5 w-5" />
+          Estado de las fuentes
+        </CardTitle>
+        <CardDescription>
+          {report
+            ? report.feed.updatedAt
+              ? `Último dato sísmico: ${describeDataAge(report.feed.updatedAt)}`
+              : "Aún no se han recibido datos sísmicos"
+            : "Disponibilidad y retraso de cada catálogo sísmico"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-sm text-red-600 dark:text-red-400">No se pudo consultar el estado del servidor</p>}
+
+        {loading && !report ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          report?.sources.map((source) => {
+            const health = HEALTH_LABELS[source.health]
+            return (
+              <div key={source.source} className="p-3 border rounded-lg space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-sm">{source.name}</span>
+                  <Badge variant="outline" className={health.className}>
+                    {health.label}
+                  </Badge>
+                </div>
+                <div className="grid grid-cols-2 gap-x-2 text-xs text-muted-foreground">
+                  <span>Último éxito: {source.lastSuccessAt ? describeAge(source.lastSuccessAt) : "nunca"}</span>
+                  <span>Latencia: {source.averageLatencyMs !== null ? `${source.averageLatencyMs} ms` : "—"}</span>
+                  <span>
+                    Errores: {source.errorRate !== null ? `${Math.round(source.errorRate * 100)}%` : "—"} de{" "}
+                    {source.requests}
+                  </span>
+                  <span>Retraso: {source.medianLagSeconds !== null ? formatLag(source.medianLagSeconds) : "—"}</span>
+                </div>
+                {source.health !== "ok" && source.lastError && (
+                  <p className="text-xs text-red-600 dark:text-red-400 line-clamp-2">{source.lastError}</p>
+                )}
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+    </Card>
+  )
+}
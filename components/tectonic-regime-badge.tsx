@@ -0,0 +1,33 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import type { EarthquakeData } from "@/lib/api"
+import { classifyEarthquake, TECTONIC_REGIME_LABELS, type TectonicRegime } from "@/lib/tectonic-regime"
+
+interface TectonicRegimeBadgeProps {
+  earthquake: Pick<EarthquakeData, "latitude" | "longitude" | "depth">
+}
+
+const REGIME_STYLES: Record<TectonicRegime, string> = {
+  interface: "border-blue-300 text-blue-800 dark:border-blue-700 dark:text-blue-100",
+  intraslab: "border-purple-300 text-purple-800 dark:border-purple-700 dark:text-purple-100",
+  crustal: "border-amber-300 text-amber-800 dark:border-amber-700 dark:text-amber-100",
+  "outer-rise": "border-teal-300 text-teal-800 dark:border-teal-700 dark:text-teal-100",
+}
+
+/**
+ * Tectonic regime of an event, e.g. "Interplaca"
+ */
+export default function TectonicRegimeBadge({ earthquake }: TectonicRegimeBadgeProps) {
+  const { regime, slabDepthKm } = classifyEarthquake(earthquake)
+
+  return (
+    <Badge
+      variant="outline"
+      className={`text-[10px] px-1.5 py-0 font-normal ${REGIME_STYLES[regime]}`}
+      title={slabDepthKm !== null ? `Placa de Nazca a ${Math.round(slabDepthKm)} km de profundidad` : undefined}
+    >
+      {TECTONIC_REGIME_LABELS[regime]}
+    </Badge>
+  )
+}
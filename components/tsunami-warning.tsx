@@ -7,6 +7,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import type { EarthquakeData } from "@/lib/api"
+import { classifyEarthquake, isTsunamigenicRegime } from "@/lib/tectonic-regime"
+import { describeMagnitudeConversion, getMomentMagnitude } from "@/utils/magnitude"
 import { calcularDistanciaHaversine } from "@/utils/seismic-calculations"
 
 interface TsunamiWarningProps {
@@ -18,6 +20,11 @@ interface TsunamiWarningProps {
   } | null
 }
 
+// Elevation above which the authorities consider a location safe from tsunami inundation, in meters
+// Evacuation instructions never depend on the elevation of the user's location: a downsampled elevation model
+// averages waterfronts with the hills behind them, so it cannot tell a user they are safe
+const TSUNAMI_SAFE_HEIGHT = 30
+
 // Coastal coordinates for Chile (simplified)
 const COASTAL_COORDINATES = [
   { name: "Arica", lat: -18.4746, lon: -70.3136 },
@@ -54,27 +61,26 @@ export default function TsunamiWarning({ earthquake, userLocation }: TsunamiWarn
     // 1. Magnitude (higher = higher risk)
     // 2. Depth (shallower = higher risk)
     // 3. Distance to coast (closer = higher risk)
-    // 4. Location (subduction zone = higher risk)
-
-    // Check if earthquake is in a subduction zone (simplified)
-    const isSubductionZone = earthquake.longitude < -70.0
+    // 4. Tectonic regime (interface and outer-rise events displace the sea floor)
+    const isTsunamigenic = isTsunamigenicRegime(classifyEarthquake(earthquake).regime)
 
-    // Calculate risk based on magnitude and depth
+    // Calculate risk based on moment magnitude and depth
+    const magnitude = getMomentMagnitude(earthquake)
     let risk: "none" | "low" | "moderate" | "high" | "extreme" = "none"
 
-    if (earthquake.magnitude >= 8.0) {
+    if (magnitude >= 8.0) {
       risk = "extreme"
-    } else if (earthquake.magnitude >= 7.5) {
+    } else if (magnitude >= 7.5) {
       risk = earthquake.depth < 60 ? "high" : "moderate"
-    } else if (earthquake.magnitude >= 7.0) {
+    } else if (magnitude >= 7.0) {
       risk = earthquake.depth < 50 ? "moderate" : "low"
-    } else if (earthquake.magnitude >= 6.5 && earthquake.depth < 30) {
+    } else if (magnitude >= 6.5 && earthquake.depth < 30) {
       risk = "low"
     }
 
-    // Adjust risk based on subduction zone
-    if (isSubductionZone && risk !== "none") {
-      // Increase risk by one level if in subduction zone
+    // Adjust risk based on tectonic regime
+    if (isTsunamigenic && risk !== "none") {
+      // Increase risk by one level for events that can displace the sea floor
       if (risk === "low") risk = "moderate"
       else if (risk === "moderate") risk = "high"
       else if (risk === "high") risk = "extreme"
@@ -140,7 +146,7 @@ export default function TsunamiWarning({ earthquake, userLocation }: TsunamiWarn
         // Set evacuation routes (simplified - would come from a database in a real app)
         if (userMinDistance < 10) {
           setEvacuationRoutes([
-            "Diríjase inmediatamente a zonas altas, sobre 30 metros sobre el nivel del mar",
+            `Diríjase inmediatamente a zonas altas, sobre ${TSUNAMI_SAFE_HEIGHT} metros sobre el nivel del mar`,
             "Siga las rutas de evacuación señalizadas",
             "Aléjese de ríos y esteros que desembocan en el mar",
             "No utilice vehículos para evacuar, salvo que las autoridades lo indiquen",
@@ -215,6 +221,10 @@ export default function TsunamiWarning({ earthquake, userLocation }: TsunamiWarn
         </Badge>
       </CardHeader>
       <CardContent className="space-y-4">
+        {describeMagnitudeConversion(earthquake) && (
+          <p className="text-xs text-muted-foreground">{describeMagnitudeConversion(earthquake)}</p>
+        )}
+
         <div className="flex justify-between items-center">
           <div>
             <p className="text-sm text-muted-foreground">Punto costero más cercano al epicentro</p>
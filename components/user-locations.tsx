@@ -1,44 +1,56 @@
 "use client"
 
-import { useState } from "react"
-import { Home, MapPin, Plus, Trash2, Building, Users } from "lucide-react"
+import { useMemo, useState } from "react"
+import { Home, MapPin, Plus, Trash2, Building, Users, SlidersHorizontal } from "lucide-react"
+import AlertProfileForm from "@/components/alert-profile-form"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { toast } from "@/hooks/use-toast"
-
-interface Location {
-  id: string
-  name: string
-  latitude: number
-  longitude: number
-  type: "home" | "work" | "family" | "other"
-  regionCode: string
-}
+import { searchPlaces, reverseGeocode, type Place } from "@/lib/gazetteer"
+import { geofence } from "@/lib/geofencing"
+import { DEFAULT_ALERT_PROFILE, type AlertProfile, type SavedLocation } from "@/utils/location-impact"
+import { getRegionName } from "@/utils/seismic-calculations"
 
 interface UserLocationsProps {
-  initialLocations?: Location[]
-  onLocationAdded?: (location: Location) => void
+  locations: SavedLocation[]
+  onLocationAdded?: (location: SavedLocation) => void
+  onLocationUpdated?: (location: SavedLocation) => void
   onLocationRemoved?: (locationId: string) => void
-  onLocationSelected?: (location: Location) => void
+  onLocationSelected?: (location: SavedLocation) => void
 }
 
 export default function UserLocations({
-  initialLocations = [],
+  locations,
   onLocationAdded,
+  onLocationUpdated,
   onLocationRemoved,
   onLocationSelected,
 }: UserLocationsProps) {
-  const [locations, setLocations] = useState<Location[]>(initialLocations)
   const [showAddForm, setShowAddForm] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
   const [newLocation, setNewLocation] = useState({
     name: "",
     type: "home" as const,
     latitude: "",
     longitude: "",
   })
+  const [newProfile, setNewProfile] = useState<AlertProfile>(DEFAULT_ALERT_PROFILE)
+  const [placeQuery, setPlaceQuery] = useState("")
+  const placeResults = useMemo(() => searchPlaces(placeQuery), [placeQuery])
+
+  // Fill the coordinates from a gazetteer place, and the name if still empty
+  const selectPlace = (place: Place) => {
+    setNewLocation((prev) => ({
+      ...prev,
+      name: prev.name || place.name,
+      latitude: place.latitude.toString(),
+      longitude: place.longitude.toString(),
+    }))
+    setPlaceQuery("")
+  }
 
   // Get current location
   const getCurrentLocation = () => {
@@ -90,7 +102,8 @@ export default function UserLocations({
     const lat = Number.parseFloat(newLocation.latitude)
     const lon = Number.parseFloat(newLocation.longitude)
 
-    if (isNaN(lat) || isNaN(lon) || lat < -56 || lat > -17 || lon < -76 || lon > -66) {
+    const place = isNaN(lat) || isNaN(lon) ? null : geofence(lat, lon)
+    if (!place || place.regionCode === null) {
       toast({
         title: "Error",
         description: "Las coordenadas deben estar dentro del territorio chileno",
@@ -100,18 +113,16 @@ export default function UserLocations({
     }
 
     // Create new location
-    const location: Location = {
+    const location: SavedLocation = {
       id: Date.now().toString(),
       name: newLocation.name,
       latitude: lat,
       longitude: lon,
       type: newLocation.type,
-      regionCode: "13", // This would be determined by a proper geofencing function
+      regionCode: place.regionCode,
+      profile: newProfile,
     }
 
-    // Add to state
-    setLocations((prev) => [...prev, location])
-
     // Call callback
     if (onLocationAdded) {
       onLocationAdded(location)
@@ -124,6 +135,7 @@ export default function UserLocations({
       latitude: "",
       longitude: "",
     })
+    setNewProfile(DEFAULT_ALERT_PROFILE)
 
     setShowAddForm(false)
 
@@ -135,8 +147,6 @@ export default function UserLocations({
 
   // Remove location
   const removeLocation = (id: string) => {
-    setLocations((prev) => prev.filter((loc) => loc.id !== id))
-
     if (onLocationRemoved) {
       onLocationRemoved(id)
     }
@@ -148,14 +158,14 @@ export default function UserLocations({
   }
 
   // Select location
-  const selectLocation = (location: Location) => {
+  const selectLocation = (location: SavedLocation) => {
     if (onLocationSelected) {
       onLocationSelected(location)
     }
   }
 
   // Get icon for location type
-  const getLocationIcon = (type: Location["type"]) => {
+  const getLocationIcon = (type: SavedLocation["type"]) => {
     switch (type) {
       case "home":
         return <Home className="h-4 w-4" />
@@ -234,6 +244,31 @@ export default function UserLocations({
               </RadioGroup>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="place-search">Buscar lugar</Label>
+              <Input
+                id="place-search"
+                placeholder="Ej: Ovalle, Ñuñoa, Puerto Varas"
+                value={placeQuery}
+                onChange={(e) => setPlaceQuery(e.target.value)}
+              />
+              {placeResults.length > 0 && (
+                <div className="border rounded-md divide-y max-h-48 overflow-y-auto bg-background">
+                  {placeResults.map((place) => (
+                    <button
+                      key={place.name}
+                      type="button"
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-muted"
+                      onClick={() => selectPlace(place)}
+                    >
+                      <span className="font-medium">{place.name}</span>
+                      <span className="ml-2 text-xs text-muted-foreground">{getRegionName(place.regionCode)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="latitude">Latitud</Label>
@@ -255,6 +290,8 @@ export default function UserLocations({
               </div>
             </div>
 
+            <AlertProfileForm id="new-location" profile={newProfile} onChange={setNewProfile} />
+
             <div className="flex gap-2">
               <Button variant="outline" className="flex-1" onClick={getCurrentLocation}>
                 Usar ubicación actual
@@ -275,30 +312,53 @@ export default function UserLocations({
         ) : (
           <div className="space-y-2">
             {locations.map((location) => (
-              <div
-                key={location.id}
-                className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/20 cursor-pointer"
-                onClick={() => selectLocation(location)}
-              >
-                <div className="flex items-center gap-3">
-                  <div className="bg-primary/10 p-2 rounded-full">{getLocationIcon(location.type)}</div>
-                  <div>
-                    <p className="font-medium">{location.name}</p>
-                    <p className="text-xs text-muted-foreground">
-                      {location.latitude.toFixed(4)}, {location.longitude.toFixed(4)}
-                    </p>
+              <div key={location.id} className="border rounded-lg">
+                <div
+                  className="flex items-center justify-between p-3 hover:bg-muted/20 cursor-pointer"
+                  onClick={() => selectLocation(location)}
+                >
+                  <div className="flex items-center gap-3">
+                    <div className="bg-primary/10 p-2 rounded-full">{getLocationIcon(location.type)}</div>
+                    <div>
+                      <p className="font-medium">{location.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {reverseGeocode(location.latitude, location.longitude) ??
+                          `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        setEditingId(editingId === location.id ? null : location.id)
+                      }}
+                    >
+                      <SlidersHorizontal className="h-4 w-4 text-muted-foreground" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        removeLocation(location.id)
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4 text-muted-foreground" />
+                    </Button>
                   </div>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    removeLocation(location.id)
-                  }}
-                >
-                  <Trash2 className="h-4 w-4 text-muted-foreground" />
-                </Button>
+                {editingId === location.id && (
+                  <div className="border-t p-3 bg-muted/20">
+                    <AlertProfileForm
+                      id={`location-${location.id}`}
+                      profile={location.profile}
+                      onChange={(profile) => onLocationUpdated?.({ ...location, profile })}
+                    />
+                  </div>
+                )}
               </div>
             ))}
           </div>
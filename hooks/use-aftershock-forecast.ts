@@ -0,0 +1,114 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { fetchEarthquakeList, type EarthquakeData } from "@/lib/api"
+import { parseUtcTime } from "@/lib/sources/normalize"
+import {
+  forecastAftershocks,
+  getAftershockZoneRadius,
+  MAINSHOCK_WINDOW_DAYS,
+  selectMainshock,
+  type AftershockForecast,
+} from "@/utils/aftershock-forecast"
+
+interface AftershockForecastState {
+  forecast: AftershockForecast | null
+  loading: boolean
+  error: string | null
+}
+
+// Enough events to cover the first days of a productive sequence; the most the API returns
+const SEQUENCE_LIMIT = 500
+
+// Candidate mainshocks requested from the catalog
+const MAINSHOCK_CANDIDATES_LIMIT = 100
+
+/**
+ * Keep an aftershock forecast for a mainshock up to date with the observed sequence
+ * The sequence comes from the server cache, filtered to the aftershock zone since the mainshock
+ * @param mainshock The mainshock, or null to forecast nothing
+ * @param interval Milliseconds between updates
+ */
+export function useAftershockForecast(
+  mainshock: EarthquakeData | null,
+  interval = 5 * 60 * 1000,
+): AftershockForecastState {
+  const [state, setState] = useState<AftershockForecastState>({ forecast: null, loading: false, error: null })
+
+  // Restart only when the solution changes, not on every refresh of the same event
+  const mainshockRef = useRef(mainshock)
+  mainshockRef.current = mainshock
+  const solutionKey = mainshock ? `${mainshock.id}:${mainshock.utc_time}:${mainshock.magnitude}` : null
+
+  useEffect(() => {
+    const current = mainshockRef.current
+    if (!current) {
+      setState({ forecast: null, loading: false, error: null })
+      return
+    }
+
+    let disposed = false
+    setState({ forecast: null, loading: true, error: null })
+
+    const update = async () => {
+      const result = await fetchEarthquakeList({
+        starttime: parseUtcTime(current.utc_time).toISOString(),
+        latitude: current.latitude,
+        longitude: current.longitude,
+        maxradiuskm: getAftershockZoneRadius(current.magnitude),
+        limit: SEQUENCE_LIMIT,
+      })
+      if (disposed) return
+
+      // Without the observed sequence the generic parameters still give a forecast
+      const earthquakes = result.data?.data ?? []
+      setState({
+        forecast: forecastAftershocks(current, earthquakes),
+        loading: false,
+        error: result.status === "error" ? "No se pudieron obtener las réplicas registradas" : null,
+      })
+    }
+
+    update()
+    const timer = setInterval(update, interval)
+
+    return () => {
+      disposed = true
+      clearInterval(timer)
+    }
+  }, [solutionKey, interval])
+
+  return state
+}
+
+/**
+ * Mainshock to forecast aftershocks for, among the recent earthquakes and the cached catalog
+ * The catalog still holds mainshocks that have dropped out of the recent list behind their own aftershocks
+ * @param recentEarthquakes Current list, e.g. from useEarthquakeStream
+ * @param minMagnitude Smallest magnitude of a mainshock
+ */
+export function useForecastMainshock(recentEarthquakes: EarthquakeData[], minMagnitude: number): EarthquakeData | null {
+  const [candidates, setCandidates] = useState<EarthquakeData[]>([])
+
+  // Refetch when a new qualifying event arrives, so the candidates hold it once it leaves the recent list
+  const newestQualifyingId = recentEarthquakes.find((quake) => quake.magnitude >= minMagnitude)?.id
+
+  useEffect(() => {
+    let disposed = false
+    const starttime = new Date(Date.now() - MAINSHOCK_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+    fetchEarthquakeList({ minmagnitude: minMagnitude, starttime, limit: MAINSHOCK_CANDIDATES_LIMIT }).then((result) => {
+      if (!disposed) setCandidates(result.data?.data ?? [])
+    })
+
+    return () => {
+      disposed = true
+    }
+  }, [minMagnitude, newestQualifyingId])
+
+  return useMemo(() => {
+    // The recent list carries the latest solution of events in both
+    const byId = new Map([...candidates, ...recentEarthquakes].map((quake) => [quake.id, quake]))
+    return selectMainshock(Array.from(byId.values()), minMagnitude)
+  }, [candidates, recentEarthquakes, minMagnitude])
+}
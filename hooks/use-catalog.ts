@@ -0,0 +1,124 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { fetchCatalogPage, type EarthquakeData } from "@/lib/api"
+import { describeDataAge } from "@/lib/fetch-result"
+import { getStoredValue, isLocalStoreAvailable, setStoredValue } from "@/lib/local-store"
+
+interface CatalogRange {
+  start: Date
+  end: Date
+  minMagnitude: number
+}
+
+interface CatalogState {
+  earthquakes: EarthquakeData[] // Oldest first
+  loading: boolean
+  fromCache: boolean
+  error: string | null
+}
+
+interface StoredCatalog {
+  earthquakes: EarthquakeData[]
+  fetchedAt: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const RECENT_CATALOG_TTL_MS = 10 * 60 * 1000
+
+/**
+ * Whether a stored catalog can be reused: ranges that ended before it was fetched never change
+ */
+function isFresh(stored: StoredCatalog, range: CatalogRange): boolean {
+  return range.end.getTime() < stored.fetchedAt - DAY_MS || Date.now() - stored.fetchedAt < RECENT_CATALOG_TTL_MS
+}
+
+/**
+ * Load a historical catalog for an arbitrary range, paging through the API and caching the result in IndexedDB
+ * @param range Time range and minimum magnitude, or null to load nothing
+ */
+export function useCatalog(range: CatalogRange | null): CatalogState {
+  const [state, setState] = useState<CatalogState>({
+    earthquakes: [],
+    loading: false,
+    fromCache: false,
+    error: null,
+  })
+
+  const start = range?.start.getTime()
+  const end = range?.end.getTime()
+  const minMagnitude = range?.minMagnitude
+
+  useEffect(() => {
+    if (start === undefined || end === undefined || minMagnitude === undefined) return
+
+    const currentRange = { start: new Date(start), end: new Date(end), minMagnitude }
+    const key = `catalog:${currentRange.start.toISOString()}:${currentRange.end.toISOString()}:${minMagnitude}`
+    let cancelled = false
+
+    const load = async () => {
+      setState({ earthquakes: [], loading: true, fromCache: false, error: null })
+
+      const canStore = isLocalStoreAvailable()
+      let stored: StoredCatalog | undefined
+
+      try {
+        if (canStore) {
+          stored = await getStoredValue<StoredCatalog>("cache", key)
+          if (stored && isFresh(stored, currentRange)) {
+            if (!cancelled) {
+              setState({ earthquakes: stored.earthquakes, loading: false, fromCache: true, error: null })
+            }
+            return
+          }
+        }
+
+        const earthquakes: EarthquakeData[] = []
+        let cursor: string | undefined
+
+        do {
+          const result = await fetchCatalogPage(currentRange.start, currentRange.end, minMagnitude, cursor)
+          if (cancelled) return
+          if (result.status === "error") {
+            throw new Error(result.error)
+          }
+
+          const page = result.data
+
+          earthquakes.push(...page.data)
+          cursor = page.nextCursor ?? undefined
+
+          // Show partial results while the rest of a long range loads
+          setState({ earthquakes: [...earthquakes], loading: cursor !== undefined, fromCache: false, error: null })
+        } while (cursor)
+
+        if (canStore) {
+          await setStoredValue<StoredCatalog>("cache", key, { earthquakes, fetchedAt: Date.now() })
+        }
+      } catch (error) {
+        console.error("Error loading historical catalog:", error)
+        if (cancelled) return
+
+        // An outdated copy beats an empty chart
+        if (stored) {
+          setState({
+            earthquakes: stored.earthquakes,
+            loading: false,
+            fromCache: true,
+            error: `Sin conexión al catálogo, mostrando ${describeDataAge(new Date(stored.fetchedAt).toISOString())}`,
+          })
+        } else {
+          setState((prev) => ({ ...prev, loading: false, error: "No se pudo cargar el catálogo histórico" }))
+        }
+      }
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+    }
+  }, [start, end, minMagnitude])
+
+  return state
+}
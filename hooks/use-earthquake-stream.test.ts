@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import type { EarthquakeData } from "@/lib/api"
+import { openEarthquakeStream, type EarthquakeStreamState } from "./use-earthquake-stream"
+
+function earthquake(id: string, utcTime: string, magnitude = 4): EarthquakeData {
+  return {
+    id,
+    utc_time: utcTime,
+    local_time: utcTime,
+    latitude: -33,
+    longitude: -71.5,
+    depth: 40,
+    magnitude,
+    scale: "Ml",
+    reference: "20 km al O de Valparaíso",
+  }
+}
+
+/**
+ * Minimal EventSource that lets tests open, fail and push events on each connection
+ */
+class FakeEventSource {
+  static instances: FakeEventSource[] = []
+
+  onopen: (() => void) | null = null
+  onerror: (() => void) | null = null
+  closed = false
+  private listeners = new Map<string, (event: MessageEvent<string>) => void>()
+
+  constructor(readonly url: string) {
+    FakeEventSource.instances.push(this)
+  }
+
+  addEventListener(type: string, listener: (event: MessageEvent<string>) => void) {
+    this.listeners.set(type, listener)
+  }
+
+  close() {
+    this.closed = true
+  }
+
+  emit(type: string, data: unknown, lastEventId = "") {
+    this.listeners.get(type)?.(new MessageEvent(type, { data: JSON.stringify(data), lastEventId }))
+  }
+
+  static latest() {
+    return FakeEventSource.instances[FakeEventSource.instances.length - 1]
+  }
+}
+
+const OPTIONS = { limit: 2, url: "/api/earthquakes/stream", pollingInterval: 60000, maxReconnectAttempts: 3 }
+
+let state: EarthquakeStreamState
+let close: () => void
+const fetchMock = vi.fn()
+
+function open() {
+  state = {
+    earthquakes: [],
+    loading: true,
+    mode: "connecting",
+    lastChange: null,
+    feed: { status: "ok", updatedAt: null },
+  }
+  close = openEarthquakeStream(OPTIONS, (updater) => {
+    state = updater(state)
+  })
+}
+
+const a = earthquake("a", "2024-03-10 08:00:00")
+const b = earthquake("b", "2024-03-10 09:00:00")
+const c = earthquake("c", "2024-03-10 10:00:00")
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  FakeEventSource.instances = []
+  fetchMock.mockReset()
+  fetchMock.mockImplementation(() =>
+    Promise.resolve(Response.json({ status: "ok", updatedAt: "2024-03-10T10:00:00.000Z", data: [c, b] })),
+  )
+  vi.stubGlobal("EventSource", FakeEventSource)
+  vi.stubGlobal("fetch", fetchMock)
+})
+
+afterEach(() => {
+  close()
+  vi.restoreAllMocks()
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+})
+
+describe("openEarthquakeStream", () => {
+  it("applies the snapshot and the changes that follow it", () => {
+    open()
+    const source = FakeEventSource.latest()
+    source.onopen?.()
+    source.emit("snapshot", [b, a], "4")
+    source.emit("status", { status: "ok", updatedAt: "2024-03-10T09:00:00.000Z" })
+    source.emit("created", c, "5")
+    source.emit("updated", { ...b, magnitude: 4.4 }, "6")
+
+    expect(state.mode).toBe("streaming")
+    expect(state.loading).toBe(false)
+    expect(state.feed).toEqual({ status: "ok", updatedAt: "2024-03-10T09:00:00.000Z" })
+    expect(state.earthquakes.map((quake) => [quake.id, quake.magnitude])).toEqual([
+      ["c", 4],
+      ["b", 4.4],
+    ])
+
+    source.emit("deleted", c, "7")
+    expect(state.earthquakes.map((quake) => quake.id)).toEqual(["b"])
+    expect(state.lastChange).toEqual({ type: "deleted", earthquake: c })
+  })
+
+  it("reconnects with backoff and resumes from the last event id", async () => {
+    open()
+    FakeEventSource.latest().emit("snapshot", [b, a], "4")
+    FakeEventSource.latest().emit("created", c, "5")
+    FakeEventSource.latest().onerror?.()
+
+    expect(FakeEventSource.latest().closed).toBe(true)
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(FakeEventSource.instances).toHaveLength(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(FakeEventSource.instances).toHaveLength(2)
+    expect(FakeEventSource.latest().url).toBe("/api/earthquakes/stream?lastEventId=5")
+
+    // The second failure in a row waits twice as long
+    FakeEventSource.latest().onerror?.()
+    await vi.advanceTimersByTimeAsync(3999)
+    expect(FakeEventSource.instances).toHaveLength(2)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(FakeEventSource.instances).toHaveLength(3)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it("falls back to polling after repeated failures and stops once the stream is back", async () => {
+    open()
+    for (let attempt = 1; attempt <= OPTIONS.maxReconnectAttempts; attempt++) {
+      FakeEventSource.latest().onerror?.()
+      await vi.advanceTimersByTimeAsync(1000 * 2 ** attempt)
+    }
+
+    expect(state.mode).toBe("polling")
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls[0][0]).toBe("/api/earthquakes?limit=2")
+    expect(state.earthquakes.map((quake) => quake.id)).toEqual(["c", "b"])
+    expect(state.feed).toEqual({ status: "ok", updatedAt: "2024-03-10T10:00:00.000Z" })
+
+    await vi.advanceTimersByTimeAsync(OPTIONS.pollingInterval)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+
+    FakeEventSource.latest().onopen?.()
+    expect(state.mode).toBe("streaming")
+    await vi.advanceTimersByTimeAsync(OPTIONS.pollingInterval * 3)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it("keeps the last list marked as stale when polling fails", async () => {
+    vi.stubGlobal("EventSource", undefined)
+    open()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(state.mode).toBe("polling")
+    expect(state.feed.status).toBe("ok")
+
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    fetchMock.mockImplementation(() => Promise.reject(new TypeError("Failed to fetch")))
+    await vi.advanceTimersByTimeAsync(OPTIONS.pollingInterval + 5000)
+
+    expect(state.earthquakes.map((quake) => quake.id)).toEqual(["c", "b"])
+    expect(state.feed).toMatchObject({ status: "stale", updatedAt: "2024-03-10T10:00:00.000Z" })
+  })
+})
@@ -0,0 +1,175 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { fetchEarthquakeList, type EarthquakeData } from "@/lib/api"
+import { applyEarthquakeChange, type EarthquakeChangeType } from "@/lib/earthquake-changes"
+import type { FeedStatus } from "@/lib/fetch-result"
+
+type StreamMode = "connecting" | "streaming" | "polling"
+
+export interface EarthquakeStreamState {
+  earthquakes: EarthquakeData[]
+  loading: boolean
+  mode: StreamMode
+  lastChange: { type: EarthquakeChangeType; earthquake: EarthquakeData } | null
+  feed: FeedStatus
+}
+
+export interface UseEarthquakeStreamOptions {
+  limit?: number
+  url?: string
+  pollingInterval?: number // Milliseconds between polls when the stream is unavailable
+  maxReconnectAttempts?: number // Failed connections before falling back to polling
+}
+
+const CHANGE_TYPES: EarthquakeChangeType[] = ["created", "updated", "deleted"]
+
+const INITIAL_STATE: EarthquakeStreamState = {
+  earthquakes: [],
+  loading: true,
+  mode: "connecting",
+  lastChange: null,
+  feed: { status: "ok", updatedAt: null },
+}
+
+export function useEarthquakeStream(options: UseEarthquakeStreamOptions = {}): EarthquakeStreamState {
+  const { limit = 50, url = "/api/earthquakes/stream", pollingInterval = 60000, maxReconnectAttempts = 3 } = options
+
+  const [state, setState] = useState<EarthquakeStreamState>(INITIAL_STATE)
+
+  useEffect(
+    () => openEarthquakeStream({ limit, url, pollingInterval, maxReconnectAttempts }, setState),
+    [limit, url, pollingInterval, maxReconnectAttempts],
+  )
+
+  return state
+}
+
+/**
+ * Connect to the stream, reconnecting with backoff and polling while it is unavailable
+ * Independent of React so the reconnection logic can run without rendering
+ * @param update Receives state updaters, like a useState setter
+ * @returns A function that closes the connection and stops polling
+ */
+export function openEarthquakeStream(
+  { limit, url, pollingInterval, maxReconnectAttempts }: Required<UseEarthquakeStreamOptions>,
+  update: (updater: (prev: EarthquakeStreamState) => EarthquakeStreamState) => void,
+): () => void {
+  let eventSource: EventSource | null = null
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  let pollTimer: ReturnType<typeof setInterval> | null = null
+  let failedAttempts = 0
+  let lastEventId: string | null = null
+  let disposed = false
+
+  const poll = async () => {
+    const result = await fetchEarthquakeList({ limit })
+    if (disposed) return
+
+    if (result.status === "error") {
+      // Keep showing what we have, now marked as stale
+      update((prev) => ({
+        ...prev,
+        loading: false,
+        feed: {
+          status: prev.earthquakes.length > 0 ? "stale" : "error",
+          updatedAt: prev.feed.updatedAt,
+          error: result.error,
+        },
+      }))
+      return
+    }
+
+    update((prev) => ({
+      ...prev,
+      earthquakes: result.data.data,
+      loading: false,
+      feed: {
+        status: result.status,
+        updatedAt: result.fetchedAt,
+        ...(result.status === "stale" && { error: result.error }),
+      },
+    }))
+  }
+
+  const startPolling = () => {
+    if (pollTimer) return
+    update((prev) => ({ ...prev, mode: "polling" }))
+    poll()
+    pollTimer = setInterval(poll, pollingInterval)
+  }
+
+  const stopPolling = () => {
+    if (pollTimer) {
+      clearInterval(pollTimer)
+      pollTimer = null
+    }
+  }
+
+  const connect = () => {
+    if (disposed) return
+
+    // EventSource cannot set headers on a fresh connection, so resume through the query string
+    const streamUrl = lastEventId !== null ? `${url}?lastEventId=${encodeURIComponent(lastEventId)}` : url
+    eventSource = new EventSource(streamUrl)
+
+    eventSource.onopen = () => {
+      failedAttempts = 0
+      stopPolling()
+      update((prev) => ({ ...prev, mode: "streaming" }))
+    }
+
+    eventSource.addEventListener("snapshot", (event) => {
+      const message = event as MessageEvent<string>
+      lastEventId = message.lastEventId
+      const earthquakes: EarthquakeData[] = JSON.parse(message.data)
+      update((prev) => ({ ...prev, earthquakes: earthquakes.slice(0, limit), loading: false }))
+    })
+
+    eventSource.addEventListener("status", (event) => {
+      const feed: FeedStatus = JSON.parse((event as MessageEvent<string>).data)
+      update((prev) => ({ ...prev, loading: false, feed }))
+    })
+
+    CHANGE_TYPES.forEach((type) => {
+      eventSource!.addEventListener(type, (event) => {
+        const message = event as MessageEvent<string>
+        lastEventId = message.lastEventId
+        const earthquake: EarthquakeData = JSON.parse(message.data)
+        update((prev) => ({
+          ...prev,
+          earthquakes: applyEarthquakeChange(prev.earthquakes, { type, earthquake }, limit),
+          loading: false,
+          lastChange: { type, earthquake },
+        }))
+      })
+    })
+
+    eventSource.onerror = () => {
+      eventSource?.close()
+      eventSource = null
+      failedAttempts++
+
+      if (failedAttempts >= maxReconnectAttempts) {
+        startPolling()
+      }
+
+      // Exponential backoff, capped at 60 seconds
+      const delay = Math.min(60000, 1000 * 2 ** failedAttempts)
+      reconnectTimer = setTimeout(connect, delay)
+    }
+  }
+
+  if (typeof EventSource === "undefined") {
+    startPolling()
+  } else {
+    connect()
+  }
+
+  return () => {
+    disposed = true
+    eventSource?.close()
+    stopPolling()
+    if (reconnectTimer) clearTimeout(reconnectTimer)
+  }
+}
@@ -0,0 +1,60 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { EarthquakeData } from "@/lib/api"
+import { appendRevision, findRenamedHistory, type EventRevision } from "@/utils/event-revisions"
+
+type RevisionHandler = (revision: EventRevision, previous: EarthquakeData) => void
+
+/**
+ * Track the revision history of every earthquake seen in a list that is updated over time
+ * @param earthquakes Current list, e.g. from useEarthquakeStream
+ * @param onRevision Called when an already known event receives a new solution
+ * @returns Revision histories keyed by earthquake id
+ */
+export function useEventRevisions(
+  earthquakes: EarthquakeData[],
+  onRevision?: RevisionHandler,
+): Record<string, EventRevision[]> {
+  const [revisions, setRevisions] = useState<Record<string, EventRevision[]>>({})
+  const historiesRef = useRef<Record<string, EventRevision[]>>({})
+  const onRevisionRef = useRef(onRevision)
+
+  // Always call the latest handler without resubscribing
+  useEffect(() => {
+    onRevisionRef.current = onRevision
+  }, [onRevision])
+
+  useEffect(() => {
+    const histories = historiesRef.current
+    const receivedAt = new Date().toISOString()
+    let changed = false
+
+    earthquakes.forEach((quake) => {
+      // Carry the history over when a known event comes back under another id
+      const renamedId = quake.id in histories ? null : findRenamedHistory(histories, quake)
+      if (renamedId !== null) {
+        histories[quake.id] = histories[renamedId]
+        delete histories[renamedId]
+        changed = true
+      }
+
+      const history = histories[quake.id] ?? []
+      const updated = appendRevision(history, quake, receivedAt)
+      if (updated === history) return
+
+      histories[quake.id] = updated
+      changed = true
+
+      if (history.length > 0) {
+        onRevisionRef.current?.(updated[updated.length - 1], history[history.length - 1].earthquake)
+      }
+    })
+
+    if (changed) {
+      setRevisions({ ...histories })
+    }
+  }, [earthquakes])
+
+  return revisions
+}
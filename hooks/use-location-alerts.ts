@@ -0,0 +1,122 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { toast } from "@/hooks/use-toast"
+import type { EarthquakeData } from "@/lib/api"
+import { getEventReference } from "@/lib/gazetteer"
+import { parseUtcTime } from "@/lib/sources/normalize"
+import { crossesThreshold, diffRevision } from "@/utils/event-revisions"
+import {
+  evaluateLocations,
+  formatImpactSummary,
+  type LocationImpact,
+  type SavedLocation,
+} from "@/utils/location-impact"
+import { getMomentMagnitude } from "@/utils/magnitude"
+import type { VelocityModelId } from "@/utils/travel-times"
+
+// Events older than this, e.g. already in the feed when the page loads, are not alerted, nor are their revisions
+const ALERT_WINDOW_MS = 10 * 60 * 1000
+
+/**
+ * Toast, browser notification, sound and vibration for the locations an earthquake alerts
+ */
+function notify(earthquake: EarthquakeData, alerted: LocationImpact[]) {
+  const title = `Sismo M${earthquake.magnitude.toFixed(1)} ${getEventReference(earthquake)}`
+  const summary = formatImpactSummary(alerted)
+  toast({ title, description: summary })
+
+  if ("Notification" in window && Notification.permission === "granted") {
+    new Notification(title, { body: summary, icon: "/icon-192.png", tag: earthquake.id })
+  }
+
+  const preferences = alerted.map((impact) => impact.location.profile.notifications)
+  if (preferences.some((preference) => preference.sound)) {
+    const audio = new Audio("/alert.mp3")
+    audio.play().catch((error) => console.error("Error playing sound:", error))
+  }
+  if (preferences.some((preference) => preference.vibration) && navigator.vibrate) {
+    navigator.vibrate([200, 100, 200])
+  }
+}
+
+interface EvaluatedSolution {
+  earthquake: EarthquakeData
+  impacts: Map<string, { magnitude: number; intensity: number }> // Mw and intensity, by location id
+}
+
+/**
+ * Whether a solution newly meets a location's thresholds, i.e. its magnitude or intensity crossed one upwards
+ * since the previous solution; without a previous solution, whether it meets them at all
+ */
+function newlyTriggered(
+  impact: LocationImpact,
+  earthquake: EarthquakeData,
+  previous?: { magnitude: number; intensity: number },
+) {
+  if (!impact.triggered) return false
+  if (!previous) return true
+
+  const { minMagnitude, minIntensity } = impact.location.profile
+  return (
+    crossesThreshold(previous.magnitude, getMomentMagnitude(earthquake), minMagnitude) === "upgrade" ||
+    crossesThreshold(previous.intensity, impact.intensity.value, minIntensity) === "upgrade"
+  )
+}
+
+/**
+ * Evaluate every new earthquake, and every revised solution of one, against every saved location and alert
+ * the locations whose thresholds it newly meets, following each location's notification preferences
+ * A revision alerts again only where it pushes a location over a threshold, e.g. a relocated epicenter
+ * @param earthquakes Recent earthquakes; several may arrive in one update
+ * @param locations Saved locations with their alert profiles
+ * @param ready Whether the saved locations have loaded; events seen before then are evaluated once they have
+ */
+export function useLocationAlerts(
+  earthquakes: EarthquakeData[],
+  locations: SavedLocation[],
+  ready: boolean,
+  velocityModel: VelocityModelId = "chile",
+): void {
+  // Last evaluated solution of each event in the feed, by event id
+  const evaluated = useRef(new Map<string, EvaluatedSolution>())
+
+  useEffect(() => {
+    if (!ready) return
+
+    const now = Date.now()
+    const ids = new Set(earthquakes.map((earthquake) => earthquake.id))
+    for (const id of evaluated.current.keys()) {
+      if (!ids.has(id)) evaluated.current.delete(id)
+    }
+
+    for (const earthquake of earthquakes) {
+      const previous = evaluated.current.get(earthquake.id)
+      if (previous && diffRevision(previous.earthquake, earthquake).length === 0) continue
+
+      // Too old to alert, so not worth evaluating either
+      if (now - parseUtcTime(earthquake.utc_time).getTime() > ALERT_WINDOW_MS) {
+        evaluated.current.set(earthquake.id, { earthquake, impacts: previous?.impacts ?? new Map() })
+        continue
+      }
+
+      const impacts = evaluateLocations(earthquake, locations, velocityModel, now)
+      evaluated.current.set(earthquake.id, {
+        earthquake,
+        impacts: new Map(
+          impacts.map((impact) => [
+            impact.location.id,
+            { magnitude: getMomentMagnitude(earthquake), intensity: impact.intensity.value },
+          ]),
+        ),
+      })
+
+      const alerted = impacts.filter(
+        (impact) =>
+          impact.location.profile.notifications.enabled &&
+          newlyTriggered(impact, earthquake, previous?.impacts.get(impact.location.id)),
+      )
+      if (alerted.length > 0) notify(earthquake, alerted)
+    }
+  }, [earthquakes, locations, ready, velocityModel])
+}
@@ -0,0 +1,57 @@
+"use client"
+
+import { useMemo } from "react"
+import { useCatalog } from "@/hooks/use-catalog"
+import type { EarthquakeData } from "@/lib/api"
+import { detectRateAnomalies, type RateAnomaly } from "@/utils/rate-anomalies"
+
+interface MonitoredLocation {
+  id: string
+  name: string
+  latitude: number
+  longitude: number
+}
+
+interface RateAnomaliesState {
+  anomalies: RateAnomaly[]
+  loading: boolean
+  error: string | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// The baseline is a year of events the national network records completely
+const BASELINE_DAYS = 365
+const BASELINE_MIN_MAGNITUDE = 3.0
+
+/**
+ * Compare the live feed with the long-term rate to find swarms and unusual activity
+ * @param recentEarthquakes Events from the live feed
+ * @param locations Locations whose surroundings are monitored
+ */
+export function useRateAnomalies(
+  recentEarthquakes: EarthquakeData[],
+  locations: MonitoredLocation[],
+): RateAnomaliesState {
+  // Ending the baseline at midnight keeps the range, and its cached catalog, stable through the day
+  const today = new Date().setUTCHours(0, 0, 0, 0)
+  const range = useMemo(
+    () => ({
+      start: new Date(today - BASELINE_DAYS * DAY_MS),
+      end: new Date(today),
+      minMagnitude: BASELINE_MIN_MAGNITUDE,
+    }),
+    [today],
+  )
+  const { earthquakes: baseline, loading, error } = useCatalog(range)
+
+  const anomalies = useMemo(() => {
+    if (loading || baseline.length === 0) return []
+
+    // Both rates must count events above the same magnitude
+    const recent = recentEarthquakes.filter((quake) => quake.magnitude >= BASELINE_MIN_MAGNITUDE)
+    return detectRateAnomalies(recent, { earthquakes: baseline, start: range.start, end: range.end }, locations)
+  }, [recentEarthquakes, baseline, loading, range, locations])
+
+  return { anomalies, loading, error }
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { deleteStoredValue, getAllStoredValues, isLocalStoreAvailable, setStoredValue } from "@/lib/local-store"
+import { DEFAULT_ALERT_PROFILE, type SavedLocation } from "@/utils/location-impact"
+
+interface SavedLocationsState {
+  locations: SavedLocation[]
+  loading: boolean
+  addLocation: (location: SavedLocation) => void
+  updateLocation: (location: SavedLocation) => void
+  removeLocation: (id: string) => void
+}
+
+/**
+ * Fill in profile settings added after a location was saved
+ */
+function withDefaults(location: SavedLocation): SavedLocation {
+  return {
+    ...location,
+    profile: {
+      ...DEFAULT_ALERT_PROFILE,
+      ...location.profile,
+      notifications: { ...DEFAULT_ALERT_PROFILE.notifications, ...location.profile?.notifications },
+    },
+  }
+}
+
+function persistLocation(location: SavedLocation) {
+  if (!isLocalStoreAvailable()) return
+  setStoredValue("locations", location.id, location).catch((error) => console.error("Error saving location:", error))
+}
+
+/**
+ * Saved locations and their alert profiles, persisted in IndexedDB across reloads
+ * Without IndexedDB the locations last only for the session
+ */
+export function useSavedLocations(): SavedLocationsState {
+  const [locations, setLocations] = useState<SavedLocation[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (!isLocalStoreAvailable()) {
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    getAllStoredValues<SavedLocation>("locations")
+      .then((stored) => {
+        // Saved in the order they were added, whatever order the store keeps them in
+        if (!cancelled) setLocations(stored.map(withDefaults).sort((a, b) => Number(a.id) - Number(b.id)))
+      })
+      .catch((error) => console.error("Error loading saved locations:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const addLocation = useCallback((location: SavedLocation) => {
+    setLocations((prev) => [...prev, location])
+    persistLocation(location)
+  }, [])
+
+  const updateLocation = useCallback((location: SavedLocation) => {
+    setLocations((prev) => prev.map((existing) => (existing.id === location.id ? location : existing)))
+    persistLocation(location)
+  }, [])
+
+  const removeLocation = useCallback((id: string) => {
+    setLocations((prev) => prev.filter((location) => location.id !== id))
+    if (!isLocalStoreAvailable()) return
+    deleteStoredValue("locations", id).catch((error) => console.error("Error deleting location:", error))
+  }, [])
+
+  return { locations, loading, addLocation, updateLocation, removeLocation }
+}
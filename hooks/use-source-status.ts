@@ -0,0 +1,42 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { fetchStatus, type StatusResponse } from "@/lib/api"
+
+interface SourceStatusState {
+  report: StatusResponse | null
+  loading: boolean
+  error: string | null // Set when /api/status itself is unreachable
+}
+
+/**
+ * Poll the feed and upstream source health from /api/status
+ * @param interval Milliseconds between polls
+ */
+export function useSourceStatus(interval = 60000): SourceStatusState {
+  const [state, setState] = useState<SourceStatusState>({ report: null, loading: true, error: null })
+
+  useEffect(() => {
+    let disposed = false
+
+    const poll = async () => {
+      const result = await fetchStatus()
+      if (disposed) return
+      setState((prev) =>
+        result.status === "error"
+          ? { ...prev, loading: false, error: result.error }
+          : { report: result.data, loading: false, error: null },
+      )
+    }
+
+    poll()
+    const timer = setInterval(poll, interval)
+
+    return () => {
+      disposed = true
+      clearInterval(timer)
+    }
+  }, [interval])
+
+  return state
+}
@@ -1,7 +1,16 @@
 /**
- * API client for the Centro Sismológico Nacional (CSN)
+ * API client for the Centro Sismológico Nacional (CSN) and fallback catalogs
  */
 
+import { associateEarthquakes } from "@/utils/event-association"
+import { getSources, type EarthquakeQuery, type EarthquakeSource, type SourceId } from "@/lib/sources"
+import { quarantineRecords } from "@/lib/sources/quarantine"
+import { recordSourceFailure, recordSourceSuccess, type SourceStatus } from "@/lib/sources/status"
+import { CircuitOpenError, request } from "@/lib/http-client"
+import { errorResult, mapResult, okResult, staleResult, type FeedStatus, type FetchResult } from "@/lib/fetch-result"
+import { getSiteConditions, type SiteConditions } from "@/lib/site-conditions"
+import { geofence } from "@/lib/geofencing"
+
 export interface EarthquakeData {
   id: string
   utc_time: string
@@ -13,100 +22,307 @@ export interface EarthquakeData {
   scale: string
   reference: string
   region?: string
+  source?: SourceId // Feed that produced this record
+  authoritativeSource?: SourceId // Feed whose solution was chosen for a merged event
+  solutionId?: string // Id of the authoritative solution, when the merged event keeps an id it was published under
+  alternates?: EarthquakeSolution[] // Solutions for the same event from other feeds
+  uncertainty?: OriginUncertainty
+  stationCount?: number // Stations used to locate the event
+  azimuthalGap?: number // Largest azimuthal gap between stations, in degrees
+  evaluationStatus?: EvaluationStatus
 }
 
-interface ApiResponse {
-  status: string
-  count: number
-  data: EarthquakeData[]
+export type EvaluationStatus = "preliminary" | "confirmed" | "reviewed" | "final" | "rejected"
+
+/**
+ * One-sigma uncertainties reported with an origin and magnitude
+ */
+export interface OriginUncertainty {
+  timeSeconds?: number
+  horizontalKm?: number
+  depthKm?: number
+  magnitude?: number
+}
+
+/**
+ * A single catalog's solution for an event, kept alongside the merged record
+ */
+export interface EarthquakeSolution {
+  id: string
+  source?: SourceId
+  utc_time: string
+  latitude: number
+  longitude: number
+  depth: number
+  magnitude: number
+  scale: string
+}
+
+// Last successful result per query, served as stale data when every source fails
+const lastGoodResults = new Map<string, { data: unknown; fetchedAt: string }>()
+
+/**
+ * Remember successful results and replace failures with the last good data for the same query
+ */
+function withLastGood<T>(key: string, result: FetchResult<T>): FetchResult<T> {
+  if (result.status === "ok") {
+    lastGoodResults.set(key, { data: result.data, fetchedAt: result.fetchedAt })
+    return result
+  }
+
+  const previous = lastGoodResults.get(key)
+  if (result.status === "error" && previous) {
+    return staleResult(previous.data as T, previous.fetchedAt, result.error)
+  }
+  return result
 }
 
-const API_BASE_URL = "https://api.xor.cl/sismo"
+/**
+ * Keep the earthquakes located in a region, for sources that cannot filter by region themselves
+ */
+function filterByRegion(earthquakes: EarthquakeData[], region: string): EarthquakeData[] {
+  return earthquakes.filter((quake) => geofence(quake.latitude, quake.longitude).regionCode === region)
+}
 
 /**
- * Fetch the latest earthquake data from CSN
+ * Fetch and normalize earthquakes from a single source
+ * @throws HttpError, CircuitOpenError or a network/timeout Error
  */
-export async function fetchLatestEarthquake(): Promise<EarthquakeData | null> {
+async function fetchFromSource(source: EarthquakeSource, query: EarthquakeQuery): Promise<EarthquakeData[]> {
+  const startedAt = Date.now()
+
   try {
-    const response = await fetch(`${API_BASE_URL}/?latest=true`, {
-      next: { revalidate: 60 }, // Revalidate every 60 seconds
+    const response = await request(source.buildUrl(query), {
+      circuitKey: source.id,
+      init: { next: { revalidate: source.revalidate } },
     })
 
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`)
+    const payload = source.responseType === "text" ? await response.text() : await response.json()
+    const { earthquakes, quarantined } = source.normalize(payload)
+    quarantineRecords(quarantined)
+    // Historical windows would skew the origin-to-receipt lag
+    recordSourceSuccess(source.id, Date.now() - startedAt, query.starttime ? undefined : earthquakes)
+    return query.region && !source.supportsRegion ? filterByRegion(earthquakes, query.region) : earthquakes
+  } catch (error) {
+    // Requests short-circuited by an open breaker never reached the source
+    if (!(error instanceof CircuitOpenError)) {
+      recordSourceFailure(source.id, Date.now() - startedAt, error)
     }
+    throw error
+  }
+}
 
-    const data: ApiResponse = await response.json()
-    return data.data[0] || null
-  } catch (error) {
-    console.error("Error fetching latest earthquake:", error)
-    return null
+/**
+ * Query sources in priority order, falling back to the next one when a source fails or returns nothing
+ */
+async function fetchWithFallback(query: EarthquakeQuery, sources?: SourceId[]): Promise<FetchResult<EarthquakeData[]>> {
+  const errors: string[] = []
+  let anySucceeded = false
+
+  for (const source of getSources(sources)) {
+    try {
+      const earthquakes = await fetchFromSource(source, query)
+      if (earthquakes.length > 0) {
+        return okResult(earthquakes)
+      }
+      anySucceeded = true
+    } catch (error) {
+      console.error(`Error fetching from ${source.name}:`, error)
+      errors.push(`${source.name}: ${(error as Error).message}`)
+    }
   }
+
+  return anySucceeded ? okResult([]) : errorResult(errors.join("; ") || "No sources available")
+}
+
+/**
+ * Fetch the latest earthquake data from CSN, or the first available fallback source
+ * @param sources Optional subset of sources to query, in priority order
+ */
+export async function fetchLatestEarthquake(sources?: SourceId[]): Promise<FetchResult<EarthquakeData | null>> {
+  const result = await fetchWithFallback({ limit: 1, latest: true }, sources)
+  return withLastGood(
+    `latest:${sources ?? ""}`,
+    mapResult(result, (earthquakes) => earthquakes[0] || null),
+  )
 }
 
 /**
  * Fetch recent earthquakes with optional filtering
  * @param limit Number of earthquakes to fetch
  * @param region Optional region code to filter by
+ * @param sources Optional subset of sources to query, in priority order
  */
-export async function fetchRecentEarthquakes(limit = 100, region?: string): Promise<EarthquakeData[]> {
-  try {
-    let url = `${API_BASE_URL}/?limit=${limit}`
-    if (region) {
-      url += `&region=${region}`
-    }
+export async function fetchRecentEarthquakes(
+  limit = 100,
+  region?: string,
+  sources?: SourceId[],
+): Promise<FetchResult<EarthquakeData[]>> {
+  const result = await fetchWithFallback({ limit, region }, sources)
+  return withLastGood(`recent:${limit}:${region ?? ""}:${sources ?? ""}`, result)
+}
 
-    const response = await fetch(url, {
-      next: { revalidate: 300 }, // Revalidate every 5 minutes
+/**
+ * Fetch recent earthquakes from every source at once and merge duplicates of the same event
+ * Succeeds as long as at least one source responds
+ * @param limit Number of earthquakes to fetch from each source
+ * @param region Optional region code to filter by
+ * @param sources Optional subset of sources to query
+ */
+export async function fetchMergedEarthquakes(
+  limit = 100,
+  region?: string,
+  sources?: SourceId[],
+): Promise<FetchResult<EarthquakeData[]>> {
+  const selected = getSources(sources)
+  const results = await Promise.allSettled(selected.map((source) => fetchFromSource(source, { limit, region })))
+  const errors: string[] = []
+
+  const earthquakes = results.flatMap((result, index) => {
+    if (result.status === "fulfilled") return result.value
+    console.error(`Error fetching from ${selected[index].name}:`, result.reason)
+    errors.push(`${selected[index].name}: ${(result.reason as Error).message}`)
+    return []
+  })
+
+  const result: FetchResult<EarthquakeData[]> =
+    errors.length < selected.length
+      ? okResult(associateEarthquakes(earthquakes).slice(0, limit))
+      : errorResult(errors.join("; ") || "No sources available")
+
+  return withLastGood(`merged:${limit}:${region ?? ""}:${sources ?? ""}`, result)
+}
+
+/**
+ * Fetch a historical time window from the first catalog that supports time range queries
+ * @param starttime Start of the window
+ * @param endtime End of the window
+ * @param minmagnitude Minimum magnitude to include
+ * @param limit Maximum number of events in the window
+ */
+export async function fetchCatalogWindow(
+  starttime: Date,
+  endtime: Date,
+  minmagnitude: number,
+  limit = 20000,
+): Promise<FetchResult<EarthquakeData[]>> {
+  const sources = getSources()
+    .filter((source) => source.supportsTimeRange)
+    .map((source) => source.id)
+
+  return fetchWithFallback({ limit, starttime, endtime, minmagnitude }, sources)
+}
+
+export interface EarthquakeListResponse {
+  status: "ok" | "stale"
+  count: number
+  total: number
+  offset: number
+  limit: number
+  updatedAt: string | null
+  error?: string // Why the data is stale
+  data: EarthquakeData[]
+}
+
+/**
+ * Fetch earthquakes from this app's own /api/earthquakes route (server-side cache of all sources)
+ * @param params Filters understood by the route, e.g. { limit: 50, minmagnitude: 4 }
+ */
+export async function fetchEarthquakeList(
+  params: Record<string, string | number | undefined> = {},
+): Promise<FetchResult<EarthquakeListResponse>> {
+  try {
+    const searchParams = new URLSearchParams()
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) searchParams.set(key, String(value))
     })
 
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`)
-    }
+    const response = await request(`/api/earthquakes?${searchParams.toString()}`, { retries: 1 })
+    const body: EarthquakeListResponse = await response.json()
+    const fetchedAt = body.updatedAt ?? new Date().toISOString()
 
-    const data: ApiResponse = await response.json()
-    return data.data || []
+    return body.status === "stale"
+      ? staleResult(body, fetchedAt, body.error ?? "Upstream sources unavailable")
+      : okResult(body, fetchedAt)
   } catch (error) {
-    console.error("Error fetching recent earthquakes:", error)
-    return []
+    console.error("Error fetching earthquake list:", error)
+    return errorResult((error as Error).message)
   }
 }
 
+export interface CatalogPageResponse {
+  status: string
+  count: number
+  starttime: string
+  endtime: string
+  minmagnitude: number
+  nextCursor: string | null
+  data: EarthquakeData[]
+}
+
 /**
- * Fetch geological data for a specific location
- * This would connect to SERNAGEOMIN API in a real implementation
+ * Fetch one page of the historical catalog from this app's /api/catalog route
+ * @param starttime Start of the range
+ * @param endtime End of the range
+ * @param minmagnitude Minimum magnitude to include
+ * @param cursor Cursor returned by the previous page, if any
  */
-export async function fetchGeologicalData(
-  latitude: number,
-  longitude: number,
-): Promise<{ soilType: string; riskLevel: string }> {
-  // In a real implementation, this would fetch from SERNAGEOMIN API
-  // For now, return mock data based on coordinates
-
-  // Simplified soil type determination based on latitude
-  // In reality, this would use detailed geological maps
-  let soilType = "suelo_firme"
-  let riskLevel = "medio"
-
-  // Coastal areas (simplified check)
-  if (longitude < -71.5) {
-    soilType = "arenoso"
-    riskLevel = "alto"
-  }
-  // Andes mountain range (simplified check)
-  else if (longitude > -70.2) {
-    soilType = "roca"
-    riskLevel = "bajo"
+export async function fetchCatalogPage(
+  starttime: Date,
+  endtime: Date,
+  minmagnitude: number,
+  cursor?: string,
+): Promise<FetchResult<CatalogPageResponse>> {
+  const searchParams = new URLSearchParams({
+    starttime: starttime.toISOString(),
+    endtime: endtime.toISOString(),
+    minmagnitude: String(minmagnitude),
+    limit: "1000",
+  })
+  if (cursor) {
+    searchParams.set("cursor", cursor)
   }
-  // Central valley
-  else {
-    soilType = "arcilloso"
-    riskLevel = "medio"
+
+  try {
+    // Long pages may need several upstream chunks on a cold server cache
+    const response = await request(`/api/catalog?${searchParams.toString()}`, { timeoutMs: 60000, retries: 1 })
+    return okResult(await response.json())
+  } catch (error) {
+    console.error("Error fetching catalog page:", error)
+    return errorResult((error as Error).message)
   }
+}
 
-  // Simulate API delay
-  await new Promise((resolve) => setTimeout(resolve, 200))
+export interface SourceStatusReport extends SourceStatus {
+  name: string
+  quarantined: number // Records from this source currently held in quarantine
+}
 
-  return { soilType, riskLevel }
+export interface StatusResponse {
+  status: string
+  generatedAt: string
+  feed: FeedStatus
+  sources: SourceStatusReport[]
+}
+
+/**
+ * Fetch the health of the earthquake feed and its upstream sources from this app's /api/status route
+ */
+export async function fetchStatus(): Promise<FetchResult<StatusResponse>> {
+  try {
+    const response = await request("/api/status", { retries: 1 })
+    const body: StatusResponse = await response.json()
+    return okResult(body, body.generatedAt)
+  } catch (error) {
+    console.error("Error fetching status:", error)
+    return errorResult((error as Error).message)
+  }
+}
+
+/**
+ * Site conditions for a specific location, from the bundled Vs30 grid or its fallbacks
+ */
+export async function fetchGeologicalData(latitude: number, longitude: number): Promise<SiteConditions> {
+  return getSiteConditions(latitude, longitude)
 }
 
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest"
+import type { EarthquakeData } from "@/lib/api"
+import { applyEarthquakeChange, diffEarthquakes } from "./earthquake-changes"
+
+function earthquake(id: string, utcTime: string, magnitude = 4): EarthquakeData {
+  return {
+    id,
+    utc_time: utcTime,
+    local_time: utcTime,
+    latitude: -33,
+    longitude: -71.5,
+    depth: 40,
+    magnitude,
+    scale: "Ml",
+    reference: "20 km al O de Valparaíso",
+  }
+}
+
+const a = earthquake("a", "2024-03-10 08:00:00")
+const b = earthquake("b", "2024-03-10 09:00:00")
+const c = earthquake("c", "2024-03-10 10:00:00")
+
+describe("diffEarthquakes", () => {
+  it("reports created, updated and deleted events, creations oldest first", () => {
+    const d = earthquake("d", "2024-03-10 11:00:00")
+    const e = earthquake("e", "2024-03-10 10:30:00")
+    const changes = diffEarthquakes([c, b, a], [d, e, { ...c, magnitude: 4.6 }, a])
+
+    expect(changes.map((change) => [change.type, change.earthquake.id])).toEqual([
+      ["deleted", "b"],
+      ["updated", "c"],
+      ["created", "e"],
+      ["created", "d"],
+    ])
+  })
+
+  it("ignores changes to untracked fields", () => {
+    expect(diffEarthquakes([a], [{ ...a, local_time: "2024-03-10 05:00:00" }])).toEqual([])
+  })
+
+  it("does not delete events that aged out of the window", () => {
+    expect(diffEarthquakes([c, b, a], [c, b])).toEqual([])
+  })
+})
+
+describe("applyEarthquakeChange", () => {
+  it("inserts created events in time order and respects the limit", () => {
+    const list = applyEarthquakeChange([c, a], { type: "created", earthquake: b }, 2)
+    expect(list.map((quake) => quake.id)).toEqual(["c", "b"])
+  })
+
+  it("replaces updated events and removes deleted ones", () => {
+    const updated = applyEarthquakeChange([c, b, a], { type: "updated", earthquake: { ...b, magnitude: 5.1 } })
+    expect(updated.map((quake) => [quake.id, quake.magnitude])).toEqual([
+      ["c", 4],
+      ["b", 5.1],
+      ["a", 4],
+    ])
+
+    expect(applyEarthquakeChange(updated, { type: "deleted", earthquake: b }).map((quake) => quake.id)).toEqual([
+      "c",
+      "a",
+    ])
+  })
+
+  it("rebuilds the next snapshot from the diff", () => {
+    const next = [earthquake("d", "2024-03-10 11:00:00"), { ...c, depth: 55 }, a]
+    const rebuilt = diffEarthquakes([c, b, a], next).reduce(
+      (list, change) => applyEarthquakeChange(list, change),
+      [c, b, a],
+    )
+    expect(rebuilt).toEqual(next)
+  })
+})
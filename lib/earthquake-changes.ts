@@ -0,0 +1,86 @@
+/**
+ * Change events describing how the earthquake list evolves between refreshes
+ * Shared by the server stream and the client hook that applies them
+ */
+
+import type { EarthquakeData } from "@/lib/api"
+import { parseUtcTime } from "@/lib/sources/normalize"
+
+export type EarthquakeChangeType = "created" | "updated" | "deleted"
+
+export interface EarthquakeChange {
+  seq: number // Monotonic sequence number, sent as the SSE event id
+  type: EarthquakeChangeType
+  earthquake: EarthquakeData
+  at: string // ISO 8601 time the change was detected
+}
+
+// Fields whose change counts as an update of the event
+export const TRACKED_EARTHQUAKE_FIELDS: (keyof EarthquakeData)[] = [
+  "utc_time",
+  "latitude",
+  "longitude",
+  "depth",
+  "magnitude",
+  "scale",
+  "reference",
+  "evaluationStatus",
+]
+
+/**
+ * Compare two snapshots of the earthquake list
+ * Events missing from the new snapshot only count as deleted if they are newer than its oldest event;
+ * older ones simply aged out of the window
+ * @returns Changes without sequence numbers, in the order they should be applied
+ */
+export function diffEarthquakes(
+  previous: EarthquakeData[],
+  next: EarthquakeData[],
+): Omit<EarthquakeChange, "seq" | "at">[] {
+  const previousById = new Map(previous.map((quake) => [quake.id, quake]))
+  const nextIds = new Set(next.map((quake) => quake.id))
+  const changes: Omit<EarthquakeChange, "seq" | "at">[] = []
+
+  const oldestNext = next.reduce(
+    (oldest, quake) => Math.min(oldest, parseUtcTime(quake.utc_time).getTime()),
+    Number.POSITIVE_INFINITY,
+  )
+
+  previous.forEach((quake) => {
+    if (!nextIds.has(quake.id) && parseUtcTime(quake.utc_time).getTime() >= oldestNext) {
+      changes.push({ type: "deleted", earthquake: quake })
+    }
+  })
+
+  // Oldest first so clients prepend in the right order
+  next
+    .slice()
+    .reverse()
+    .forEach((quake) => {
+      const before = previousById.get(quake.id)
+      if (!before) {
+        changes.push({ type: "created", earthquake: quake })
+      } else if (TRACKED_EARTHQUAKE_FIELDS.some((field) => before[field] !== quake[field])) {
+        changes.push({ type: "updated", earthquake: quake })
+      }
+    })
+
+  return changes
+}
+
+/**
+ * Apply a change to a list sorted most recent first
+ * @param limit Maximum number of events to keep
+ */
+export function applyEarthquakeChange(
+  earthquakes: EarthquakeData[],
+  change: Pick<EarthquakeChange, "type" | "earthquake">,
+  limit = Number.POSITIVE_INFINITY,
+): EarthquakeData[] {
+  const others = earthquakes.filter((quake) => quake.id !== change.earthquake.id)
+  if (change.type === "deleted") return others
+
+  return [...others, change.earthquake]
+    .sort((a, b) => parseUtcTime(b.utc_time).getTime() - parseUtcTime(a.utc_time).getTime())
+    .slice(0, limit)
+}
@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import demTiles from "@/data/dem-chile.json"
+import { getElevation, getSlope } from "./elevation"
+
+const SANTIAGO = { latitude: -33.45, longitude: -70.66 }
+const ANDES_EAST_OF_SANTIAGO = { latitude: -33.3, longitude: -70.05 }
+
+describe("bundled elevation tiles", () => {
+  const bundled = demTiles.tiles.length > 0
+
+  it.skipIf(bundled)("return null everywhere while no tiles are bundled", () => {
+    expect(demTiles.source).toBeNull()
+    expect(getElevation(SANTIAGO.latitude, SANTIAGO.longitude)).toBeNull()
+    expect(getSlope(SANTIAGO.latitude, SANTIAGO.longitude)).toBeNull()
+  })
+
+  it.skipIf(!bundled)("name the DEM they were downsampled from", () => {
+    expect(demTiles.source).toMatch(/GMTED2010|SRTM15/)
+  })
+
+  it.skipIf(!bundled)("put the Santiago valley floor well below the Andes", () => {
+    const valley = getElevation(SANTIAGO.latitude, SANTIAGO.longitude)!
+    const andes = getElevation(ANDES_EAST_OF_SANTIAGO.latitude, ANDES_EAST_OF_SANTIAGO.longitude)!
+
+    expect(valley).toBeGreaterThan(300)
+    expect(valley).toBeLessThan(900)
+    expect(andes).toBeGreaterThan(2500)
+    expect(getSlope(ANDES_EAST_OF_SANTIAGO.latitude, ANDES_EAST_OF_SANTIAGO.longitude)!).toBeGreaterThan(
+      getSlope(SANTIAGO.latitude, SANTIAGO.longitude)!,
+    )
+  })
+})
+
+describe("elevation lookups", () => {
+  // Synthetic tile rising 100 m per node eastward and 50 m per node northward
+  const tile = {
+    name: "synthetic",
+    south: -34,
+    west: -71,
+    elevations: Array.from({ length: 11 }, (_, row) =>
+      Array.from({ length: 21 }, (_, column) => 100 * column + 50 * row),
+    ),
+  }
+
+  let elevation: typeof import("./elevation")
+  let seismic: typeof import("@/utils/seismic-calculations")
+
+  beforeAll(async () => {
+    vi.resetModules()
+    vi.doMock("@/data/dem-chile.json", () => ({ default: { source: "synthetic", step: 0.1, tiles: [tile] } }))
+    elevation = await import("./elevation")
+    seismic = await import("@/utils/seismic-calculations")
+  })
+
+  afterAll(() => {
+    vi.doUnmock("@/data/dem-chile.json")
+  })
+
+  it("interpolates between nodes and returns null outside the tiles", () => {
+    expect(elevation.getElevation(-34, -71)).toBe(0)
+    expect(elevation.getElevation(-33.95, -70.85)).toBeCloseTo(175, 6)
+    expect(elevation.getElevation(-33, -69)).toBeCloseTo(2500, 6)
+    expect(elevation.getElevation(-34.05, -70.5)).toBeNull()
+    expect(elevation.getElevation(-33.5, -68.95)).toBeNull()
+  })
+
+  it("computes the gradient in m/m", () => {
+    const latitude = -33.5
+    const metersPerDegree = (Math.PI / 180) * 6371 * 1000
+    const east = 1000 / (metersPerDegree * Math.cos((latitude * Math.PI) / 180))
+    const north = 500 / metersPerDegree
+
+    expect(elevation.getSlope(latitude, -70)).toBeCloseTo(Math.hypot(east, north), 8)
+    expect(elevation.getSlope(-34, -70)).toBeNull()
+  })
+
+  it("samples profiles along the path, with nulls where it leaves the tiles", () => {
+    const profile = elevation.getElevationProfile(-33.5, -71.5, -33.5, -70, 16)
+
+    expect(profile).toHaveLength(16)
+    expect(profile[0].elevation).toBeNull()
+    expect(profile[15].elevation).toBeCloseTo(1250, 0)
+    expect(profile[15].distanceKm).toBeCloseTo(139.1, 0)
+  })
+
+  it("lengthens paths that cross high terrain in the topographic factor", () => {
+    expect(seismic.calcularFactorTopografico(-33.5, -72.5, -33.5, -71.5)).toBeCloseTo(1, 10)
+    const factor = seismic.calcularFactorTopografico(-33.5, -71, -33.5, -69)
+    expect(factor).toBeGreaterThan(1.04)
+    expect(factor).toBeLessThanOrEqual(1.2)
+  })
+})
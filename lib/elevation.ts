@@ -0,0 +1,124 @@
+/**
+ * Offline elevation lookups from the bundled, downsampled elevation tiles of Chile
+ * Lookups return null wherever no tile covers a point, which callers must treat as unknown elevation
+ */
+
+import demTiles from "@/data/dem-chile.json"
+
+export interface ProfilePoint {
+  latitude: number
+  longitude: number
+  distanceKm: number // Along the great circle from the start
+  elevation: number | null // Meters above sea level, negative offshore
+}
+
+interface DemTile {
+  name: string
+  south: number
+  west: number
+  elevations: number[][] // Rows from south to north, nodes from west to east
+}
+
+const GRID_STEP: number = demTiles.step
+const TILES = demTiles.tiles as DemTile[]
+
+const EARTH_RADIUS_KM = 6371
+const DEG = Math.PI / 180
+
+/**
+ * Tile whose nodes surround a point, or null outside the model
+ */
+function findTile(latitude: number, longitude: number): DemTile | null {
+  return (
+    TILES.find((tile) => {
+      const north = tile.south + (tile.elevations.length - 1) * GRID_STEP
+      const east = tile.west + (tile.elevations[0].length - 1) * GRID_STEP
+      return latitude >= tile.south && latitude <= north && longitude >= tile.west && longitude <= east
+    }) ?? null
+  )
+}
+
+/**
+ * Elevation at a point, interpolated bilinearly between the nodes of its tile
+ * @returns Meters above sea level (negative offshore), or null outside the model
+ */
+export function getElevation(latitude: number, longitude: number): number | null {
+  const tile = findTile(latitude, longitude)
+  if (!tile) return null
+
+  const row = (latitude - tile.south) / GRID_STEP
+  const column = (longitude - tile.west) / GRID_STEP
+  const row0 = Math.min(Math.floor(row), tile.elevations.length - 2)
+  const column0 = Math.min(Math.floor(column), tile.elevations[0].length - 2)
+  const dy = row - row0
+  const dx = column - column0
+
+  const south = tile.elevations[row0][column0] * (1 - dx) + tile.elevations[row0][column0 + 1] * dx
+  const north = tile.elevations[row0 + 1][column0] * (1 - dx) + tile.elevations[row0 + 1][column0 + 1] * dx
+  return south * (1 - dy) + north * dy
+}
+
+/**
+ * Topographic gradient at a point, from central differences one grid step apart
+ * The model's resolution smooths out local relief, so slopes are lower than those of a full-resolution DEM
+ * @returns Slope in m/m, or null outside the model
+ */
+export function getSlope(latitude: number, longitude: number): number | null {
+  const north = getElevation(latitude + GRID_STEP / 2, longitude)
+  const south = getElevation(latitude - GRID_STEP / 2, longitude)
+  const east = getElevation(latitude, longitude + GRID_STEP / 2)
+  const west = getElevation(latitude, longitude - GRID_STEP / 2)
+  if (north === null || south === null || east === null || west === null) return null
+
+  const stepNorthM = GRID_STEP * DEG * EARTH_RADIUS_KM * 1000
+  const stepEastM = stepNorthM * Math.cos(latitude * DEG)
+  return Math.hypot((north - south) / stepNorthM, (east - west) / stepEastM)
+}
+
+/**
+ * Elevations sampled along the great-circle path between two points
+ * @param samples Number of points, including both ends
+ */
+export function getElevationProfile(
+  startLatitude: number,
+  startLongitude: number,
+  endLatitude: number,
+  endLongitude: number,
+  samples = 50,
+): ProfilePoint[] {
+  const lat1 = startLatitude * DEG
+  const lon1 = startLongitude * DEG
+  const lat2 = endLatitude * DEG
+  const lon2 = endLongitude * DEG
+
+  // Central angle between the end points
+  const angle =
+    2 *
+    Math.asin(
+      Math.sqrt(Math.sin((lat2 - lat1) / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin((lon2 - lon1) / 2) ** 2),
+    )
+
+  return Array.from({ length: samples }, (_, i) => {
+    const fraction = samples > 1 ? i / (samples - 1) : 0
+    let latitude = startLatitude
+    let longitude = startLongitude
+
+    // Spherical interpolation; coincident end points need none
+    if (angle > 0) {
+      const a = Math.sin((1 - fraction) * angle) / Math.sin(angle)
+      const b = Math.sin(fraction * angle) / Math.sin(angle)
+      const x = a * Math.cos(lat1) * Math.cos(lon1) + b * Math.cos(lat2) * Math.cos(lon2)
+      const y = a * Math.cos(lat1) * Math.sin(lon1) + b * Math.cos(lat2) * Math.sin(lon2)
+      const z = a * Math.sin(lat1) + b * Math.sin(lat2)
+      latitude = Math.atan2(z, Math.hypot(x, y)) / DEG
+      longitude = Math.atan2(y, x) / DEG
+    }
+
+    return {
+      latitude,
+      longitude,
+      distanceKm: fraction * angle * EARTH_RADIUS_KM,
+      elevation: getElevation(latitude, longitude),
+    }
+  })
+}
@@ -0,0 +1,77 @@
+/**
+ * Typed outcome of a data fetch, so the UI can tell "no earthquakes" from "upstream is down"
+ */
+
+export type FetchStatus = "ok" | "stale" | "error"
+
+export type FetchResult<T> =
+  | { status: "ok"; data: T; fetchedAt: string }
+  | { status: "stale"; data: T; fetchedAt: string; error: string } // Last good data, served after a failure
+  | { status: "error"; data: null; fetchedAt: null; error: string }
+
+/**
+ * Freshness of a live feed: stale means upstream sources are failing and the data is the last good one
+ */
+export interface FeedStatus {
+  status: FetchStatus
+  updatedAt: string | null // ISO 8601 time the data was fetched from upstream
+  error?: string
+}
+
+/**
+ * A fresh result
+ */
+export function okResult<T>(data: T, fetchedAt: string = new Date().toISOString()): FetchResult<T> {
+  return { status: "ok", data, fetchedAt }
+}
+
+/**
+ * Previously fetched data served because the latest attempt failed
+ */
+export function staleResult<T>(data: T, fetchedAt: string, error: string): FetchResult<T> {
+  return { status: "stale", data, fetchedAt, error }
+}
+
+/**
+ * A failure with no data to fall back on
+ */
+export function errorResult<T>(error: string): FetchResult<T> {
+  return { status: "error", data: null, fetchedAt: null, error }
+}
+
+/**
+ * Transform the data of a result, keeping its status and freshness
+ */
+export function mapResult<T, U>(result: FetchResult<T>, transform: (data: T) => U): FetchResult<U> {
+  if (result.status === "error") return result
+  return { ...result, data: transform(result.data) }
+}
+
+/**
+ * Describe how long ago something happened, e.g. "hace 7 minutos"
+ * @param time ISO 8601 time
+ * @param now Current time in milliseconds
+ */
+export function describeAge(time: string, now: number = Date.now()): string {
+  const minutes = Math.floor((now - new Date(time).getTime()) / 60000)
+
+  if (minutes < 1) return "hace menos de un minuto"
+  if (minutes === 1) return "hace 1 minuto"
+  if (minutes < 60) return `hace ${minutes} minutos`
+
+  const hours = Math.floor(minutes / 60)
+  if (hours === 1) return "hace 1 hora"
+  if (hours < 24) return `hace ${hours} horas`
+
+  const days = Math.floor(hours / 24)
+  return days === 1 ? "hace 1 día" : `hace ${days} días`
+}
+
+/**
+ * Describe how old the data is, e.g. "datos de hace 7 minutos"
+ * @param fetchedAt ISO 8601 time the data was fetched
+ * @param now Current time in milliseconds
+ */
+export function describeDataAge(fetchedAt: string, now: number = Date.now()): string {
+  return `datos de ${describeAge(fetchedAt, now)}`
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest"
+import { getEventReference } from "./gazetteer"
+
+describe("getEventReference", () => {
+  it("describes events in Chile relative to the nearest town", () => {
+    expect(getEventReference({ latitude: -33.45, longitude: -70.66, reference: "feed" })).toContain("Santiago")
+  })
+
+  it("keeps the feed's reference for events outside Chile", () => {
+    const reference = "25 km al SO de Mendoza, Argentina"
+    expect(getEventReference({ latitude: -33.05, longitude: -68.95, reference })).toBe(reference)
+  })
+
+  it("keeps the feed's reference for events far from every town", () => {
+    const reference = "Dorsal de Chile"
+    expect(getEventReference({ latitude: -45, longitude: -78, reference })).toBe(reference)
+  })
+})
@@ -0,0 +1,182 @@
+/**
+ * Offline place names: search for Chilean towns and reverse geocoding of coordinates
+ * Backed by the bundled gazetteer, so both work without a network connection
+ */
+
+import gazetteer from "@/data/gazetteer-chile.json"
+import type { EarthquakeData } from "@/lib/api"
+import { geofence } from "@/lib/geofencing"
+import { calcularDistanciaHaversine } from "@/utils/seismic-calculations"
+
+export type PlaceKind = "ciudad" | "comuna" | "localidad"
+
+export interface Place {
+  name: string
+  kind: PlaceKind
+  regionCode: string
+  latitude: number
+  longitude: number
+}
+
+export interface NearestPlace {
+  place: Place
+  distanceKm: number
+  bearing: number // Degrees clockwise from north, from the place to the point
+}
+
+const PLACES = gazetteer.places as Place[]
+
+// Beyond this distance from every town, a point is too remote to describe by reference to one
+const MAX_REFERENCE_DISTANCE_KM = 150
+
+// Small localities only make sense as references for nearby points; farther ones refer to a comuna seat
+const LOCALITY_REFERENCE_DISTANCE_KM = 30
+
+// Spanish compass points, as in the references of the Centro Sismológico Nacional
+const DIRECTIONS = ["N", "NE", "E", "SE", "S", "SO", "O", "NO"]
+
+const KIND_RANK: Record<PlaceKind, number> = { ciudad: 0, comuna: 1, localidad: 2 }
+
+const DEG = Math.PI / 180
+
+/**
+ * Lowercase without accents or punctuation, so "Ñuñoa" matches "nunoa" and "O'Higgins" matches "ohiggins"
+ */
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+const NORMALIZED_NAMES = PLACES.map((place) => normalize(place.name))
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and transpositions of adjacent letters
+ */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  )
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return rows[a.length][b.length]
+}
+
+/**
+ * How well a name matches a query, lower is better, or null for no match
+ * Exact names first, then prefixes of the name or of one of its words, then substrings, then names
+ * within a few typos of the query
+ */
+function matchScore(name: string, query: string): number | null {
+  if (name === query) return 0
+  if (name.startsWith(query)) return 1
+
+  const words = name.split(" ")
+  if (words.some((word) => word.startsWith(query))) return 2
+  if (name.includes(query)) return 3
+
+  // Typos are only tolerated once the query is long enough to be unambiguous
+  const maxTypos = query.length <= 3 ? 0 : query.length <= 5 ? 1 : 2
+  const candidates = [name, name.slice(0, query.length), ...words.map((word) => word.slice(0, query.length))]
+  const typos = Math.min(...candidates.map((candidate) => editDistance(candidate, query)))
+  return typos <= maxTypos ? 4 + typos : null
+}
+
+/**
+ * Places whose names match a query, ignoring case and accents and tolerating typos
+ * @returns Best matches first; cities before comunas and localities of equal match
+ */
+export function searchPlaces(query: string, limit = 8): Place[] {
+  const normalizedQuery = normalize(query)
+  if (normalizedQuery.length < 2) return []
+
+  return PLACES.map((place, i) => ({ place, score: matchScore(NORMALIZED_NAMES[i], normalizedQuery) }))
+    .filter((match): match is { place: Place; score: number } => match.score !== null)
+    .sort(
+      (a, b) =>
+        a.score - b.score ||
+        KIND_RANK[a.place.kind] - KIND_RANK[b.place.kind] ||
+        a.place.name.localeCompare(b.place.name, "es"),
+    )
+    .slice(0, limit)
+    .map(({ place }) => place)
+}
+
+/**
+ * Initial great-circle bearing from one point to another, in degrees clockwise from north
+ */
+function getBearing(fromLatitude: number, fromLongitude: number, toLatitude: number, toLongitude: number): number {
+  const lat1 = fromLatitude * DEG
+  const lat2 = toLatitude * DEG
+  const deltaLon = (toLongitude - fromLongitude) * DEG
+  const y = Math.sin(deltaLon) * Math.cos(lat2)
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLon)
+  return (Math.atan2(y, x) / DEG + 360) % 360
+}
+
+/**
+ * Gazetteer place closest to a point
+ * @param kinds Kinds of place to consider
+ * @returns The place, or null if none is within the reference distance
+ */
+export function findNearestPlace(
+  latitude: number,
+  longitude: number,
+  kinds: PlaceKind[] = ["ciudad", "comuna", "localidad"],
+): NearestPlace | null {
+  let nearest: Place | null = null
+  let nearestDistance = Infinity
+  for (const place of PLACES) {
+    if (!kinds.includes(place.kind)) continue
+    const distance = calcularDistanciaHaversine(place.latitude, place.longitude, latitude, longitude)
+    if (distance < nearestDistance) {
+      nearest = place
+      nearestDistance = distance
+    }
+  }
+  if (!nearest || nearestDistance > MAX_REFERENCE_DISTANCE_KM) return null
+
+  return {
+    place: nearest,
+    distanceKm: nearestDistance,
+    bearing: getBearing(nearest.latitude, nearest.longitude, latitude, longitude),
+  }
+}
+
+/**
+ * Describe a point relative to the nearest town, e.g. "12 km al NO de Ovalle"
+ * Points far from every town are described relative to the nearest comuna seat rather than a small locality
+ * @returns The description, or null if no town is within the reference distance
+ */
+export function reverseGeocode(latitude: number, longitude: number): string | null {
+  let nearest = findNearestPlace(latitude, longitude)
+  if (nearest?.place.kind === "localidad" && nearest.distanceKm > LOCALITY_REFERENCE_DISTANCE_KM) {
+    nearest = findNearestPlace(latitude, longitude, ["ciudad", "comuna"])
+  }
+  if (!nearest) return null
+
+  const distanceKm = Math.round(nearest.distanceKm)
+  if (distanceKm < 1) return nearest.place.name
+  const direction = DIRECTIONS[Math.round(nearest.bearing / 45) % DIRECTIONS.length]
+  return `${distanceKm} km al ${direction} de ${nearest.place.name}`
+}
+
+/**
+ * Reference of an event computed from its coordinates, falling back to the feed's own when the event is remote
+ * Events outside Chile keep the feed's reference, which names the country they are in
+ */
+export function getEventReference(quake: Pick<EarthquakeData, "latitude" | "longitude" | "reference">): string {
+  if (geofence(quake.latitude, quake.longitude).outsideChile) return quake.reference
+  return reverseGeocode(quake.latitude, quake.longitude) ?? quake.reference
+}
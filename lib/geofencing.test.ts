@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest"
+import { geofence } from "./geofencing"
+
+describe("geofence", () => {
+  it("places the insular territories in the Valparaíso region", () => {
+    expect(geofence(-27.15, -109.43)).toEqual({
+      regionCode: "05",
+      comuna: "Isla de Pascua",
+      offshore: false,
+      outsideChile: false,
+    })
+    expect(geofence(-33.64, -78.83)).toEqual({
+      regionCode: "05",
+      comuna: "Juan Fernández",
+      offshore: false,
+      outsideChile: false,
+    })
+  })
+
+  it("keeps the waters around the islands in Chile", () => {
+    expect(geofence(-33, -79.5)).toEqual({ regionCode: "05", comuna: null, offshore: true, outsideChile: false })
+    expect(geofence(-30, -95)).toMatchObject({ regionCode: null, outsideChile: true })
+  })
+
+  it("finds the comuna of a point within a bundled comuna", () => {
+    expect(geofence(-33.45, -70.66)).toMatchObject({ regionCode: "13", comuna: "Santiago" })
+  })
+
+  it("leaves the comuna unknown outside every bundled comuna", () => {
+    expect(geofence(-27.36, -68.98)).toEqual({ regionCode: "03", comuna: null, offshore: false, outsideChile: false })
+  })
+})
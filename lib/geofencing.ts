@@ -0,0 +1,193 @@
+/**
+ * Region and comuna lookup from the bundled, simplified boundary polygons of Chile
+ * Polygons are found through a grid index of their bounding boxes, then tested point-in-polygon
+ * The few insular territories are checked directly
+ */
+
+import boundaries from "@/data/chile-boundaries.json"
+import { calcularDistanciaHaversine } from "@/utils/seismic-calculations"
+
+export interface GeofenceResult {
+  regionCode: string | null // Region containing the point, or facing it offshore; null outside Chile
+  comuna: string | null // Null offshore and outside Chile
+  offshore: boolean
+  outsideChile: boolean // Abroad, or offshore beyond Chilean waters
+}
+
+interface Area {
+  name: string
+  regionCode: string
+  polygon: [number, number][] // Ring of [latitude, longitude]
+  bounds: { south: number; north: number; west: number; east: number }
+}
+
+interface Island extends Area {
+  comuna: string
+}
+
+// Offshore points within the exclusive economic zone (200 nautical miles) belong to the facing region
+const MARITIME_LIMIT_KM = 370
+
+// The generalized coastline cuts through seaside towns; points this close to it are taken as on land
+const COASTLINE_TOLERANCE_KM = 2
+
+// Size of the index cells, in degrees
+const INDEX_CELL = 1
+
+const COASTLINE = boundaries.coastline as [number, number][] // North to south
+
+function toArea(name: string, regionCode: string, polygon: number[][]): Area {
+  const ring = polygon as [number, number][]
+  const latitudes = ring.map(([latitude]) => latitude)
+  const longitudes = ring.map(([, longitude]) => longitude)
+  return {
+    name,
+    regionCode,
+    polygon: ring,
+    bounds: {
+      south: Math.min(...latitudes),
+      north: Math.max(...latitudes),
+      west: Math.min(...longitudes),
+      east: Math.max(...longitudes),
+    },
+  }
+}
+
+const REGIONS = boundaries.regions.map((region) => toArea(region.name, region.code, region.polygon))
+const COMUNAS = boundaries.comunas.map((comuna) => toArea(comuna.name, comuna.regionCode, comuna.polygon))
+const ISLANDS: Island[] = boundaries.islands.map((island) => ({
+  ...toArea(island.name, island.regionCode, island.polygon),
+  comuna: island.comuna,
+}))
+
+const cellKey = (latitude: number, longitude: number) =>
+  `${Math.floor(latitude / INDEX_CELL)}:${Math.floor(longitude / INDEX_CELL)}`
+
+/**
+ * Grid index from cell to the areas whose bounding boxes overlap it
+ */
+function buildIndex(areas: Area[]): Map<string, Area[]> {
+  const index = new Map<string, Area[]>()
+  areas.forEach((area) => {
+    const { south, north, west, east } = area.bounds
+    for (let row = Math.floor(south / INDEX_CELL); row <= Math.floor(north / INDEX_CELL); row++) {
+      for (let column = Math.floor(west / INDEX_CELL); column <= Math.floor(east / INDEX_CELL); column++) {
+        const key = `${row}:${column}`
+        index.set(key, [...(index.get(key) ?? []), area])
+      }
+    }
+  })
+  return index
+}
+
+const REGION_INDEX = buildIndex(REGIONS)
+const COMUNA_INDEX = buildIndex(COMUNAS)
+
+/**
+ * Even-odd ray casting test
+ */
+function containsPoint(polygon: [number, number][], latitude: number, longitude: number): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latitudeI, longitudeI] = polygon[i]
+    const [latitudeJ, longitudeJ] = polygon[j]
+    if (
+      latitudeI > latitude !== latitudeJ > latitude &&
+      longitude < ((longitudeJ - longitudeI) * (latitude - latitudeI)) / (latitudeJ - latitudeI) + longitudeI
+    ) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+function findArea(index: Map<string, Area[]>, latitude: number, longitude: number): Area | null {
+  const candidates = index.get(cellKey(latitude, longitude)) ?? []
+  return candidates.find((area) => containsPoint(area.polygon, latitude, longitude)) ?? null
+}
+
+/**
+ * Comuna of a point within a region
+ * Only a subset of comunas is bundled, so points outside every comuna area have no known comuna
+ */
+function findComuna(regionCode: string, latitude: number, longitude: number): string | null {
+  const comuna = findArea(COMUNA_INDEX, latitude, longitude)
+  return comuna?.regionCode === regionCode ? comuna.name : null
+}
+
+/**
+ * Island nearest to a point, by distance to its nearest vertex; the islands are small enough for their
+ * vertices to stand in for their coast
+ */
+function findNearestIsland(latitude: number, longitude: number): { island: Island; distanceKm: number } | null {
+  let nearest: { island: Island; distanceKm: number } | null = null
+  for (const island of ISLANDS) {
+    if (containsPoint(island.polygon, latitude, longitude)) return { island, distanceKm: 0 }
+    for (const [vertexLatitude, vertexLongitude] of island.polygon) {
+      const distanceKm = calcularDistanciaHaversine(latitude, longitude, vertexLatitude, vertexLongitude)
+      if (!nearest || distanceKm < nearest.distanceKm) nearest = { island, distanceKm }
+    }
+  }
+  return nearest
+}
+
+/**
+ * Longitude of the simplified coastline at a latitude, or null north or south of it
+ */
+function getCoastLongitude(latitude: number): number | null {
+  for (let i = 1; i < COASTLINE.length; i++) {
+    const [northLatitude, northLongitude] = COASTLINE[i - 1]
+    const [southLatitude, southLongitude] = COASTLINE[i]
+    if (latitude <= northLatitude && latitude >= southLatitude) {
+      const fraction = (latitude - northLatitude) / (southLatitude - northLatitude)
+      return northLongitude + fraction * (southLongitude - northLongitude)
+    }
+  }
+  return null
+}
+
+/**
+ * Region, comuna and whether a point is offshore or outside Chile
+ */
+export function geofence(latitude: number, longitude: number): GeofenceResult {
+  const region = findArea(REGION_INDEX, latitude, longitude)
+  if (region) {
+    return {
+      regionCode: region.regionCode,
+      comuna: findComuna(region.regionCode, latitude, longitude),
+      offshore: false,
+      outsideChile: false,
+    }
+  }
+
+  // West of the coastline is the sea; east of it, outside every region, is abroad
+  const coastLongitude = getCoastLongitude(latitude)
+  if (coastLongitude === null || longitude > coastLongitude) {
+    return { regionCode: null, comuna: null, offshore: false, outsideChile: true }
+  }
+
+  // The insular territories lie far offshore, with waters of their own
+  const nearestIsland = findNearestIsland(latitude, longitude)
+  if (nearestIsland && nearestIsland.distanceKm <= COASTLINE_TOLERANCE_KM) {
+    const { regionCode, comuna } = nearestIsland.island
+    return { regionCode, comuna, offshore: false, outsideChile: false }
+  }
+
+  const distanceToCoast = calcularDistanciaHaversine(latitude, longitude, latitude, coastLongitude)
+  const facing = findArea(REGION_INDEX, latitude, coastLongitude + 0.01)
+  if (distanceToCoast > MARITIME_LIMIT_KM || !facing) {
+    if (nearestIsland && nearestIsland.distanceKm <= MARITIME_LIMIT_KM) {
+      return { regionCode: nearestIsland.island.regionCode, comuna: null, offshore: true, outsideChile: false }
+    }
+    return { regionCode: null, comuna: null, offshore: true, outsideChile: true }
+  }
+  if (distanceToCoast <= COASTLINE_TOLERANCE_KM) {
+    return {
+      regionCode: facing.regionCode,
+      comuna: findComuna(facing.regionCode, latitude, coastLongitude + 0.01),
+      offshore: false,
+      outsideChile: false,
+    }
+  }
+  return { regionCode: facing.regionCode, comuna: null, offshore: true, outsideChile: false }
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { CircuitOpenError, getCircuitStatus, HttpError, request } from "./http-client"
+
+const fetchMock = vi.fn<typeof fetch>()
+
+function respond(status: number) {
+  return Promise.resolve(new Response(null, { status }))
+}
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", fetchMock)
+  vi.useFakeTimers({ toFake: ["Date"] })
+  vi.setSystemTime(Date.parse("2024-03-10T08:00:00Z"))
+})
+
+afterEach(() => {
+  fetchMock.mockReset()
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+})
+
+describe("request retries", () => {
+  it("retries 5xx and 429 responses until one succeeds", async () => {
+    fetchMock.mockImplementationOnce(() => respond(503)).mockImplementationOnce(() => respond(429))
+    fetchMock.mockImplementation(() => respond(200))
+
+    const response = await request("https://example.org/feed", { retries: 2, baseDelayMs: 0 })
+
+    expect(response.status).toBe(200)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it("gives up after the last retry with the last error", async () => {
+    fetchMock.mockImplementation(() => respond(500))
+
+    await expect(request("https://example.org/feed", { retries: 2, baseDelayMs: 0 })).rejects.toThrow(
+      "HTTP 500 from https://example.org/feed",
+    )
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it("does not retry client errors", async () => {
+    fetchMock.mockImplementation(() => respond(404))
+
+    await expect(request("https://example.org/feed", { retries: 2, baseDelayMs: 0 })).rejects.toBeInstanceOf(HttpError)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it("aborts an attempt that exceeds the timeout and retries it", async () => {
+    fetchMock.mockImplementation(
+      (_, init) =>
+        new Promise((_resolve, reject) => init?.signal?.addEventListener("abort", () => reject(new Error("aborted")))),
+    )
+
+    await expect(request("https://example.org/slow", { timeoutMs: 10, retries: 1, baseDelayMs: 0 })).rejects.toThrow(
+      "Timeout after 10 ms for https://example.org/slow",
+    )
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe("request circuit breaker", () => {
+  const options = { retries: 0, circuitKey: "breaker" }
+
+  it("opens after consecutive failures, half-opens after a while and closes on success", async () => {
+    fetchMock.mockImplementation(() => respond(500))
+    for (let i = 0; i < 3; i++) {
+      expect(getCircuitStatus("breaker")).toBe("closed")
+      await expect(request("https://example.org/feed", options)).rejects.toBeInstanceOf(HttpError)
+    }
+    expect(getCircuitStatus("breaker")).toBe("open")
+
+    // Open: fails fast without reaching the network
+    await expect(request("https://example.org/feed", options)).rejects.toBeInstanceOf(CircuitOpenError)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+
+    vi.advanceTimersByTime(60 * 1000)
+    expect(getCircuitStatus("breaker")).toBe("half-open")
+
+    fetchMock.mockImplementation(() => respond(200))
+    await request("https://example.org/feed", options)
+    expect(getCircuitStatus("breaker")).toBe("closed")
+  })
+
+  it("reopens at once when the half-open trial fails", async () => {
+    const trial = { retries: 0, circuitKey: "trial" }
+    fetchMock.mockImplementation(() => respond(500))
+    for (let i = 0; i < 3; i++) {
+      await expect(request("https://example.org/feed", trial)).rejects.toBeInstanceOf(HttpError)
+    }
+
+    vi.advanceTimersByTime(60 * 1000)
+    await expect(request("https://example.org/feed", trial)).rejects.toBeInstanceOf(HttpError)
+    expect(getCircuitStatus("trial")).toBe("open")
+    await expect(request("https://example.org/feed", trial)).rejects.toBeInstanceOf(CircuitOpenError)
+  })
+
+  it("keeps a circuit per key", async () => {
+    fetchMock.mockImplementation(() => respond(500))
+    for (let i = 0; i < 3; i++) {
+      await expect(request("https://example.org/a", { retries: 0, circuitKey: "a" })).rejects.toThrow()
+    }
+
+    expect(getCircuitStatus("a")).toBe("open")
+    expect(getCircuitStatus("b")).toBe("closed")
+  })
+})
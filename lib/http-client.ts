@@ -0,0 +1,147 @@
+/**
+ * Shared HTTP client for upstream feeds
+ * Adds per-request timeouts, exponential backoff with jitter and a circuit breaker per source
+ */
+
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    url: string,
+  ) {
+    super(`HTTP ${status} from ${url}`)
+    this.name = "HttpError"
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(public key: string) {
+    super(`Circuit open for ${key}`)
+    this.name = "CircuitOpenError"
+  }
+}
+
+export type CircuitStatus = "closed" | "open" | "half-open"
+
+interface CircuitState {
+  status: CircuitStatus
+  consecutiveFailures: number
+  openedAt: number | null
+}
+
+export interface RequestOptions {
+  timeoutMs?: number
+  retries?: number // Additional attempts after the first one
+  baseDelayMs?: number
+  maxDelayMs?: number
+  circuitKey?: string // Requests sharing a key share a circuit breaker, e.g. the source id
+  init?: RequestInit & { next?: { revalidate?: number } }
+}
+
+const FAILURE_THRESHOLD = 3 // Consecutive failures that open the circuit
+const OPEN_DURATION_MS = 60 * 1000 // Time before a half-open trial request is allowed
+
+const circuits = new Map<string, CircuitState>()
+
+function getCircuit(key: string): CircuitState {
+  let circuit = circuits.get(key)
+  if (!circuit) {
+    circuit = { status: "closed", consecutiveFailures: 0, openedAt: null }
+    circuits.set(key, circuit)
+  }
+  return circuit
+}
+
+/**
+ * Get the current circuit breaker status for a key
+ */
+export function getCircuitStatus(key: string): CircuitStatus {
+  const circuit = getCircuit(key)
+  if (circuit.status === "open" && circuit.openedAt !== null && Date.now() - circuit.openedAt >= OPEN_DURATION_MS) {
+    return "half-open"
+  }
+  return circuit.status
+}
+
+function recordSuccess(key: string): void {
+  const circuit = getCircuit(key)
+  circuit.status = "closed"
+  circuit.consecutiveFailures = 0
+  circuit.openedAt = null
+}
+
+function recordFailure(key: string): void {
+  const circuit = getCircuit(key)
+  circuit.consecutiveFailures++
+  // A failed half-open trial reopens immediately
+  if (circuit.consecutiveFailures >= FAILURE_THRESHOLD || getCircuitStatus(key) === "half-open") {
+    circuit.status = "open"
+    circuit.openedAt = Date.now()
+  }
+}
+
+/**
+ * Whether an error is worth retrying: network failures, timeouts, 429 and 5xx responses
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status === 429 || error.status >= 500
+  }
+  return true
+}
+
+/**
+ * Delay before a retry: exponential backoff with full jitter
+ */
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt)
+}
+
+/**
+ * Single attempt with a timeout
+ */
+async function fetchWithTimeout(url: string, init: RequestOptions["init"], timeoutMs: number): Promise<Response> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal })
+    if (!response.ok) {
+      throw new HttpError(response.status, url)
+    }
+    return response
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Timeout after ${timeoutMs} ms for ${url}`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Fetch a URL with timeout, retries and circuit breaking
+ * @throws CircuitOpenError if the circuit for options.circuitKey is open
+ * @throws HttpError or a network/timeout Error after the last failed attempt
+ */
+export async function request(url: string, options: RequestOptions = {}): Promise<Response> {
+  const { timeoutMs = 8000, retries = 2, baseDelayMs = 500, maxDelayMs = 5000, circuitKey, init } = options
+
+  if (circuitKey && getCircuitStatus(circuitKey) === "open") {
+    throw new CircuitOpenError(circuitKey)
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await fetchWithTimeout(url, init, timeoutMs)
+      if (circuitKey) recordSuccess(circuitKey)
+      return response
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) {
+        if (circuitKey) recordFailure(circuitKey)
+        throw error
+      }
+      await new Promise((resolve) => setTimeout(resolve, backoffDelay(attempt, baseDelayMs, maxDelayMs)))
+    }
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Minimal promise-based key-value storage on IndexedDB
+ * Used for data too large for localStorage, such as cached historical catalogs, and for saved locations
+ */
+
+const DB_NAME = "sismoalert"
+const DB_VERSION = 2
+const STORES = ["cache", "locations"] as const
+
+export type StoreName = (typeof STORES)[number]
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Open (and create or upgrade if needed) the app database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        STORES.forEach((store) => {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store)
+          }
+        })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        databasePromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return databasePromise
+}
+
+/**
+ * Run a single request in a transaction on one store
+ */
+async function withStore<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  operation: (objectStore: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const database = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = operation(database.transaction(store, mode).objectStore(store))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Check whether IndexedDB is available (it is not during server rendering or in some private modes)
+ */
+export function isLocalStoreAvailable(): boolean {
+  return typeof indexedDB !== "undefined"
+}
+
+/**
+ * Read a value, or undefined if the key is missing
+ */
+export function getStoredValue<T>(store: StoreName, key: string): Promise<T | undefined> {
+  return withStore(store, "readonly", (objectStore) => objectStore.get(key) as IDBRequest<T | undefined>)
+}
+
+/**
+ * Read every value of a store, in key order
+ */
+export function getAllStoredValues<T>(store: StoreName): Promise<T[]> {
+  return withStore(store, "readonly", (objectStore) => objectStore.getAll() as IDBRequest<T[]>)
+}
+
+/**
+ * Write a value, replacing any existing one
+ */
+export async function setStoredValue<T>(store: StoreName, key: string, value: T): Promise<void> {
+  await withStore(store, "readwrite", (objectStore) => objectStore.put(value, key))
+}
+
+/**
+ * Delete a value
+ */
+export async function deleteStoredValue(store: StoreName, key: string): Promise<void> {
+  await withStore(store, "readwrite", (objectStore) => objectStore.delete(key))
+}
@@ -0,0 +1,50 @@
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import { parseCatalog } from "./index"
+import { parseFdsnText } from "./fdsn-text"
+
+const fixture = readFileSync(join(__dirname, "__fixtures__", "fdsn-events.txt"), "utf8")
+
+describe("parseFdsnText", () => {
+  it("maps the columns named in the header", () => {
+    const [quake] = parseFdsnText(fixture, { source: "fdsn" })
+
+    expect(quake).toMatchObject({
+      id: "fdsn:11808287",
+      utc_time: "2024-03-10 08:14:03",
+      latitude: -33.412,
+      longitude: -71.987,
+      depth: 35.2,
+      magnitude: 5.4,
+      scale: "Mww",
+      reference: "NEAR COAST OF CENTRAL CHILE",
+      source: "fdsn",
+    })
+  })
+
+  it("falls back to the standard column order without a header", () => {
+    const body = fixture
+      .split("\n")
+      .filter((line) => !line.startsWith("#"))
+      .join("\n")
+
+    expect(parseFdsnText(body)[0]).toMatchObject({ id: "11808287", depth: 35.2, magnitude: 5.4 })
+  })
+
+  it("reports lines without a depth, magnitude or valid time instead of defaulting them", () => {
+    const invalid: string[] = []
+    const earthquakes = parseFdsnText(fixture, { onInvalid: (_, reason) => invalid.push(reason) })
+
+    expect(earthquakes.map((quake) => quake.id)).toEqual(["11808287"])
+    expect(invalid).toEqual([
+      "Missing or invalid depth or magnitude",
+      "Missing or invalid depth or magnitude",
+      "Missing or invalid time or coordinates",
+    ])
+  })
+
+  it("is detected by parseCatalog", () => {
+    expect(parseCatalog(fixture)).toHaveLength(1)
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Parser for the FDSN event web service "format=text" output
+ * Pipe-delimited, one event per line, with a "#"-prefixed header row
+ */
+
+import type { EarthquakeData } from "@/lib/api"
+import { formatLocalTime, formatUtcTime, parseUtcTime } from "@/lib/sources/normalize"
+import type { ParseOptions } from "./types"
+
+// Column order defined by the FDSN web service specification, used when the header is missing
+const DEFAULT_COLUMNS = [
+  "eventid",
+  "time",
+  "latitude",
+  "longitude",
+  "depth/km",
+  "author",
+  "catalog",
+  "contributor",
+  "contributorid",
+  "magtype",
+  "magnitude",
+  "magauthor",
+  "eventlocationname",
+]
+
+/**
+ * Parse FDSN text output into EarthquakeData records
+ * @param text Raw response body
+ * @param options Source used to namespace event ids
+ * @returns Parsed events; lines without a valid time, coordinates, depth or magnitude are reported through onInvalid
+ */
+export function parseFdsnText(text: string, options: ParseOptions = {}): EarthquakeData[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "")
+  const header = lines.find((line) => line.startsWith("#"))
+  const columns = header
+    ? header
+        .slice(1)
+        .split("|")
+        .map((column) => column.trim().toLowerCase())
+    : DEFAULT_COLUMNS
+
+  const earthquakes: EarthquakeData[] = []
+
+  lines
+    .filter((line) => !line.startsWith("#"))
+    .forEach((line) => {
+      const values = line.split("|").map((value) => value.trim())
+      const field = (name: string): string => values[columns.indexOf(name)] ?? ""
+
+      const time = parseUtcTime(field("time"))
+      const latitude = Number.parseFloat(field("latitude"))
+      const longitude = Number.parseFloat(field("longitude"))
+      if (isNaN(time.getTime()) || isNaN(latitude) || isNaN(longitude)) {
+        options.onInvalid?.(line, "Missing or invalid time or coordinates")
+        return
+      }
+
+      // A missing depth or magnitude must not default to 0, which would read as a real shallow or tiny event
+      const depth = Number.parseFloat(field("depth/km"))
+      const magnitude = Number.parseFloat(field("magnitude"))
+      if (isNaN(depth) || isNaN(magnitude)) {
+        options.onInvalid?.(line, "Missing or invalid depth or magnitude")
+        return
+      }
+
+      const eventId = field("eventid")
+
+      earthquakes.push({
+        id: options.source ? `${options.source}:${eventId}` : eventId,
+        utc_time: formatUtcTime(time),
+        local_time: formatLocalTime(time),
+        latitude,
+        longitude,
+        depth,
+        magnitude,
+        scale: field("magtype"),
+        reference: field("eventlocationname"),
+        source: options.source,
+      })
+    })
+
+  return earthquakes
+}
@@ -0,0 +1,18 @@
+/**
+ * Parsers for standard seismological catalog formats
+ */
+
+import type { EarthquakeData } from "@/lib/api"
+import { parseFdsnText } from "./fdsn-text"
+import { parseQuakeML } from "./quakeml"
+import type { ParseOptions } from "./types"
+
+export type { ParseOptions } from "./types"
+export { parseFdsnText, parseQuakeML }
+
+/**
+ * Parse a catalog response, detecting QuakeML or FDSN text from its content
+ */
+export function parseCatalog(body: string, options: ParseOptions = {}): EarthquakeData[] {
+  return body.trimStart().startsWith("<") ? parseQuakeML(body, options) : parseFdsnText(body, options)
+}
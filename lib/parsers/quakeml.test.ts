@@ -0,0 +1,41 @@
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import { parseCatalog } from "./index"
+import { parseQuakeML } from "./quakeml"
+
+const fixture = readFileSync(join(__dirname, "__fixtures__", "quakeml-events.xml"), "utf8")
+
+describe("parseQuakeML", () => {
+  it("uses the preferred origin and magnitude with their quality fields", () => {
+    const [quake] = parseQuakeML(fixture, { source: "fdsn" })
+
+    expect(quake).toMatchObject({
+      id: "fdsn:11808287",
+      utc_time: "2024-03-10 08:14:03",
+      latitude: -33.412,
+      longitude: -71.987,
+      depth: 35.2,
+      magnitude: 5.4,
+      scale: "Mww",
+      reference: "NEAR COAST OF CENTRAL CHILE",
+      source: "fdsn",
+      stationCount: 42,
+      azimuthalGap: 118.5,
+      evaluationStatus: "reviewed",
+    })
+    expect(quake.uncertainty).toEqual({ timeSeconds: 0.42, horizontalKm: 6.3, depthKm: 4.1, magnitude: 0.08 })
+  })
+
+  it("reports events without a depth or magnitude instead of defaulting them to 0", () => {
+    const invalid: string[] = []
+    const earthquakes = parseQuakeML(fixture, { onInvalid: (_, reason) => invalid.push(reason) })
+
+    expect(earthquakes.map((quake) => quake.id)).toEqual(["11808287"])
+    expect(invalid).toEqual(["Missing or invalid depth or magnitude", "Missing or invalid depth or magnitude"])
+  })
+
+  it("is detected by parseCatalog", () => {
+    expect(parseCatalog(fixture)).toHaveLength(1)
+  })
+})
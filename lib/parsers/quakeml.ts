@@ -0,0 +1,167 @@
+/**
+ * Parser for QuakeML 1.2 event documents
+ * Uses a small tag scanner instead of DOMParser so it runs the same on the server and in the browser
+ */
+
+import type { EarthquakeData, EvaluationStatus } from "@/lib/api"
+import { formatLocalTime, formatUtcTime, parseUtcTime } from "@/lib/sources/normalize"
+import type { ParseOptions } from "./types"
+
+interface XmlElement {
+  attributes: Record<string, string>
+  body: string
+}
+
+const EVALUATION_STATUSES: EvaluationStatus[] = ["preliminary", "confirmed", "reviewed", "final", "rejected"]
+
+/**
+ * Decode the predefined XML entities
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+}
+
+/**
+ * Find all elements with the given local name, ignoring namespace prefixes
+ * QuakeML never nests an element inside another of the same name, so a lazy match is enough
+ */
+function findElements(xml: string, tag: string): XmlElement[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}(\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, "g")
+  const elements: XmlElement[] = []
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(xml)) !== null) {
+    const attributes: Record<string, string> = {}
+    const attributePattern = /([\w:-]+)\s*=\s*"([^"]*)"/g
+    let attribute: RegExpExecArray | null
+    while ((attribute = attributePattern.exec(match[1] ?? "")) !== null) {
+      attributes[attribute[1]] = decodeEntities(attribute[2])
+    }
+    elements.push({ attributes, body: match[2] })
+  }
+
+  return elements
+}
+
+/**
+ * Read the text of a nested element, e.g. childText(origin, "latitude", "value")
+ */
+function childText(xml: string, ...path: string[]): string | undefined {
+  let current = xml
+  for (const tag of path) {
+    const [element] = findElements(current, tag)
+    if (!element) return undefined
+    current = element.body
+  }
+  return decodeEntities(current.trim())
+}
+
+/**
+ * Read a nested element as a number
+ */
+function childNumber(xml: string, ...path: string[]): number | undefined {
+  const text = childText(xml, ...path)
+  if (text === undefined) return undefined
+  const value = Number.parseFloat(text)
+  return isNaN(value) ? undefined : value
+}
+
+/**
+ * Pick the preferred child element by publicID, falling back to the first one
+ */
+function findPreferred(elements: XmlElement[], preferredId: string | undefined): XmlElement | undefined {
+  return elements.find((element) => element.attributes.publicID === preferredId) ?? elements[0]
+}
+
+/**
+ * Extract a short event id from a QuakeML resource identifier
+ * e.g. "smi:service.iris.edu/fdsnws/event/1/query?eventid=11808287" -> "11808287"
+ */
+function shortEventId(publicId: string): string {
+  const query = publicId.match(/eventid=([^&]+)/)
+  if (query) return query[1]
+  const segments = publicId.split(/[/:]/).filter(Boolean)
+  return segments[segments.length - 1] ?? publicId
+}
+
+/**
+ * Convert a QuakeML value in meters to kilometers
+ */
+function metersToKm(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : value / 1000
+}
+
+/**
+ * Parse a QuakeML 1.2 document into EarthquakeData records
+ * @param xml Raw QuakeML document
+ * @param options Source used to namespace event ids
+ * @returns One record per event, using its preferred origin and magnitude; events without a valid time,
+ * coordinates, depth or magnitude are reported through onInvalid
+ */
+export function parseQuakeML(xml: string, options: ParseOptions = {}): EarthquakeData[] {
+  const earthquakes: EarthquakeData[] = []
+
+  findElements(xml, "event").forEach((event) => {
+    const origin = findPreferred(findElements(event.body, "origin"), childText(event.body, "preferredOriginID"))
+    if (!origin) {
+      options.onInvalid?.(event.body, "Event has no origin")
+      return
+    }
+
+    const timeText = childText(origin.body, "time", "value")
+    const latitude = childNumber(origin.body, "latitude", "value")
+    const longitude = childNumber(origin.body, "longitude", "value")
+    const time = parseUtcTime(timeText ?? "")
+    if (isNaN(time.getTime()) || latitude === undefined || longitude === undefined) {
+      options.onInvalid?.(origin.body, "Missing or invalid origin time or coordinates")
+      return
+    }
+
+    const magnitude = findPreferred(
+      findElements(event.body, "magnitude"),
+      childText(event.body, "preferredMagnitudeID"),
+    )
+    const depth = metersToKm(childNumber(origin.body, "depth", "value"))
+    const magnitudeValue = magnitude && childNumber(magnitude.body, "mag", "value")
+    if (!magnitude || depth === undefined || magnitudeValue === undefined) {
+      options.onInvalid?.(event.body, "Missing or invalid depth or magnitude")
+      return
+    }
+
+    const eventId = shortEventId(event.attributes.publicID ?? "")
+    const status = childText(origin.body, "evaluationStatus") as EvaluationStatus | undefined
+
+    earthquakes.push({
+      id: options.source ? `${options.source}:${eventId}` : eventId,
+      utc_time: formatUtcTime(time),
+      local_time: formatLocalTime(time),
+      latitude,
+      longitude,
+      depth,
+      magnitude: magnitudeValue,
+      scale: childText(magnitude.body, "type") ?? "",
+      reference: childText(event.body, "description", "text") ?? "",
+      source: options.source,
+      uncertainty: {
+        timeSeconds: childNumber(origin.body, "time", "uncertainty"),
+        horizontalKm: metersToKm(
+          childNumber(origin.body, "originUncertainty", "horizontalUncertainty") ??
+            childNumber(origin.body, "originUncertainty", "maxHorizontalUncertainty"),
+        ),
+        depthKm: metersToKm(childNumber(origin.body, "depth", "uncertainty")),
+        magnitude: childNumber(magnitude.body, "mag", "uncertainty"),
+      },
+      stationCount:
+        childNumber(origin.body, "quality", "usedStationCount") ?? childNumber(magnitude.body, "stationCount"),
+      azimuthalGap: childNumber(origin.body, "quality", "azimuthalGap"),
+      evaluationStatus: status && EVALUATION_STATUSES.includes(status) ? status : undefined,
+    })
+  })
+
+  return earthquakes
+}
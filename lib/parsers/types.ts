@@ -0,0 +1,10 @@
+/**
+ * Shared types for catalog format parsers
+ */
+
+import type { SourceId } from "@/lib/sources"
+
+export interface ParseOptions {
+  source?: SourceId // Tags parsed records and prefixes their ids, e.g. "fdsn:11808287"
+  onInvalid?: (raw: string, reason: string) => void // Called for each event that cannot be parsed
+}
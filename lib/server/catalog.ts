@@ -0,0 +1,162 @@
+/**
+ * Historical catalog queries over arbitrary time ranges
+ * Large windows are split into chunks fetched one at a time, and results are paged with an opaque cursor
+ */
+
+import { fetchCatalogWindow, type EarthquakeData } from "@/lib/api"
+import { parseUtcTime } from "@/lib/sources/normalize"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_CACHED_CHUNKS = 200
+const RECENT_CHUNK_TTL_MS = 5 * 60 * 1000 // Chunks reaching the present can still gain events
+
+export interface CatalogQuery {
+  starttime: Date
+  endtime: Date
+  minmagnitude: number
+  limit: number // Page size
+  cursor?: string
+}
+
+export interface CatalogPage {
+  data: EarthquakeData[] // Oldest first
+  nextCursor: string | null
+}
+
+interface TimeWindow {
+  start: Date
+  end: Date
+}
+
+interface CachedChunk {
+  earthquakes: EarthquakeData[]
+  expiresAt: number // Infinity for chunks entirely in the past
+}
+
+const chunkCache = new Map<string, CachedChunk>()
+
+/**
+ * Thrown when a chunk cannot be fetched from any catalog and nothing is cached for it
+ */
+export class CatalogUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "CatalogUnavailableError"
+  }
+}
+
+/**
+ * Chunk length that keeps each upstream request small for the given range length
+ */
+function chunkDaysFor(rangeDays: number): number {
+  if (rangeDays <= 90) return 7
+  if (rangeDays <= 2 * 365) return 30
+  return 365
+}
+
+/**
+ * Split a time range into consecutive windows
+ */
+export function splitTimeRange(start: Date, end: Date): TimeWindow[] {
+  const chunkMs = chunkDaysFor((end.getTime() - start.getTime()) / DAY_MS) * DAY_MS
+  const windows: TimeWindow[] = []
+
+  for (let time = start.getTime(); time < end.getTime(); time += chunkMs) {
+    windows.push({ start: new Date(time), end: new Date(Math.min(time + chunkMs, end.getTime())) })
+  }
+
+  return windows
+}
+
+/**
+ * Fetch one window, using the chunk cache when possible
+ * An expired cached chunk is still served if the upstream request fails
+ * @throws CatalogUnavailableError if the window cannot be fetched and was never cached
+ */
+async function fetchChunk(window: TimeWindow, minmagnitude: number): Promise<EarthquakeData[]> {
+  const key = `${window.start.toISOString()}|${window.end.toISOString()}|${minmagnitude}`
+  const cached = chunkCache.get(key)
+  if (cached && cached.expiresAt > Date.now()) return cached.earthquakes
+
+  const result = await fetchCatalogWindow(window.start, window.end, minmagnitude)
+  if (result.status === "error") {
+    if (cached) return cached.earthquakes
+    throw new CatalogUnavailableError(result.error)
+  }
+
+  const earthquakes = result.data
+    // Upstream windows are inclusive at both ends; keep each event in exactly one chunk
+    .filter((quake) => {
+      const time = parseUtcTime(quake.utc_time).getTime()
+      return time >= window.start.getTime() && time < window.end.getTime()
+    })
+    .sort((a, b) => parseUtcTime(a.utc_time).getTime() - parseUtcTime(b.utc_time).getTime())
+
+  // Past chunks never change, but an empty one may just mean every source was down
+  const isFinal = window.end.getTime() < Date.now() - DAY_MS && earthquakes.length > 0
+  chunkCache.set(key, {
+    earthquakes,
+    expiresAt: isFinal ? Infinity : Date.now() + RECENT_CHUNK_TTL_MS,
+  })
+  if (chunkCache.size > MAX_CACHED_CHUNKS) {
+    chunkCache.delete(chunkCache.keys().next().value!)
+  }
+
+  return earthquakes
+}
+
+/**
+ * Encode a position (chunk index and offset within it) as an opaque cursor
+ */
+function encodeCursor(chunk: number, offset: number): string {
+  return Buffer.from(JSON.stringify({ chunk, offset })).toString("base64url")
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ * @returns The position, or null if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): { chunk: number; offset: number } | null {
+  try {
+    const { chunk, offset } = JSON.parse(Buffer.from(cursor, "base64url").toString())
+    if (Number.isInteger(chunk) && Number.isInteger(offset) && chunk >= 0 && offset >= 0) {
+      return { chunk, offset }
+    }
+  } catch {
+    // Fall through
+  }
+  return null
+}
+
+/**
+ * Get one page of a historical catalog query, oldest events first
+ * @throws Error if the cursor is malformed
+ * @throws CatalogUnavailableError if a chunk cannot be fetched
+ */
+export async function queryCatalog(query: CatalogQuery): Promise<CatalogPage> {
+  const windows = splitTimeRange(query.starttime, query.endtime)
+  const position = query.cursor ? decodeCursor(query.cursor) : { chunk: 0, offset: 0 }
+  if (!position) {
+    throw new Error("Invalid cursor")
+  }
+
+  const data: EarthquakeData[] = []
+  let { chunk, offset } = position
+
+  while (chunk < windows.length && data.length < query.limit) {
+    const earthquakes = await fetchChunk(windows[chunk], query.minmagnitude)
+    const taken = earthquakes.slice(offset, offset + query.limit - data.length)
+    data.push(...taken)
+    offset += taken.length
+
+    if (offset >= earthquakes.length) {
+      chunk++
+      offset = 0
+    }
+  }
+
+  return {
+    data,
+    nextCursor: chunk < windows.length ? encodeCursor(chunk, offset) : null,
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Server-side cache of merged earthquakes from all upstream sources
+ * Every API route reads from here, so upstream feeds are hit at most once per refresh interval
+ */
+
+import { fetchMergedEarthquakes, type EarthquakeData } from "@/lib/api"
+import { errorResult, okResult, staleResult, type FetchResult } from "@/lib/fetch-result"
+import { carryOverEventIds } from "@/utils/event-association"
+import { publishSnapshot } from "./earthquake-events"
+import { createFakeFeed } from "./fake-feed"
+
+const CACHE_SIZE = 500 // Events requested from each source per refresh
+const MIN_REFRESH_INTERVAL_MS = 30 * 1000
+
+export type EarthquakeFeed = () => Promise<FetchResult<EarthquakeData[]>>
+
+let feed: EarthquakeFeed =
+  process.env.EARTHQUAKE_FEED === "fake" ? createFakeFeed() : () => fetchMergedEarthquakes(CACHE_SIZE)
+
+interface CacheState {
+  earthquakes: EarthquakeData[]
+  updatedAt: number | null // Last refresh that returned data
+  attemptedAt: number | null // Last refresh attempt, successful or not
+  lastError: string | null // Why the last refresh failed, null if it succeeded
+  pending: Promise<void> | null
+}
+
+const cache: CacheState = {
+  earthquakes: [],
+  updatedAt: null,
+  attemptedAt: null,
+  lastError: null,
+  pending: null,
+}
+
+let activeConsumers = 0
+let refreshTimer: ReturnType<typeof setInterval> | null = null
+
+/**
+ * Refresh the cache, sharing a single upstream request between concurrent callers
+ */
+function refresh(): Promise<void> {
+  if (!cache.pending) {
+    cache.attemptedAt = Date.now()
+    cache.pending = feed()
+      .then((result) => {
+        // Keep serving the previous data if every source failed
+        if (result.status !== "ok") {
+          cache.lastError = result.error
+          return
+        }
+
+        cache.lastError = null
+        // Events keep their ids when the authoritative catalog changes, so they are not seen as new
+        const earthquakes = carryOverEventIds(cache.earthquakes, result.data)
+        if (earthquakes.length > 0) {
+          // The first load is the baseline, not a burst of new events
+          if (cache.updatedAt !== null) {
+            publishSnapshot(cache.earthquakes, earthquakes)
+          }
+          cache.earthquakes = earthquakes
+          cache.updatedAt = Date.now()
+        }
+      })
+      .finally(() => {
+        cache.pending = null
+      })
+  }
+  return cache.pending
+}
+
+/**
+ * Current cache contents as a typed result: stale when the last refresh failed, error if nothing was ever fetched
+ */
+export function getCacheResult(): FetchResult<EarthquakeData[]> {
+  const updatedAt = new Date(cache.updatedAt ?? cache.attemptedAt ?? Date.now()).toISOString()
+
+  if (cache.lastError === null) return okResult(cache.earthquakes, updatedAt)
+  if (cache.updatedAt === null) return errorResult(cache.lastError)
+  return staleResult(cache.earthquakes, updatedAt, cache.lastError)
+}
+
+/**
+ * Get cached earthquakes, refreshing from upstream when the refresh interval has elapsed
+ * @returns Merged events, most recent first, with the time they were last fetched
+ */
+export async function getCachedEarthquakes(): Promise<FetchResult<EarthquakeData[]>> {
+  if (cache.attemptedAt === null || Date.now() - cache.attemptedAt >= MIN_REFRESH_INTERVAL_MS) {
+    await refresh()
+  }
+
+  return getCacheResult()
+}
+
+/**
+ * Keep refreshing the cache in the background while stream clients are connected
+ * @returns A function to call when the client disconnects
+ */
+export function keepCacheFresh(): () => void {
+  activeConsumers++
+  if (!refreshTimer) {
+    refreshTimer = setInterval(() => {
+      refresh().catch((error) => console.error("Error refreshing earthquake cache:", error))
+    }, MIN_REFRESH_INTERVAL_MS)
+  }
+
+  let released = false
+  return () => {
+    if (released) return
+    released = true
+    activeConsumers--
+    if (activeConsumers === 0 && refreshTimer) {
+      clearInterval(refreshTimer)
+      refreshTimer = null
+    }
+  }
+}
+
+/**
+ * Replace the upstream feed, e.g. with createFakeFeed() in tests, and reset the cache
+ */
+export function setEarthquakeFeed(nextFeed: EarthquakeFeed): void {
+  feed = nextFeed
+  cache.earthquakes = []
+  cache.updatedAt = null
+  cache.attemptedAt = null
+  cache.lastError = null
+}
+
+/**
+ * Find a cached earthquake by its canonical id or the id of any of its solutions
+ */
+export async function findCachedEarthquake(id: string): Promise<EarthquakeData | null> {
+  const earthquakes = (await getCachedEarthquakes()).data ?? []
+  return (
+    earthquakes.find(
+      (quake) =>
+        quake.id === id || quake.solutionId === id || quake.alternates?.some((alternate) => alternate.id === id),
+    ) ?? null
+  )
+}
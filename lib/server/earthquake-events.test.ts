@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest"
+import type { EarthquakeData } from "@/lib/api"
+import { type EarthquakeChange } from "@/lib/earthquake-changes"
+import { getChangesSince, getLatestSeq, publishSnapshot, subscribeToChanges } from "./earthquake-events"
+
+function earthquake(id: string, minute: number): EarthquakeData {
+  const utcTime = `2024-03-10 ${String(8 + Math.floor(minute / 60)).padStart(2, "0")}:${String(minute % 60).padStart(2, "0")}:00`
+  return {
+    id,
+    utc_time: utcTime,
+    local_time: utcTime,
+    latitude: -20,
+    longitude: -70,
+    depth: 30,
+    magnitude: 3.5,
+    scale: "Ml",
+    reference: "30 km al O de Iquique",
+  }
+}
+
+describe("earthquake change log", () => {
+  it("numbers changes, notifies subscribers and resumes from a known sequence number", () => {
+    const received: EarthquakeChange[] = []
+    const unsubscribe = subscribeToChanges((change) => received.push(change))
+
+    const first = [earthquake("a", 0)]
+    const second = [earthquake("b", 5), { ...first[0], magnitude: 3.9 }]
+    publishSnapshot([], first)
+    publishSnapshot(first, second)
+    publishSnapshot(second, [second[1]])
+    unsubscribe()
+    publishSnapshot([second[1]], [earthquake("c", 10), second[1]])
+
+    expect(received.map((change) => [change.seq, change.type, change.earthquake.id])).toEqual([
+      [1, "created", "a"],
+      [2, "updated", "a"],
+      [3, "created", "b"],
+      [4, "deleted", "b"],
+    ])
+    expect(getLatestSeq()).toBe(5)
+    expect(getChangesSince(2)?.map((change) => change.seq)).toEqual([3, 4, 5])
+    expect(getChangesSince(5)).toEqual([])
+  })
+
+  it("asks for a snapshot when the Last-Event-ID is unknown", () => {
+    expect(getChangesSince(getLatestSeq() + 1)).toBeNull()
+    expect(getChangesSince(Number("abc"))).toBeNull()
+    expect(getChangesSince(-1)).toBeNull()
+  })
+
+  it("asks for a snapshot when the missed changes have left the log", () => {
+    const seq = getLatestSeq()
+    const burst = Array.from({ length: 1200 }, (_, i) => earthquake(`burst-${i}`, i))
+    publishSnapshot([], burst)
+
+    expect(getChangesSince(seq)).toBeNull()
+    expect(getChangesSince(getLatestSeq() - 1000)).toHaveLength(1000)
+    expect(getChangesSince(getLatestSeq() - 1001)).toBeNull()
+  })
+})
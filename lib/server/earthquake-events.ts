@@ -0,0 +1,64 @@
+/**
+ * In-memory change log and subscriptions for the earthquake stream
+ * Keeps recent changes so reconnecting clients can resume from their Last-Event-ID
+ */
+
+import { diffEarthquakes, type EarthquakeChange } from "@/lib/earthquake-changes"
+import type { EarthquakeData } from "@/lib/api"
+
+const MAX_LOGGED_CHANGES = 1000
+
+type ChangeListener = (change: EarthquakeChange) => void
+
+let lastSeq = 0
+const changeLog: EarthquakeChange[] = []
+const listeners = new Set<ChangeListener>()
+
+/**
+ * Record the differences between two snapshots and notify subscribers
+ */
+export function publishSnapshot(previous: EarthquakeData[], next: EarthquakeData[]): void {
+  const at = new Date().toISOString()
+
+  diffEarthquakes(previous, next).forEach((change) => {
+    const logged: EarthquakeChange = { ...change, seq: ++lastSeq, at }
+    changeLog.push(logged)
+    listeners.forEach((listener) => listener(logged))
+  })
+
+  if (changeLog.length > MAX_LOGGED_CHANGES) {
+    changeLog.splice(0, changeLog.length - MAX_LOGGED_CHANGES)
+  }
+}
+
+/**
+ * Get the sequence number of the most recent change
+ */
+export function getLatestSeq(): number {
+  return lastSeq
+}
+
+/**
+ * Get changes after a sequence number
+ * @returns The missed changes, or null if some of them are no longer in the log and a full snapshot is needed
+ */
+export function getChangesSince(seq: number): EarthquakeChange[] | null {
+  if (!Number.isInteger(seq) || seq < 0 || seq > lastSeq) return null
+  if (seq === lastSeq) return []
+
+  const oldestLogged = changeLog[0]?.seq ?? lastSeq + 1
+  if (seq + 1 < oldestLogged) return null
+
+  return changeLog.filter((change) => change.seq > seq)
+}
+
+/**
+ * Subscribe to future changes
+ * @returns A function that removes the subscription
+ */
+export function subscribeToChanges(listener: ChangeListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
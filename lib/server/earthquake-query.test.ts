@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest"
+import type { EarthquakeData } from "@/lib/api"
+import { parseEarthquakeQuery, queryEarthquakes, type EarthquakeQueryParams } from "./earthquake-query"
+
+function earthquake(id: string, latitude: number, longitude: number, changes: Partial<EarthquakeData> = {}) {
+  return {
+    id,
+    utc_time: "2024-03-10 08:14:03",
+    local_time: "2024-03-10 05:14:03",
+    latitude,
+    longitude,
+    depth: 30,
+    magnitude: 4.5,
+    scale: "Mw",
+    reference: "",
+    ...changes,
+  }
+}
+
+function parse(params: Record<string, string>): EarthquakeQueryParams {
+  const result = parseEarthquakeQuery(new URLSearchParams(params))
+  if (!result.success) throw result.error
+  return result.data
+}
+
+describe("queryEarthquakes", () => {
+  const earthquakes = [
+    earthquake("usgs:santiago", -33.45, -70.66, { source: "usgs" }),
+    earthquake("emsc:valparaiso", -33.05, -71.62, { source: "emsc" }),
+    earthquake("csn:antofagasta", -23.65, -70.4, { source: "csn", region: "02" }),
+    earthquake("usgs:salta", -24.8, -65.4, { source: "usgs" }),
+  ]
+
+  it("filters by region from the coordinates of events from every feed", () => {
+    expect(queryEarthquakes(earthquakes, parse({ region: "13" })).data.map((quake) => quake.id)).toEqual([
+      "usgs:santiago",
+    ])
+    expect(queryEarthquakes(earthquakes, parse({ region: "05" })).data.map((quake) => quake.id)).toEqual([
+      "emsc:valparaiso",
+    ])
+    expect(queryEarthquakes(earthquakes, parse({ region: "02" })).data.map((quake) => quake.id)).toEqual([
+      "csn:antofagasta",
+    ])
+  })
+
+  it("groups events outside Chile under their own region code", () => {
+    expect(queryEarthquakes(earthquakes, parse({ region: "00" })).data.map((quake) => quake.id)).toEqual(["usgs:salta"])
+  })
+
+  it("paginates the matching events", () => {
+    const { data, total } = queryEarthquakes(earthquakes, parse({ limit: "2", offset: "1" }))
+    expect(total).toBe(4)
+    expect(data.map((quake) => quake.id)).toEqual(["emsc:valparaiso", "csn:antofagasta"])
+  })
+})
@@ -0,0 +1,98 @@
+/**
+ * Query parameters and filtering for the earthquake API routes
+ * Parameter names follow the FDSN event web service where one exists
+ */
+
+import { z } from "zod"
+import type { EarthquakeData } from "@/lib/api"
+import { geofence } from "@/lib/geofencing"
+import { parseUtcTime } from "@/lib/sources/normalize"
+import { calcularDistanciaHaversine, OUTSIDE_CHILE_REGION_CODE } from "@/utils/seismic-calculations"
+
+const MAX_LIMIT = 500
+
+const optionalNumber = z.coerce.number().finite().optional()
+const optionalDate = z.coerce.date().optional()
+
+export const earthquakeQuerySchema = z
+  .object({
+    starttime: optionalDate,
+    endtime: optionalDate,
+    minlatitude: optionalNumber,
+    maxlatitude: optionalNumber,
+    minlongitude: optionalNumber,
+    maxlongitude: optionalNumber,
+    latitude: optionalNumber,
+    longitude: optionalNumber,
+    maxradiuskm: z.coerce.number().positive().optional(),
+    minmagnitude: optionalNumber,
+    maxmagnitude: optionalNumber,
+    mindepth: optionalNumber,
+    maxdepth: optionalNumber,
+    region: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_LIMIT).default(100),
+    offset: z.coerce.number().int().min(0).default(0),
+  })
+  .refine(
+    (query) => query.maxradiuskm === undefined || (query.latitude !== undefined && query.longitude !== undefined),
+    { message: "maxradiuskm requires latitude and longitude", path: ["maxradiuskm"] },
+  )
+
+export type EarthquakeQueryParams = z.infer<typeof earthquakeQuerySchema>
+
+/**
+ * Parse URL search parameters into a validated query
+ */
+export function parseEarthquakeQuery(searchParams: URLSearchParams) {
+  // Empty values are treated as absent rather than coerced to 0
+  const entries = Array.from(searchParams.entries()).filter(([, value]) => value.trim() !== "")
+  return earthquakeQuerySchema.safeParse(Object.fromEntries(entries))
+}
+
+/**
+ * Check whether an earthquake matches every filter in the query
+ */
+function matchesQuery(quake: EarthquakeData, query: EarthquakeQueryParams): boolean {
+  const time = parseUtcTime(quake.utc_time)
+
+  if (query.starttime && time < query.starttime) return false
+  if (query.endtime && time > query.endtime) return false
+
+  if (query.minlatitude !== undefined && quake.latitude < query.minlatitude) return false
+  if (query.maxlatitude !== undefined && quake.latitude > query.maxlatitude) return false
+  if (query.minlongitude !== undefined && quake.longitude < query.minlongitude) return false
+  if (query.maxlongitude !== undefined && quake.longitude > query.maxlongitude) return false
+
+  if (query.maxradiuskm !== undefined && query.latitude !== undefined && query.longitude !== undefined) {
+    const distance = calcularDistanciaHaversine(query.latitude, query.longitude, quake.latitude, quake.longitude)
+    if (distance > query.maxradiuskm) return false
+  }
+
+  if (query.minmagnitude !== undefined && quake.magnitude < query.minmagnitude) return false
+  if (query.maxmagnitude !== undefined && quake.magnitude > query.maxmagnitude) return false
+  if (query.mindepth !== undefined && quake.depth < query.mindepth) return false
+  if (query.maxdepth !== undefined && quake.depth > query.maxdepth) return false
+
+  // Feeds other than CSN carry no region, so it is always derived from the coordinates
+  if (query.region) {
+    const regionCode = geofence(quake.latitude, quake.longitude).regionCode ?? OUTSIDE_CHILE_REGION_CODE
+    if (regionCode !== query.region) return false
+  }
+
+  return true
+}
+
+/**
+ * Filter and paginate earthquakes
+ * @returns The requested page and the total number of matching events
+ */
+export function queryEarthquakes(
+  earthquakes: EarthquakeData[],
+  query: EarthquakeQueryParams,
+): { data: EarthquakeData[]; total: number } {
+  const matching = earthquakes.filter((quake) => matchesQuery(quake, query))
+  return {
+    data: matching.slice(query.offset, query.offset + query.limit),
+    total: matching.length,
+  }
+}
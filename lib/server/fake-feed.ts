@@ -0,0 +1,72 @@
+/**
+ * Synthetic earthquake feed for local development and tests
+ * Enabled with EARTHQUAKE_FEED=fake; each call may add, revise or retract an event
+ */
+
+import type { EarthquakeData } from "@/lib/api"
+import { okResult } from "@/lib/fetch-result"
+import { formatLocalTime, formatUtcTime } from "@/lib/sources/normalize"
+import { createRandom } from "@/utils/random"
+import type { EarthquakeFeed } from "./earthquake-cache"
+
+interface FakeFeedOptions {
+  seed?: number
+  initialEvents?: number
+  now?: () => number // Clock in milliseconds, injectable for tests
+}
+
+/**
+ * Create a feed that returns a slowly evolving list of plausible Chilean earthquakes
+ */
+export function createFakeFeed({ seed = 1, initialEvents = 20, now = Date.now }: FakeFeedOptions = {}): EarthquakeFeed {
+  const random = createRandom(seed)
+  let counter = 0
+  let earthquakes: EarthquakeData[] = []
+
+  const makeEarthquake = (time: number): EarthquakeData => {
+    const date = new Date(time)
+    const latitude = -18 - random() * 27
+    // Gutenberg-Richter-like distribution with b = 1 above M2.5
+    const magnitude = Math.round((2.5 - Math.log10(1 - random() * 0.999)) * 10) / 10
+
+    return {
+      id: `fake-${seed}-${++counter}`,
+      utc_time: formatUtcTime(date),
+      local_time: formatLocalTime(date),
+      latitude: Math.round(latitude * 1000) / 1000,
+      longitude: Math.round((-70 - random() * 3.5) * 1000) / 1000,
+      depth: Math.round(10 + random() * 140),
+      magnitude,
+      scale: magnitude >= 5 ? "Mw" : "Ml",
+      reference: `${Math.round(10 + random() * 90)} km al O de un punto costero (simulado)`,
+      evaluationStatus: "preliminary",
+    }
+  }
+
+  const start = now()
+  for (let i = initialEvents; i > 0; i--) {
+    earthquakes.push(makeEarthquake(start - i * 60 * 60 * 1000 * random()))
+  }
+
+  return async () => {
+    const roll = random()
+
+    if (roll < 0.5) {
+      earthquakes.push(makeEarthquake(now()))
+    } else if (roll < 0.7 && earthquakes.length > 0) {
+      // Revise the magnitude of a recent event, as agencies do with preliminary solutions
+      const index = earthquakes.length - 1 - Math.floor(random() * Math.min(5, earthquakes.length))
+      const revised = earthquakes[index]
+      earthquakes[index] = {
+        ...revised,
+        magnitude: Math.round((revised.magnitude + (random() - 0.3) * 0.8) * 10) / 10,
+        evaluationStatus: "reviewed",
+      }
+    } else if (roll < 0.75 && earthquakes.length > 1) {
+      // Retract a recent false detection
+      earthquakes = earthquakes.filter((_, index) => index !== earthquakes.length - 1)
+    }
+
+    return okResult([...earthquakes].sort((a, b) => b.utc_time.localeCompare(a.utc_time)))
+  }
+}
@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import vs30Grid from "@/data/vs30-grid.json"
+import { getSiteConditions, lookupVs30 } from "./site-conditions"
+
+const SANTIAGO = { latitude: -33.45, longitude: -70.66 }
+
+describe("bundled Vs30 grid", () => {
+  const bundled = vs30Grid.patches.length > 0
+
+  it.skipIf(bundled)("leaves every site to the fallbacks while no patches are bundled", () => {
+    expect(vs30Grid.source).toBeNull()
+    expect(lookupVs30(SANTIAGO.latitude, SANTIAGO.longitude)).toBeNull()
+    expect(getSiteConditions(SANTIAGO.latitude, SANTIAGO.longitude).source).not.toBe("grid")
+  })
+
+  it.skipIf(!bundled)("names the Vs30 model it was downsampled from", () => {
+    expect(vs30Grid.source).toMatch(/\w+/)
+  })
+
+  it.skipIf(!bundled)("covers Santiago with soil between NEHRP D and B", () => {
+    const vs30 = lookupVs30(SANTIAGO.latitude, SANTIAGO.longitude)!
+    expect(vs30).toBeGreaterThanOrEqual(180)
+    expect(vs30).toBeLessThan(1500)
+  })
+})
+
+describe("site condition lookups", () => {
+  // Synthetic 0.05 degree patch with one empty cell; the elevation tile south of it rises 100 m per 0.1 degree east
+  const vs30Patch = {
+    name: "synthetic",
+    south: -33.5,
+    west: -70.7,
+    values: [
+      [250, 400],
+      [null, 950],
+    ],
+  }
+  const demTile = {
+    name: "synthetic",
+    south: -34.5,
+    west: -71,
+    elevations: Array.from({ length: 11 }, () => Array.from({ length: 11 }, (_, column) => 100 * column)),
+  }
+
+  let siteConditions: typeof import("./site-conditions")
+
+  beforeAll(async () => {
+    vi.resetModules()
+    vi.doMock("@/data/vs30-grid.json", () => ({ default: { source: "synthetic", step: 0.05, patches: [vs30Patch] } }))
+    vi.doMock("@/data/dem-chile.json", () => ({ default: { source: "synthetic", step: 0.1, tiles: [demTile] } }))
+    siteConditions = await import("./site-conditions")
+  })
+
+  afterAll(() => {
+    vi.doUnmock("@/data/vs30-grid.json")
+    vi.doUnmock("@/data/dem-chile.json")
+  })
+
+  it("looks up the cell containing a point", () => {
+    expect(siteConditions.lookupVs30(-33.48, -70.68)).toBe(250)
+    expect(siteConditions.lookupVs30(-33.48, -70.62)).toBe(400)
+    expect(siteConditions.lookupVs30(-33.42, -70.62)).toBe(950)
+    expect(siteConditions.lookupVs30(-33.42, -70.68)).toBeNull()
+    expect(siteConditions.lookupVs30(-33.52, -70.68)).toBeNull()
+  })
+
+  it("prefers the grid, then the slope, then a generic site", () => {
+    expect(siteConditions.getSiteConditions(-33.48, -70.68, 0.2)).toEqual({
+      vs30: 250,
+      siteClass: "D",
+      nehrpClass: "D",
+      source: "grid",
+    })
+    expect(siteConditions.getSiteConditions(-33.42, -70.62)).toMatchObject({ siteClass: "A", nehrpClass: "B" })
+
+    // Empty grid cell with a given slope
+    expect(siteConditions.getSiteConditions(-33.42, -70.68, 0.2)).toMatchObject({ vs30: 760, source: "slope" })
+
+    // Outside the grid, with the slope taken from the elevation tiles
+    const fromTiles = siteConditions.getSiteConditions(-34, -70.5)
+    expect(fromTiles.source).toBe("slope")
+    expect(fromTiles.vs30).toBeGreaterThan(300)
+    expect(fromTiles.vs30).toBeLessThan(360)
+
+    expect(siteConditions.getSiteConditions(-20, -70)).toEqual({
+      vs30: 360,
+      siteClass: "C",
+      nehrpClass: "C",
+      source: "default",
+    })
+  })
+})
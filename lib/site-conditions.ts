@@ -0,0 +1,60 @@
+/**
+ * Site conditions lookup from the bundled Vs30 grid
+ * Falls back to the topographic-slope proxy, then to a generic site, outside the grid
+ */
+
+import vs30Grid from "@/data/vs30-grid.json"
+import { getSlope } from "@/lib/elevation"
+import { VS30_POR_DEFECTO, clasificarSitio, estimarVs30DesdePendiente, type SiteClass } from "@/utils/site-response"
+
+export type SiteConditionsSource = "grid" | "slope" | "default"
+
+export interface SiteConditions {
+  vs30: number // m/s
+  siteClass: SiteClass // NCh433
+  nehrpClass: SiteClass
+  source: SiteConditionsSource
+}
+
+interface Vs30Patch {
+  name: string
+  south: number
+  west: number
+  values: (number | null)[][] // Rows from south to north, cells from west to east
+}
+
+const GRID_STEP: number = vs30Grid.step
+const PATCHES = vs30Grid.patches as Vs30Patch[]
+
+/**
+ * Vs30 of the grid cell containing a point, or null outside the grid or where the cell is empty
+ */
+export function lookupVs30(latitude: number, longitude: number): number | null {
+  for (const patch of PATCHES) {
+    const row = Math.floor((latitude - patch.south) / GRID_STEP)
+    const column = Math.floor((longitude - patch.west) / GRID_STEP)
+    const value = patch.values[row]?.[column]
+    if (value !== undefined) return value
+  }
+  return null
+}
+
+/**
+ * Vs30 and site class at a location
+ * @param slope Topographic gradient (m/m) at the location, used outside the grid; taken from the bundled
+ * elevation tiles when not given
+ */
+export function getSiteConditions(latitude: number, longitude: number, slope?: number): SiteConditions {
+  const describe = (vs30: number, source: SiteConditionsSource): SiteConditions => ({
+    vs30,
+    siteClass: clasificarSitio(vs30),
+    nehrpClass: clasificarSitio(vs30, "nehrp"),
+    source,
+  })
+
+  const gridded = lookupVs30(latitude, longitude)
+  if (gridded !== null) return describe(gridded, "grid")
+  const gradient = slope ?? getSlope(latitude, longitude)
+  if (gradient !== null) return describe(estimarVs30DesdePendiente(gradient), "slope")
+  return describe(VS30_POR_DEFECTO, "default")
+}
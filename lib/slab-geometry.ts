@@ -0,0 +1,59 @@
+/**
+ * Geometry of the subducting Nazca plate from the bundled slab-depth grid
+ */
+
+import slabGrid from "@/data/slab-nazca.json"
+
+const GRID_STEP: number = slabGrid.step
+const GRID_SOUTH: number = slabGrid.south
+const GRID_WEST: number = slabGrid.west
+const DEPTHS: (number | null)[][] = slabGrid.depths // Rows from south to north, cells from west to east
+const TRENCH = slabGrid.trench as [number, number][] // Trench axis as [latitude, longitude], north to south
+
+/**
+ * Whether a point falls within the latitude range covered by the grid
+ */
+export function isWithinSlabGrid(latitude: number): boolean {
+  return latitude >= GRID_SOUTH && latitude <= GRID_SOUTH + (DEPTHS.length - 1) * GRID_STEP
+}
+
+/**
+ * Longitude of the trench axis at a given latitude, or null outside the mapped trench
+ */
+export function getTrenchLongitude(latitude: number): number | null {
+  for (let i = 1; i < TRENCH.length; i++) {
+    const [northLatitude, northLongitude] = TRENCH[i - 1]
+    const [southLatitude, southLongitude] = TRENCH[i]
+    if (latitude <= northLatitude && latitude >= southLatitude) {
+      const fraction = (latitude - northLatitude) / (southLatitude - northLatitude)
+      return northLongitude + fraction * (southLongitude - northLongitude)
+    }
+  }
+  return null
+}
+
+/**
+ * Depth of the top of the slab below a point, in km
+ * Interpolated bilinearly between grid nodes, or taken from the nearest node at the edges of the slab
+ * @returns Depth in km, or null where there is no slab (seaward of the trench or beyond its downdip end)
+ */
+export function getSlabDepth(latitude: number, longitude: number): number | null {
+  const row = (latitude - GRID_SOUTH) / GRID_STEP
+  const column = (longitude - GRID_WEST) / GRID_STEP
+  const row0 = Math.floor(row)
+  const column0 = Math.floor(column)
+
+  const node = (r: number, c: number) => DEPTHS[r]?.[c] ?? null
+  const corners = [node(row0, column0), node(row0, column0 + 1), node(row0 + 1, column0), node(row0 + 1, column0 + 1)]
+
+  if (corners.some((depth) => depth === null)) {
+    return node(Math.round(row), Math.round(column))
+  }
+
+  const [southWest, southEast, northWest, northEast] = corners as number[]
+  const dy = row - row0
+  const dx = column - column0
+  const south = southWest + (southEast - southWest) * dx
+  const north = northWest + (northEast - northWest) * dx
+  return south + (north - south) * dy
+}
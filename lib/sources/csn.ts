@@ -0,0 +1,40 @@
+/**
+ * Adapter for the Centro Sismológico Nacional feed exposed by xor.cl
+ */
+
+import type { EarthquakeSource } from "./types"
+import { partitionRecords } from "./quarantine"
+import { csnResponseSchema, earthquakeRecordSchema } from "./schemas"
+
+const CSN_BASE_URL = "https://api.xor.cl/sismo"
+
+export const csnSource: EarthquakeSource = {
+  id: "csn",
+  name: "Centro Sismológico Nacional",
+  priority: 1,
+  responseType: "json",
+  revalidate: 60,
+  supportsTimeRange: false,
+  supportsRegion: true,
+
+  buildUrl(query) {
+    if (query.latest) {
+      return `${CSN_BASE_URL}/?latest=true`
+    }
+
+    let url = `${CSN_BASE_URL}/?limit=${query.limit}`
+    if (query.region) {
+      url += `&region=${query.region}`
+    }
+    return url
+  },
+
+  normalize(payload) {
+    const response = csnResponseSchema.parse(payload)
+    const { valid, quarantined } = partitionRecords("csn", response.data, earthquakeRecordSchema)
+    return {
+      earthquakes: valid.map((quake) => ({ ...quake, source: "csn" as const })),
+      quarantined,
+    }
+  },
+}
@@ -0,0 +1,60 @@
+/**
+ * Adapter for the EMSC Seismic Portal FDSN event service (JSON output)
+ */
+
+import type { EarthquakeData } from "@/lib/api"
+import type { EarthquakeSource } from "./types"
+import { CHILE_BOUNDS, formatLocalTime, formatUtcTime, parseUtcTime, setFdsnFilters } from "./normalize"
+import { partitionRecords } from "./quarantine"
+import { emscFeatureSchema, featureCollectionSchema } from "./schemas"
+
+const EMSC_BASE_URL = "https://www.seismicportal.eu/fdsnws/event/1/query"
+
+export const emscSource: EarthquakeSource = {
+  id: "emsc",
+  name: "EMSC",
+  priority: 3,
+  responseType: "json",
+  revalidate: 60,
+  supportsTimeRange: true,
+  supportsRegion: false,
+
+  buildUrl(query) {
+    const params = new URLSearchParams({
+      format: "json",
+      orderby: "time",
+      limit: String(query.latest ? 1 : query.limit),
+      minlat: String(CHILE_BOUNDS.minLatitude),
+      maxlat: String(CHILE_BOUNDS.maxLatitude),
+      minlon: String(CHILE_BOUNDS.minLongitude),
+      maxlon: String(CHILE_BOUNDS.maxLongitude),
+    })
+    setFdsnFilters(params, query)
+    return `${EMSC_BASE_URL}?${params.toString()}`
+  },
+
+  normalize(payload) {
+    const response = featureCollectionSchema.parse(payload)
+    const { valid, quarantined } = partitionRecords("emsc", response.features, emscFeatureSchema)
+
+    const earthquakes = valid.map((feature): EarthquakeData => {
+      const { unid, time, lat, lon, depth, mag, magtype, flynn_region } = feature.properties
+      const date = parseUtcTime(time)
+
+      return {
+        id: `emsc:${unid || feature.id}`,
+        utc_time: formatUtcTime(date),
+        local_time: formatLocalTime(date),
+        latitude: lat,
+        longitude: lon,
+        depth,
+        magnitude: mag,
+        scale: magtype ? magtype.charAt(0).toUpperCase() + magtype.slice(1) : "",
+        reference: flynn_region ?? "",
+        source: "emsc",
+      }
+    })
+
+    return { earthquakes, quarantined }
+  },
+}
@@ -0,0 +1,50 @@
+/**
+ * Adapter for any FDSN-compliant event web service (format=text or QuakeML output)
+ */
+
+import { parseCatalog } from "@/lib/parsers"
+import type { EarthquakeSource } from "./types"
+import { CHILE_BOUNDS, setFdsnFilters } from "./normalize"
+import { partitionRecords, type QuarantinedRecord } from "./quarantine"
+import { earthquakeRecordSchema } from "./schemas"
+
+// Any fdsnws-event endpoint can be plugged in; IRIS is used when none is configured
+const FDSN_BASE_URL = process.env.NEXT_PUBLIC_FDSN_EVENT_URL || "https://service.iris.edu/fdsnws/event/1/query"
+// "text" is lighter; "xml" (QuakeML) also carries uncertainties, station count and evaluation status
+const FDSN_FORMAT = process.env.NEXT_PUBLIC_FDSN_EVENT_FORMAT === "xml" ? "xml" : "text"
+
+export const fdsnSource: EarthquakeSource = {
+  id: "fdsn",
+  name: "FDSN",
+  priority: 4,
+  responseType: "text",
+  revalidate: 60,
+  supportsTimeRange: true,
+  supportsRegion: false,
+
+  buildUrl(query) {
+    const params = new URLSearchParams({
+      format: FDSN_FORMAT,
+      orderby: "time",
+      limit: String(query.latest ? 1 : query.limit),
+      minlatitude: String(CHILE_BOUNDS.minLatitude),
+      maxlatitude: String(CHILE_BOUNDS.maxLatitude),
+      minlongitude: String(CHILE_BOUNDS.minLongitude),
+      maxlongitude: String(CHILE_BOUNDS.maxLongitude),
+    })
+    setFdsnFilters(params, query)
+    return `${FDSN_BASE_URL}?${params.toString()}`
+  },
+
+  normalize(payload) {
+    const unparseable: QuarantinedRecord[] = []
+    const parsed = parseCatalog(String(payload), {
+      source: "fdsn",
+      onInvalid: (raw, reason) =>
+        unparseable.push({ source: "fdsn", record: raw, issues: [reason], receivedAt: new Date().toISOString() }),
+    })
+
+    const { valid, quarantined } = partitionRecords("fdsn", parsed, earthquakeRecordSchema)
+    return { earthquakes: valid, quarantined: [...unparseable, ...quarantined] }
+  },
+}
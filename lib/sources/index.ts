@@ -0,0 +1,34 @@
+/**
+ * Registry of upstream earthquake feeds, ordered by priority
+ */
+
+import { csnSource } from "./csn"
+import { usgsSource } from "./usgs"
+import { emscSource } from "./emsc"
+import { fdsnSource } from "./fdsn"
+import type { EarthquakeSource, SourceId } from "./types"
+
+export type { EarthquakeQuery, EarthquakeSource, SourceId } from "./types"
+
+export const EARTHQUAKE_SOURCES: Record<SourceId, EarthquakeSource> = {
+  csn: csnSource,
+  usgs: usgsSource,
+  emsc: emscSource,
+  fdsn: fdsnSource,
+}
+
+/**
+ * Resolve the sources to query, sorted by priority
+ * @param ids Optional subset of sources; defaults to NEXT_PUBLIC_EARTHQUAKE_SOURCES or all sources
+ */
+export function getSources(ids?: SourceId[]): EarthquakeSource[] {
+  const configured = process.env.NEXT_PUBLIC_EARTHQUAKE_SOURCES?.split(",").map((id) => id.trim()) as
+    | SourceId[]
+    | undefined
+  const selected = ids ?? configured ?? (Object.keys(EARTHQUAKE_SOURCES) as SourceId[])
+
+  return selected
+    .filter((id) => id in EARTHQUAKE_SOURCES)
+    .map((id) => EARTHQUAKE_SOURCES[id])
+    .sort((a, b) => a.priority - b.priority)
+}
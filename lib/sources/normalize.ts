@@ -0,0 +1,78 @@
+/**
+ * Helpers shared by feed adapters to produce CSN-style EarthquakeData
+ */
+
+import type { EarthquakeQuery } from "./types"
+
+// Bounding box used to restrict global catalogs to Chile and its offshore subduction zone
+export const CHILE_BOUNDS = {
+  minLatitude: -56,
+  maxLatitude: -17,
+  minLongitude: -80,
+  maxLongitude: -66,
+}
+
+const utcFormatter = new Intl.DateTimeFormat("sv-SE", {
+  timeZone: "UTC",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hour12: false,
+})
+
+const chileFormatter = new Intl.DateTimeFormat("sv-SE", {
+  timeZone: "America/Santiago",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hour12: false,
+})
+
+/**
+ * Format a date as "YYYY-MM-DD HH:mm:ss" in UTC, matching the CSN feed
+ */
+export function formatUtcTime(date: Date): string {
+  return utcFormatter.format(date)
+}
+
+/**
+ * Format a date as "YYYY-MM-DD HH:mm:ss" in Chilean local time, matching the CSN feed
+ */
+export function formatLocalTime(date: Date): string {
+  return chileFormatter.format(date)
+}
+
+/**
+ * Parse a CSN-style "YYYY-MM-DD HH:mm:ss" UTC timestamp (ISO strings are accepted too)
+ */
+export function parseUtcTime(value: string): Date {
+  const iso = value.includes("T") ? value : value.replace(" ", "T")
+  return new Date(/[zZ]|[+-]\d{2}:?\d{2}$/.test(iso) ? iso : `${iso}Z`)
+}
+
+/**
+ * Add FDSN starttime, endtime and minmagnitude parameters for historical queries
+ */
+export function setFdsnFilters(params: URLSearchParams, query: EarthquakeQuery): void {
+  if (query.starttime) params.set("starttime", query.starttime.toISOString().slice(0, 19))
+  if (query.endtime) params.set("endtime", query.endtime.toISOString().slice(0, 19))
+  if (query.minmagnitude !== undefined) params.set("minmagnitude", String(query.minmagnitude))
+}
+
+/**
+ * Check whether a point falls inside the Chile bounding box
+ */
+export function isWithinChile(latitude: number, longitude: number): boolean {
+  return (
+    latitude >= CHILE_BOUNDS.minLatitude &&
+    latitude <= CHILE_BOUNDS.maxLatitude &&
+    longitude >= CHILE_BOUNDS.minLongitude &&
+    longitude <= CHILE_BOUNDS.maxLongitude
+  )
+}
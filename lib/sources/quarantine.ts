@@ -0,0 +1,75 @@
+/**
+ * Quarantine for upstream records that fail schema validation
+ * Invalid records are kept for inspection instead of reaching calculations or the UI
+ */
+
+import type { z } from "zod"
+import type { SourceId } from "./types"
+
+export interface QuarantinedRecord {
+  source: SourceId
+  record: unknown
+  issues: string[] // "path: message" for each validation failure
+  receivedAt: string // ISO 8601
+}
+
+const MAX_QUARANTINED_RECORDS = 200
+
+const quarantined: QuarantinedRecord[] = []
+
+/**
+ * Split raw records into those matching the schema and quarantined ones
+ * @param source Feed the records came from
+ * @param records Raw records from the upstream payload
+ * @param schema Schema each record must satisfy
+ */
+export function partitionRecords<T>(
+  source: SourceId,
+  records: unknown[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+): { valid: T[]; quarantined: QuarantinedRecord[] } {
+  const valid: T[] = []
+  const rejected: QuarantinedRecord[] = []
+  const receivedAt = new Date().toISOString()
+
+  records.forEach((record) => {
+    const result = schema.safeParse(record)
+    if (result.success) {
+      valid.push(result.data)
+    } else {
+      rejected.push({
+        source,
+        record,
+        issues: result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+        receivedAt,
+      })
+    }
+  })
+
+  return { valid, quarantined: rejected }
+}
+
+/**
+ * Store quarantined records and report them
+ */
+export function quarantineRecords(records: QuarantinedRecord[]): void {
+  if (records.length === 0) return
+
+  console.warn(
+    `Quarantined ${records.length} invalid record(s) from ${records[0].source}:`,
+    records.map((record) => record.issues.join("; ")),
+  )
+
+  quarantined.push(...records)
+  if (quarantined.length > MAX_QUARANTINED_RECORDS) {
+    quarantined.splice(0, quarantined.length - MAX_QUARANTINED_RECORDS)
+  }
+}
+
+/**
+ * Get the most recently quarantined records, oldest first
+ * @param source Optional source to filter by
+ */
+export function getQuarantinedRecords(source?: SourceId): QuarantinedRecord[] {
+  return source ? quarantined.filter((record) => record.source === source) : [...quarantined]
+}
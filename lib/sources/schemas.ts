@@ -0,0 +1,93 @@
+/**
+ * Runtime schemas for upstream earthquake payloads
+ * Numeric fields accept numeric strings, since several feeds serialize numbers as text
+ */
+
+import { z } from "zod"
+import { parseUtcTime } from "./normalize"
+
+/**
+ * A finite number, or a non-empty string that parses as one
+ * Unlike z.coerce.number(), null and "" are rejected instead of becoming 0
+ */
+const numeric = z
+  .union([z.number(), z.string().trim().min(1)], {
+    errorMap: () => ({ message: "Expected a number or numeric string" }),
+  })
+  .pipe(z.coerce.number().finite())
+
+export const latitudeSchema = numeric.pipe(z.number().min(-90).max(90))
+export const longitudeSchema = numeric.pipe(z.number().min(-180).max(180))
+export const depthSchema = numeric.pipe(z.number().min(-10).max(800)) // km; negative above sea level
+export const magnitudeSchema = numeric.pipe(z.number().min(-2).max(10))
+
+const utcTimeSchema = z
+  .string()
+  .min(1)
+  .refine((value) => !isNaN(parseUtcTime(value).getTime()), "Invalid UTC time")
+
+/**
+ * A normalized EarthquakeData record, the final gate for every source
+ */
+export const earthquakeRecordSchema = z.object({
+  id: z.coerce.string().min(1),
+  utc_time: utcTimeSchema,
+  local_time: z.string().min(1),
+  latitude: latitudeSchema,
+  longitude: longitudeSchema,
+  depth: depthSchema,
+  magnitude: magnitudeSchema,
+  scale: z.string().default(""),
+  reference: z.string().default(""),
+  region: z.string().optional(),
+  source: z.enum(["csn", "usgs", "emsc", "fdsn"]).optional(),
+  uncertainty: z
+    .object({
+      timeSeconds: z.number().nonnegative().optional(),
+      horizontalKm: z.number().nonnegative().optional(),
+      depthKm: z.number().nonnegative().optional(),
+      magnitude: z.number().nonnegative().optional(),
+    })
+    .optional(),
+  stationCount: z.number().int().nonnegative().optional(),
+  azimuthalGap: z.number().min(0).max(360).optional(),
+  evaluationStatus: z.enum(["preliminary", "confirmed", "reviewed", "final", "rejected"]).optional(),
+})
+
+export const csnResponseSchema = z.object({
+  status: z.string(),
+  count: numeric.optional(),
+  data: z.array(z.unknown()),
+})
+
+export const featureCollectionSchema = z.object({
+  type: z.literal("FeatureCollection"),
+  features: z.array(z.unknown()),
+})
+
+export const usgsFeatureSchema = z.object({
+  id: z.string().min(1),
+  properties: z.object({
+    mag: magnitudeSchema,
+    magType: z.string().nullable(),
+    place: z.string().nullable(),
+    time: numeric, // Milliseconds since epoch
+  }),
+  geometry: z.object({
+    coordinates: z.tuple([longitudeSchema, latitudeSchema, depthSchema]),
+  }),
+})
+
+export const emscFeatureSchema = z.object({
+  id: z.string().min(1),
+  properties: z.object({
+    unid: z.string().optional(),
+    time: utcTimeSchema,
+    lat: latitudeSchema,
+    lon: longitudeSchema,
+    depth: depthSchema,
+    mag: magnitudeSchema,
+    magtype: z.string().nullable().optional(),
+    flynn_region: z.string().nullable().optional(),
+  }),
+})
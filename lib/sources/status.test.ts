@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { request } from "@/lib/http-client"
+import { getSourceStatus, recordSourceFailure, recordSourceSuccess } from "./status"
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+})
+
+describe("getSourceStatus", () => {
+  it("is unknown before any request", () => {
+    expect(getSourceStatus("fdsn")).toMatchObject({ health: "unknown", errorRate: null, requests: 0 })
+  })
+
+  it("reports latency and health from recent requests", () => {
+    recordSourceSuccess("csn", 200)
+    recordSourceSuccess("csn", 400)
+
+    expect(getSourceStatus("csn")).toMatchObject({
+      health: "ok",
+      latencyMs: 400,
+      averageLatencyMs: 300,
+      errorRate: 0,
+      requests: 2,
+    })
+  })
+
+  it("is degraded after a failed request and keeps its error", () => {
+    recordSourceSuccess("emsc", 300)
+    recordSourceFailure("emsc", 8000, new Error("Timeout after 8000 ms"))
+
+    expect(getSourceStatus("emsc")).toMatchObject({
+      health: "degraded",
+      lastError: "Timeout after 8000 ms",
+      errorRate: 0.5,
+    })
+  })
+
+  it("is down while the source's circuit is open", async () => {
+    vi.stubGlobal("fetch", () => Promise.resolve(new Response(null, { status: 502 })))
+    for (let i = 0; i < 3; i++) {
+      await request("https://example.org/usgs", { retries: 0, circuitKey: "usgs" }).catch((error) =>
+        recordSourceFailure("usgs", 100, error),
+      )
+    }
+
+    expect(getSourceStatus("usgs")).toMatchObject({ health: "down", circuit: "open", errorRate: 1 })
+  })
+
+  it("measures the lag of events received after the first response", () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(Date.parse("2024-03-10T08:20:00Z"))
+
+    // Published before the source was first watched, so not a measure of its lag
+    recordSourceSuccess("fdsn", 100, [{ id: "old", utc_time: "2024-03-09 10:00:00" }])
+    recordSourceSuccess("fdsn", 100, [
+      { id: "old", utc_time: "2024-03-09 10:00:00" },
+      { id: "a", utc_time: "2024-03-10 08:18:00" },
+      { id: "b", utc_time: "2024-03-10 08:16:00" },
+    ])
+
+    expect(getSourceStatus("fdsn").medianLagSeconds).toBe(180)
+  })
+})
@@ -0,0 +1,159 @@
+/**
+ * Health and freshness statistics for each upstream source
+ * Recorded on every fetch so the status panel can tell a stale feed from a network problem
+ */
+
+import { getCircuitStatus, type CircuitStatus } from "@/lib/http-client"
+import { parseUtcTime } from "./normalize"
+import type { SourceId } from "./types"
+
+export type SourceHealth = "ok" | "degraded" | "down" | "unknown"
+
+export interface SourceStatus {
+  source: SourceId
+  health: SourceHealth
+  circuit: CircuitStatus
+  lastSuccessAt: string | null // ISO 8601
+  lastFailureAt: string | null
+  lastError: string | null
+  latencyMs: number | null // Of the last successful request
+  averageLatencyMs: number | null // Over recent successful requests
+  errorRate: number | null // Fraction of recent requests that failed
+  requests: number // Recent requests the rates are computed from
+  medianLagSeconds: number | null // Origin time to first receipt, over recently received events
+}
+
+interface FetchAttempt {
+  at: number
+  ok: boolean
+  latencyMs: number
+}
+
+interface SourceStats {
+  attempts: FetchAttempt[]
+  lastSuccessAt: number | null
+  lastFailureAt: number | null
+  lastError: string | null
+  lags: number[] // Seconds, most recent last
+  seenIds: Set<string>
+  baselineLoaded: boolean
+}
+
+const MAX_ATTEMPTS = 50
+const MAX_LAGS = 50
+const MAX_SEEN_IDS = 2000
+const DEGRADED_ERROR_RATE = 0.2
+
+const stats = new Map<SourceId, SourceStats>()
+
+function getStats(source: SourceId): SourceStats {
+  let entry = stats.get(source)
+  if (!entry) {
+    entry = {
+      attempts: [],
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastError: null,
+      lags: [],
+      seenIds: new Set(),
+      baselineLoaded: false,
+    }
+    stats.set(source, entry)
+  }
+  return entry
+}
+
+function pushBounded<T>(list: T[], value: T, max: number): void {
+  list.push(value)
+  if (list.length > max) list.splice(0, list.length - max)
+}
+
+/**
+ * Record a successful fetch
+ * @param events Events received for the live feed, used to measure origin-to-receipt lag;
+ * omit for historical queries, whose events are old by design
+ */
+export function recordSourceSuccess(
+  source: SourceId,
+  latencyMs: number,
+  events?: { id: string; utc_time: string }[],
+): void {
+  const entry = getStats(source)
+  const now = Date.now()
+  entry.lastSuccessAt = now
+  pushBounded(entry.attempts, { at: now, ok: true, latencyMs }, MAX_ATTEMPTS)
+
+  if (!events) return
+
+  events.forEach((event) => {
+    if (entry.seenIds.has(event.id)) return
+    entry.seenIds.add(event.id)
+    // Events in the first response were published before we started watching
+    if (entry.baselineLoaded) {
+      pushBounded(entry.lags, (now - parseUtcTime(event.utc_time).getTime()) / 1000, MAX_LAGS)
+    }
+  })
+  entry.baselineLoaded = true
+
+  if (entry.seenIds.size > MAX_SEEN_IDS) {
+    entry.seenIds = new Set(Array.from(entry.seenIds).slice(-MAX_SEEN_IDS / 2))
+  }
+}
+
+/**
+ * Record a failed fetch
+ */
+export function recordSourceFailure(source: SourceId, latencyMs: number, error: unknown): void {
+  const entry = getStats(source)
+  const now = Date.now()
+  entry.lastFailureAt = now
+  entry.lastError = error instanceof Error ? error.message : String(error)
+  pushBounded(entry.attempts, { at: now, ok: false, latencyMs }, MAX_ATTEMPTS)
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+function toIso(time: number | null): string | null {
+  return time !== null ? new Date(time).toISOString() : null
+}
+
+/**
+ * Get the current status of a source
+ */
+export function getSourceStatus(source: SourceId): SourceStatus {
+  const entry = getStats(source)
+  const successes = entry.attempts.filter((attempt) => attempt.ok)
+  const lastSuccess = successes[successes.length - 1]
+  const errorRate = entry.attempts.length > 0 ? 1 - successes.length / entry.attempts.length : null
+  const circuit = getCircuitStatus(source)
+
+  let health: SourceHealth = "unknown"
+  if (entry.attempts.length > 0) {
+    const lastAttempt = entry.attempts[entry.attempts.length - 1]
+    if (circuit === "open") health = "down"
+    else if (!lastAttempt.ok || errorRate! > DEGRADED_ERROR_RATE) health = "degraded"
+    else health = "ok"
+  }
+
+  return {
+    source,
+    health,
+    circuit,
+    lastSuccessAt: toIso(entry.lastSuccessAt),
+    lastFailureAt: toIso(entry.lastFailureAt),
+    lastError: entry.lastError,
+    latencyMs: lastSuccess?.latencyMs ?? null,
+    averageLatencyMs:
+      successes.length > 0
+        ? Math.round(successes.reduce((sum, attempt) => sum + attempt.latencyMs, 0) / successes.length)
+        : null,
+    errorRate,
+    requests: entry.attempts.length,
+    medianLagSeconds: median(entry.lags),
+  }
+}
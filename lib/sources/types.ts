@@ -0,0 +1,34 @@
+/**
+ * Shared types for upstream earthquake feed adapters
+ */
+
+import type { EarthquakeData } from "@/lib/api"
+import type { QuarantinedRecord } from "./quarantine"
+
+export type SourceId = "csn" | "usgs" | "emsc" | "fdsn"
+
+export interface EarthquakeQuery {
+  limit: number
+  region?: string // Chilean administrative region code; sources without supportsRegion are filtered afterwards
+  latest?: boolean
+  starttime?: Date // Time range and magnitude filters, only honored by sources with supportsTimeRange
+  endtime?: Date
+  minmagnitude?: number
+}
+
+export interface NormalizeResult {
+  earthquakes: EarthquakeData[]
+  quarantined: QuarantinedRecord[] // Records that failed validation
+}
+
+export interface EarthquakeSource {
+  id: SourceId
+  name: string
+  priority: number // Lower value is tried first
+  responseType: "json" | "text"
+  revalidate: number // Seconds, forwarded to Next.js fetch cache
+  supportsTimeRange: boolean // Whether historical starttime/endtime queries are supported
+  supportsRegion: boolean // Whether the source filters by region itself
+  buildUrl(query: EarthquakeQuery): string
+  normalize(payload: unknown): NormalizeResult // Throws if the payload envelope itself is invalid
+}
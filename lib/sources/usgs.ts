@@ -0,0 +1,60 @@
+/**
+ * Adapter for the USGS FDSN event service (GeoJSON output)
+ */
+
+import type { EarthquakeData } from "@/lib/api"
+import type { EarthquakeSource } from "./types"
+import { CHILE_BOUNDS, formatLocalTime, formatUtcTime, setFdsnFilters } from "./normalize"
+import { partitionRecords } from "./quarantine"
+import { featureCollectionSchema, usgsFeatureSchema } from "./schemas"
+
+const USGS_BASE_URL = "https://earthquake.usgs.gov/fdsnws/event/1/query"
+
+export const usgsSource: EarthquakeSource = {
+  id: "usgs",
+  name: "USGS",
+  priority: 2,
+  responseType: "json",
+  revalidate: 60,
+  supportsTimeRange: true,
+  supportsRegion: false,
+
+  buildUrl(query) {
+    const params = new URLSearchParams({
+      format: "geojson",
+      orderby: "time",
+      limit: String(query.latest ? 1 : query.limit),
+      minlatitude: String(CHILE_BOUNDS.minLatitude),
+      maxlatitude: String(CHILE_BOUNDS.maxLatitude),
+      minlongitude: String(CHILE_BOUNDS.minLongitude),
+      maxlongitude: String(CHILE_BOUNDS.maxLongitude),
+    })
+    setFdsnFilters(params, query)
+    return `${USGS_BASE_URL}?${params.toString()}`
+  },
+
+  normalize(payload) {
+    const response = featureCollectionSchema.parse(payload)
+    const { valid, quarantined } = partitionRecords("usgs", response.features, usgsFeatureSchema)
+
+    const earthquakes = valid.map((feature): EarthquakeData => {
+      const [longitude, latitude, depth] = feature.geometry.coordinates
+      const time = new Date(feature.properties.time)
+
+      return {
+        id: `usgs:${feature.id}`,
+        utc_time: formatUtcTime(time),
+        local_time: formatLocalTime(time),
+        latitude,
+        longitude,
+        depth,
+        magnitude: feature.properties.mag,
+        scale: feature.properties.magType ?? "",
+        reference: feature.properties.place ?? "",
+        source: "usgs",
+      }
+    })
+
+    return { earthquakes, quarantined }
+  },
+}
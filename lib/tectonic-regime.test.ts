@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import { classifyEarthquake, getGroundMotionEventType, isTsunamigenicRegime } from "./tectonic-regime"
+
+// USGS hypocenters of well-studied Chilean earthquakes
+const MAULE_2010 = { latitude: -36.122, longitude: -72.898, depth: 22.9 }
+const IQUIQUE_2014 = { latitude: -19.61, longitude: -70.769, depth: 25 }
+const ILLAPEL_2015 = { latitude: -31.573, longitude: -71.674, depth: 22.4 }
+const TARAPACA_2005 = { latitude: -19.987, longitude: -69.197, depth: 110.8 }
+const SAN_PEDRO_DE_ATACAMA_2024 = { latitude: -23.043, longitude: -67.841, depth: 117 }
+const AYSEN_2007 = { latitude: -45.243, longitude: -72.648, depth: 10 }
+
+describe("classifyEarthquake", () => {
+  it.each([
+    ["2010 Maule", MAULE_2010],
+    ["2014 Iquique", IQUIQUE_2014],
+    ["2015 Illapel", ILLAPEL_2015],
+  ])("classifies the %s megathrust earthquake as interface", (_, hypocenter) => {
+    const { regime, slabDepthKm } = classifyEarthquake(hypocenter)
+    expect(regime).toBe("interface")
+    expect(Math.abs(slabDepthKm! - hypocenter.depth)).toBeLessThan(20)
+  })
+
+  it.each([
+    ["2005 Tarapacá", TARAPACA_2005],
+    ["2024 San Pedro de Atacama", SAN_PEDRO_DE_ATACAMA_2024],
+  ])("classifies the %s earthquake as intraslab", (_, hypocenter) => {
+    expect(classifyEarthquake(hypocenter).regime).toBe("intraslab")
+  })
+
+  it("classifies the 2007 Aysén fjord earthquake as crustal", () => {
+    const { regime, slabDepthKm } = classifyEarthquake(AYSEN_2007)
+    expect(regime).toBe("crustal")
+    expect(slabDepthKm).toBeGreaterThan(AYSEN_2007.depth)
+  })
+
+  it("classifies shallow events seaward of the trench as outer-rise", () => {
+    expect(classifyEarthquake({ latitude: -36, longitude: -74.5, depth: 15 })).toEqual({
+      regime: "outer-rise",
+      slabDepthKm: null,
+    })
+  })
+
+  it("falls back to depth alone outside the slab grid", () => {
+    expect(classifyEarthquake({ latitude: -52, longitude: -72, depth: 10 }).regime).toBe("crustal")
+    expect(classifyEarthquake({ latitude: -52, longitude: -72, depth: 90 }).regime).toBe("intraslab")
+  })
+})
+
+describe("regime properties", () => {
+  it("maps regimes to ground-motion models and tsunami potential", () => {
+    expect(getGroundMotionEventType("outer-rise")).toBe("intraslab")
+    expect(getGroundMotionEventType("crustal")).toBe("crustal")
+    expect(isTsunamigenicRegime("interface")).toBe(true)
+    expect(isTsunamigenicRegime("intraslab")).toBe(false)
+  })
+})
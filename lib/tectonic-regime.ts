@@ -0,0 +1,81 @@
+/**
+ * Tectonic regime classification of Chilean earthquakes
+ * Compares the hypocenter with the depth of the Nazca slab beneath the epicenter
+ */
+
+import type { EarthquakeData } from "@/lib/api"
+import { getSlabDepth, getTrenchLongitude, isWithinSlabGrid } from "@/lib/slab-geometry"
+import type { EventType } from "@/utils/ground-motion"
+
+export type TectonicRegime = "interface" | "intraslab" | "crustal" | "outer-rise"
+
+export interface TectonicClassification {
+  regime: TectonicRegime
+  slabDepthKm: number | null // Depth of the slab top beneath the epicenter
+}
+
+export const TECTONIC_REGIME_LABELS: Record<TectonicRegime, string> = {
+  interface: "Interplaca",
+  intraslab: "Intraplaca de profundidad",
+  crustal: "Cortical",
+  "outer-rise": "Outer-rise",
+}
+
+// Hypocenters within this distance of the slab top are attributed to it
+const SLAB_TOLERANCE_KM = 20
+// Downdip limit of the seismogenic plate interface
+const MAX_INTERFACE_DEPTH_KM = 60
+// Thickness of the overriding continental crust
+const MAX_CRUSTAL_DEPTH_KM = 40
+// Outer-rise events break the oceanic plate near the surface, seaward of the trench
+const MAX_OUTER_RISE_DEPTH_KM = 50
+
+/**
+ * Classify an earthquake by tectonic regime
+ */
+export function classifyEarthquake(
+  earthquake: Pick<EarthquakeData, "latitude" | "longitude" | "depth">,
+): TectonicClassification {
+  const { latitude, longitude, depth } = earthquake
+
+  if (!isWithinSlabGrid(latitude)) {
+    // Far from the Nazca subduction zone only crustal events are expected at shallow depth
+    return { regime: depth <= MAX_CRUSTAL_DEPTH_KM ? "crustal" : "intraslab", slabDepthKm: null }
+  }
+
+  const trenchLongitude = getTrenchLongitude(latitude)
+  if (trenchLongitude !== null && longitude < trenchLongitude) {
+    return { regime: depth <= MAX_OUTER_RISE_DEPTH_KM ? "outer-rise" : "intraslab", slabDepthKm: null }
+  }
+
+  const slabDepthKm = getSlabDepth(latitude, longitude)
+  if (slabDepthKm === null) {
+    // Beyond the downdip end of the mapped slab
+    return { regime: depth <= MAX_CRUSTAL_DEPTH_KM ? "crustal" : "intraslab", slabDepthKm }
+  }
+
+  if (depth < slabDepthKm - SLAB_TOLERANCE_KM) {
+    // Above the slab: the overriding crust, or the mantle wedge where events are rare
+    // and most likely mislocated interface or, below the seismogenic interface, intraslab events
+    if (depth <= MAX_CRUSTAL_DEPTH_KM) return { regime: "crustal", slabDepthKm }
+    return { regime: depth <= MAX_INTERFACE_DEPTH_KM ? "interface" : "intraslab", slabDepthKm }
+  }
+
+  const onInterface = depth <= slabDepthKm + SLAB_TOLERANCE_KM && depth <= MAX_INTERFACE_DEPTH_KM
+  return { regime: onInterface ? "interface" : "intraslab", slabDepthKm }
+}
+
+/**
+ * Ground-motion model family for a tectonic regime
+ * Outer-rise events are normal faulting within the oceanic plate, closest to intraslab events
+ */
+export function getGroundMotionEventType(regime: TectonicRegime): EventType {
+  return regime === "outer-rise" ? "intraslab" : regime
+}
+
+/**
+ * Whether a regime can produce a tsunami by displacing the sea floor
+ */
+export function isTsunamigenicRegime(regime: TectonicRegime): boolean {
+  return regime === "interface" || regime === "outer-rise"
+}
@@ -45,11 +45,21 @@ self.addEventListener("fetch", (event) => {
     return
   }
 
+  // Never intercept the live event stream; it must stay a direct, uncached connection
+  if (event.request.headers.get("Accept") === "text/event-stream") {
+    return
+  }
+
   // For API requests, try network first, then cache
   if (event.request.url.includes("/api/")) {
     event.respondWith(
       fetch(event.request)
         .then((response) => {
+          // Don't let error responses (e.g. 400 for bad filters) replace good cached data
+          if (!response.ok) {
+            return response
+          }
+
           // Clone the response to store in cache
           const responseToCache = response.clone()
 
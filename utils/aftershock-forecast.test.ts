@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest"
+import type { EarthquakeData } from "@/lib/api"
+import { selectAftershocks, selectMainshock } from "./aftershock-forecast"
+
+const NOW = Date.parse("2024-03-12T12:00:00Z")
+
+function earthquake(id: string, utcTime: string, magnitude: number): EarthquakeData {
+  return {
+    id,
+    utc_time: utcTime,
+    local_time: utcTime,
+    latitude: -33.4,
+    longitude: -72,
+    depth: 30,
+    magnitude,
+    scale: "Mw",
+    reference: "",
+  }
+}
+
+describe("selectMainshock", () => {
+  const mainshock = earthquake("mainshock", "2024-03-10 08:14:03", 7.1)
+  const aftershocks = [
+    earthquake("aftershock-2", "2024-03-12 11:50:00", 3.8),
+    earthquake("aftershock-1", "2024-03-11 02:10:00", 6.2),
+  ]
+
+  it("keeps the largest event after smaller aftershocks arrive", () => {
+    expect(selectMainshock([...aftershocks, mainshock], 6, NOW)?.id).toBe("mainshock")
+  })
+
+  it("ignores events below the magnitude or older than the mainshock window", () => {
+    expect(selectMainshock(aftershocks, 6.5, NOW)).toBeNull()
+    expect(selectMainshock([mainshock], 6, NOW + 31 * 24 * 60 * 60 * 1000)).toBeNull()
+  })
+
+  it("prefers the latest of equally large events", () => {
+    const later = earthquake("later", "2024-03-11 20:00:00", 7.1)
+    expect(selectMainshock([mainshock, later], 6, NOW)?.id).toBe("later")
+  })
+})
+
+describe("selectAftershocks", () => {
+  const mainshock = { ...earthquake("csn:1", "2024-03-10 08:14:03", 7.1), source: "csn" as const }
+
+  it("does not count another catalog's solution of the mainshock as an aftershock", () => {
+    const copy = { ...earthquake("usgs:us7000m1ab", "2024-03-10 08:14:09", 7.0), source: "usgs" as const }
+    const aftershock = { ...earthquake("csn:2", "2024-03-10 09:30:00", 5.1), source: "csn" as const }
+
+    expect(selectAftershocks(mainshock, [copy, aftershock]).map((quake) => quake.id)).toEqual(["csn:2"])
+  })
+})
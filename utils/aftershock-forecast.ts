@@ -0,0 +1,301 @@
+/**
+ * Aftershock forecasts with the Reasenberg & Jones (1989) model
+ * Rate of aftershocks of magnitude >= M at time t (days) after a mainshock of magnitude Mm:
+ *   λ(t, M) = 10^(a + b (Mm - M)) (t + c)^-p
+ * The productivity a starts from generic parameters and is updated with the observed sequence.
+ */
+
+import type { EarthquakeData } from "@/lib/api"
+import { parseUtcTime } from "@/lib/sources/normalize"
+import { isSameEvent } from "./event-association"
+import { calcularDistanciaHaversine } from "./seismic-calculations"
+
+export interface SequenceParameters {
+  a: number // Productivity
+  aSigma: number // Standard deviation of the productivity prior
+  b: number // Gutenberg-Richter b-value
+  p: number // Omori decay exponent
+  c: number // Omori time offset, in days
+}
+
+export interface ForecastWindow {
+  label: string
+  days: number
+}
+
+export interface AftershockProbability {
+  magnitude: number
+  window: ForecastWindow
+  probability: number // Of at least one aftershock at or above the magnitude in the window
+  expected: number // Expected number of such aftershocks
+}
+
+export interface OmoriPoint {
+  days: number // Time since the mainshock
+  expectedRate: number // Model rate of aftershocks >= the completeness magnitude, per day
+  observedRate: number | null // Observed rate in the bin ending at this time, per day
+}
+
+export interface AftershockForecast {
+  mainshock: EarthquakeData
+  issuedAt: string
+  elapsedDays: number
+  parameters: SequenceParameters // With the updated productivity
+  aftershocks: EarthquakeData[] // Observed aftershocks used for the update
+  completenessMagnitude: number
+  probabilities: AftershockProbability[]
+  decay: OmoriPoint[]
+}
+
+export interface ForecastOptions {
+  completenessMagnitude?: number // Smallest aftershock magnitude reliably reported
+  now?: Date
+}
+
+// Generic subduction-zone parameters (Page et al., 2016), used for Chilean sequences
+export const GENERIC_CHILE_PARAMETERS: SequenceParameters = {
+  a: -1.97,
+  aSigma: 0.5,
+  b: 1.0,
+  p: 0.98,
+  c: 0.018,
+}
+
+export const FORECAST_WINDOWS: ForecastWindow[] = [
+  { label: "Próximo día", days: 1 },
+  { label: "Próxima semana", days: 7 },
+  { label: "Próximo mes", days: 30 },
+]
+
+export const FORECAST_MAGNITUDES = [4, 5, 6]
+
+// A mainshock keeps its forecast for as long as the longest forecast window
+export const MAINSHOCK_WINDOW_DAYS = 30
+
+// Early aftershocks are missing from catalogs while the coda of the mainshock hides them
+const INCOMPLETE_PERIOD_DAYS = 0.05
+const DEFAULT_COMPLETENESS_MAGNITUDE = 3
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Radius of the aftershock zone, scaled with rupture length (Kagan, 2002)
+ * @param magnitude Mainshock magnitude
+ */
+export function getAftershockZoneRadius(magnitude: number): number {
+  return Math.max(30, 10 ** (0.5 * magnitude - 1.8))
+}
+
+/**
+ * Integral of (t + c)^-p between two times
+ */
+function omoriIntegral(start: number, end: number, { p, c }: SequenceParameters): number {
+  if (Math.abs(p - 1) < 1e-6) return Math.log((end + c) / (start + c))
+  return ((end + c) ** (1 - p) - (start + c) ** (1 - p)) / (1 - p)
+}
+
+/**
+ * Expected number of aftershocks at or above a magnitude between two times
+ */
+function expectedCount(
+  parameters: SequenceParameters,
+  mainshockMagnitude: number,
+  magnitude: number,
+  start: number,
+  end: number,
+): number {
+  const productivity = 10 ** (parameters.a + parameters.b * (mainshockMagnitude - magnitude))
+  return productivity * omoriIntegral(start, end, parameters)
+}
+
+/**
+ * Select the mainshock to forecast: the largest event at or above a magnitude within the mainshock window
+ * Its aftershocks are more recent but smaller, so they never take its place; of equal events the latest wins
+ * @param earthquakes Candidate events
+ * @param minMagnitude Smallest magnitude of a mainshock
+ * @param now Current time in milliseconds
+ * @returns The mainshock, or null if no event qualifies
+ */
+export function selectMainshock(
+  earthquakes: EarthquakeData[],
+  minMagnitude: number,
+  now: number = Date.now(),
+): EarthquakeData | null {
+  let mainshock: EarthquakeData | null = null
+  let mainshockTime = -Infinity
+
+  for (const quake of earthquakes) {
+    const time = parseUtcTime(quake.utc_time).getTime()
+    if (quake.magnitude < minMagnitude || now - time > MAINSHOCK_WINDOW_DAYS * DAY_MS) continue
+    if (
+      !mainshock ||
+      quake.magnitude > mainshock.magnitude ||
+      (quake.magnitude === mainshock.magnitude && time > mainshockTime)
+    ) {
+      mainshock = quake
+      mainshockTime = time
+    }
+  }
+  return mainshock
+}
+
+/**
+ * Select the aftershocks of a mainshock: later events within its aftershock zone
+ * Other catalogs' solutions of the mainshock itself are not aftershocks, even if they report it a little later
+ * @param mainshock The mainshock
+ * @param earthquakes Candidate events
+ * @param completenessMagnitude Smallest magnitude to keep
+ */
+export function selectAftershocks(
+  mainshock: EarthquakeData,
+  earthquakes: EarthquakeData[],
+  completenessMagnitude = DEFAULT_COMPLETENESS_MAGNITUDE,
+): EarthquakeData[] {
+  const origin = parseUtcTime(mainshock.utc_time).getTime()
+  const radius = getAftershockZoneRadius(mainshock.magnitude)
+
+  return earthquakes
+    .filter(
+      (quake) =>
+        !isSameEvent(mainshock, quake) &&
+        quake.magnitude >= completenessMagnitude &&
+        parseUtcTime(quake.utc_time).getTime() > origin &&
+        calcularDistanciaHaversine(mainshock.latitude, mainshock.longitude, quake.latitude, quake.longitude) <= radius,
+    )
+    .sort((a, b) => parseUtcTime(a.utc_time).getTime() - parseUtcTime(b.utc_time).getTime())
+}
+
+/**
+ * Posterior weights of the productivity on a grid, combining the generic prior with the observed sequence
+ * The sequence likelihood is Poissonian in the count, with p, c and b held at their generic values
+ */
+function productivityPosterior(
+  prior: SequenceParameters,
+  mainshockMagnitude: number,
+  completenessMagnitude: number,
+  observedCount: number,
+  observedStart: number,
+  elapsedDays: number,
+): { a: number; weight: number }[] {
+  const observedSpan = elapsedDays > observedStart ? omoriIntegral(observedStart, elapsedDays, prior) : 0
+
+  const nodes = Array.from({ length: 81 }, (_, i) => {
+    const a = prior.a + ((i - 40) / 10) * prior.aSigma
+    const productivity = 10 ** (a + prior.b * (mainshockMagnitude - completenessMagnitude))
+    const expected = productivity * observedSpan
+    const logLikelihood = observedSpan > 0 ? observedCount * Math.log(productivity) - expected : 0
+    const logPrior = -((a - prior.a) ** 2) / (2 * prior.aSigma ** 2)
+    return { a, logWeight: logLikelihood + logPrior }
+  })
+
+  const maxLogWeight = Math.max(...nodes.map((node) => node.logWeight))
+  const weights = nodes.map((node) => Math.exp(node.logWeight - maxLogWeight))
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+  return nodes.map((node, i) => ({ a: node.a, weight: weights[i] / total }))
+}
+
+/**
+ * Observed and modeled aftershock rates on logarithmic time bins, for an Omori decay chart
+ */
+function decayCurve(
+  parameters: SequenceParameters,
+  mainshockMagnitude: number,
+  completenessMagnitude: number,
+  aftershockDays: number[],
+  elapsedDays: number,
+): OmoriPoint[] {
+  const end = Math.max(elapsedDays, 1) + 30
+  const start = INCOMPLETE_PERIOD_DAYS
+  const bins = 24
+  const ratio = (end / start) ** (1 / bins)
+
+  return Array.from({ length: bins }, (_, i) => {
+    const binStart = start * ratio ** i
+    const binEnd = binStart * ratio
+    const expected = expectedCount(parameters, mainshockMagnitude, completenessMagnitude, binStart, binEnd)
+    const observed =
+      binEnd <= elapsedDays ? aftershockDays.filter((day) => day >= binStart && day < binEnd).length : null
+
+    return {
+      days: binEnd,
+      expectedRate: expected / (binEnd - binStart),
+      observedRate: observed === null ? null : observed / (binEnd - binStart),
+    }
+  })
+}
+
+/**
+ * Forecast aftershock probabilities for the next day, week and month
+ * @param mainshock The mainshock
+ * @param earthquakes Recent events, from which the observed aftershocks are selected
+ * @param prior Generic sequence parameters
+ */
+export function forecastAftershocks(
+  mainshock: EarthquakeData,
+  earthquakes: EarthquakeData[],
+  prior: SequenceParameters = GENERIC_CHILE_PARAMETERS,
+  { completenessMagnitude = DEFAULT_COMPLETENESS_MAGNITUDE, now = new Date() }: ForecastOptions = {},
+): AftershockForecast {
+  const origin = parseUtcTime(mainshock.utc_time).getTime()
+  const elapsedDays = Math.max(0, (now.getTime() - origin) / DAY_MS)
+
+  const aftershocks = selectAftershocks(mainshock, earthquakes, completenessMagnitude).filter(
+    (quake) => parseUtcTime(quake.utc_time).getTime() <= now.getTime(),
+  )
+  const aftershockDays = aftershocks.map((quake) => (parseUtcTime(quake.utc_time).getTime() - origin) / DAY_MS)
+
+  // A short recent-events list may not reach back to the mainshock; count only the span it covers
+  const earliest = Math.min(...earthquakes.map((quake) => parseUtcTime(quake.utc_time).getTime()))
+  const observedStart = Math.max(INCOMPLETE_PERIOD_DAYS, (earliest - origin) / DAY_MS)
+  const observedCount = aftershockDays.filter((day) => day >= observedStart).length
+
+  const posterior = productivityPosterior(
+    prior,
+    mainshock.magnitude,
+    completenessMagnitude,
+    observedCount,
+    observedStart,
+    elapsedDays,
+  )
+  const meanA = posterior.reduce((sum, node) => sum + node.a * node.weight, 0)
+  const parameters = { ...prior, a: meanA }
+
+  // Probabilities average over the remaining uncertainty in productivity
+  const probabilities = FORECAST_MAGNITUDES.flatMap((magnitude) =>
+    FORECAST_WINDOWS.map((window) => {
+      let probability = 0
+      let expected = 0
+      posterior.forEach(({ a, weight }) => {
+        const count = expectedCount(
+          { ...prior, a },
+          mainshock.magnitude,
+          magnitude,
+          elapsedDays,
+          elapsedDays + window.days,
+        )
+        probability += weight * (1 - Math.exp(-count))
+        expected += weight * count
+      })
+      return { magnitude, window, probability, expected }
+    }),
+  )
+
+  return {
+    mainshock,
+    issuedAt: now.toISOString(),
+    elapsedDays,
+    parameters,
+    aftershocks,
+    completenessMagnitude,
+    probabilities,
+    decay: decayCurve(parameters, mainshock.magnitude, completenessMagnitude, aftershockDays, elapsedDays),
+  }
+}
+
+/**
+ * Format a probability for display, e.g. "35 %", "< 1 %" or "> 99 %"
+ */
+export function formatProbability(probability: number): string {
+  if (probability < 0.01) return "< 1 %"
+  if (probability > 0.99) return "> 99 %"
+  return `${Math.round(probability * 100)} %`
+}
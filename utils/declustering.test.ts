@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest"
+import type { EarthquakeData } from "@/lib/api"
+import { declusterCatalog, declusteredEarthquakes, gardnerKnopoffWindow, type DeclusteringMethod } from "./declustering"
+import { fromLocal } from "./finite-fault"
+
+const ORIGIN = Date.parse("2024-03-10T08:00:00Z")
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Event at a time in days from the mainshock and an offset in km east of it
+ */
+function earthquake(id: string, days: number, eastKm: number, magnitude: number): EarthquakeData {
+  const time = new Date(ORIGIN + days * DAY_MS).toISOString().replace("T", " ").slice(0, 19)
+  const [latitude, longitude] = fromLocal(-33, -72, eastKm, 0)
+  return { id, utc_time: time, local_time: time, latitude, longitude, depth: 30, magnitude, scale: "Mw", reference: "" }
+}
+
+// A foreshock, an M6 mainshock and two aftershocks within a day and 10 km, plus two unrelated events:
+// one far away during the sequence, one at the same place long after it
+const catalog = [
+  earthquake("foreshock", -0.5, 5, 4.2),
+  earthquake("mainshock", 0, 0, 6),
+  earthquake("aftershock-1", 0.2, 10, 4),
+  earthquake("remote", 0.3, 300, 4.5),
+  earthquake("aftershock-2", 0.6, -8, 3.5),
+  earthquake("late", 600, 0, 4),
+]
+
+describe("gardnerKnopoffWindow", () => {
+  it("grows with magnitude, with the long-duration branch from M6.5", () => {
+    expect(gardnerKnopoffWindow(6).distanceKm).toBeCloseTo(53.2, 1)
+    expect(gardnerKnopoffWindow(6).days).toBeCloseTo(499, 0)
+    expect(gardnerKnopoffWindow(7).days).toBeCloseTo(918, 0)
+  })
+})
+
+describe.each<DeclusteringMethod>(["gardner-knopoff", "reasenberg"])("declusterCatalog with %s", (method) => {
+  const labels = declusterCatalog(catalog, method)
+
+  it("groups the sequence under its largest event", () => {
+    expect(labels.mainshock).toMatchObject({ role: "mainshock", clusterSize: 4 })
+    expect(labels.foreshock).toMatchObject({ role: "foreshock", clusterId: labels.mainshock.clusterId })
+    expect(labels["aftershock-1"]).toMatchObject({ role: "aftershock", clusterId: labels.mainshock.clusterId })
+    expect(labels["aftershock-2"]).toMatchObject({ role: "aftershock", clusterId: labels.mainshock.clusterId })
+  })
+
+  it("leaves events outside the sequence's window independent", () => {
+    expect(labels.remote).toMatchObject({ role: "mainshock", clusterSize: 1 })
+    expect(labels.late).toMatchObject({ role: "mainshock", clusterSize: 1 })
+  })
+
+  it("keeps only the independent events", () => {
+    expect(declusteredEarthquakes(catalog, labels).map((quake) => quake.id)).toEqual(["mainshock", "remote", "late"])
+  })
+})
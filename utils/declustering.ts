@@ -0,0 +1,211 @@
+/**
+ * Catalog declustering: group events into sequences and label their mainshocks, foreshocks and aftershocks
+ */
+
+import type { EarthquakeData } from "@/lib/api"
+import { parseUtcTime } from "@/lib/sources/normalize"
+import { calcularDistanciaHaversine } from "./seismic-calculations"
+
+export type DeclusteringMethod = "gardner-knopoff" | "reasenberg"
+export type ClusterRole = "mainshock" | "foreshock" | "aftershock"
+
+export interface ClusterLabel {
+  role: ClusterRole // Independent events are the mainshock of a cluster of one
+  clusterId: number
+  clusterSize: number
+}
+
+export interface ReasenbergParameters {
+  tauMin: number // Minimum look-ahead time, in days
+  tauMax: number // Maximum look-ahead time, in days
+  probability: number // Confidence of observing the next event in the sequence
+  xk: number // Increase of the lower magnitude cutoff during clusters
+  xmeff: number // Effective lower magnitude cutoff of the catalog
+  rfact: number // Number of crack radii within which events interact
+}
+
+// Standard parameters of Reasenberg (1985)
+export const DEFAULT_REASENBERG_PARAMETERS: ReasenbergParameters = {
+  tauMin: 1,
+  tauMax: 10,
+  probability: 0.95,
+  xk: 0.5,
+  xmeff: 1.5,
+  rfact: 10,
+}
+
+export const DECLUSTERING_METHOD_LABELS: Record<DeclusteringMethod, string> = {
+  "gardner-knopoff": "Gardner-Knopoff",
+  reasenberg: "Reasenberg",
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface CatalogEvent {
+  quake: EarthquakeData
+  time: number // Days since the epoch
+}
+
+function toCatalogEvents(earthquakes: EarthquakeData[]): CatalogEvent[] {
+  return earthquakes
+    .map((quake) => ({ quake, time: parseUtcTime(quake.utc_time).getTime() / DAY_MS }))
+    .sort((a, b) => a.time - b.time)
+}
+
+/**
+ * Space-time window of Gardner & Knopoff (1974)
+ * @returns Distance in km and duration in days
+ */
+export function gardnerKnopoffWindow(magnitude: number): { distanceKm: number; days: number } {
+  return {
+    distanceKm: 10 ** (0.1238 * magnitude + 0.983),
+    days: magnitude >= 6.5 ? 10 ** (0.032 * magnitude + 2.7389) : 10 ** (0.5409 * magnitude - 0.547),
+  }
+}
+
+/**
+ * Label events from the cluster each belongs to: the largest is the mainshock, earlier ones foreshocks
+ */
+function labelClusters(events: CatalogEvent[], clusterOf: number[]): Record<string, ClusterLabel> {
+  const members = new Map<number, number[]>()
+  clusterOf.forEach((cluster, index) => members.set(cluster, [...(members.get(cluster) ?? []), index]))
+
+  const labels: Record<string, ClusterLabel> = {}
+  let clusterId = 0
+  members.forEach((indices) => {
+    clusterId += 1
+    // Events are in time order, so the first of equal magnitudes wins
+    const main = indices.reduce((best, index) =>
+      events[index].quake.magnitude > events[best].quake.magnitude ? index : best,
+    )
+    indices.forEach((index) => {
+      labels[events[index].quake.id] = {
+        role: index === main ? "mainshock" : index < main ? "foreshock" : "aftershock",
+        clusterId,
+        clusterSize: indices.length,
+      }
+    })
+  })
+  return labels
+}
+
+/**
+ * Decluster with the magnitude-dependent windows of Gardner & Knopoff (1974)
+ * Events are taken from largest to smallest; each claims the unassigned events inside its window
+ */
+function gardnerKnopoff(events: CatalogEvent[]): number[] {
+  const clusterOf: number[] = events.map(() => -1)
+  const bySize = events.map((_, index) => index).sort((a, b) => events[b].quake.magnitude - events[a].quake.magnitude)
+
+  bySize.forEach((main) => {
+    if (clusterOf[main] !== -1) return
+    clusterOf[main] = main
+
+    const { quake, time } = events[main]
+    const window = gardnerKnopoffWindow(quake.magnitude)
+    events.forEach((other, index) => {
+      if (clusterOf[index] !== -1 || Math.abs(other.time - time) > window.days) return
+      const distance = calcularDistanciaHaversine(
+        quake.latitude,
+        quake.longitude,
+        other.quake.latitude,
+        other.quake.longitude,
+      )
+      if (distance <= window.distanceKm) clusterOf[index] = main
+    })
+  })
+  return clusterOf
+}
+
+/**
+ * Crack radius of an event in km (Kanamori & Anderson, 1975)
+ */
+function crackRadius(magnitude: number): number {
+  return 0.011 * 10 ** (0.4 * magnitude)
+}
+
+/**
+ * Decluster by linking events whose interaction zones overlap (Reasenberg, 1985)
+ * Each event extends its cluster for a look-ahead time that grows with the time since the largest event
+ * and shrinks with its magnitude
+ */
+function reasenberg(events: CatalogEvent[], parameters: ReasenbergParameters): number[] {
+  const clusterOf: number[] = events.map((_, index) => index)
+  const largest = new Map<number, number>() // Cluster -> index of its largest event
+
+  const find = (index: number): number => {
+    while (clusterOf[index] !== index) index = clusterOf[index]
+    return index
+  }
+
+  const lookAhead = (cluster: number, time: number) => {
+    const main = events[largest.get(cluster) ?? cluster]
+    const deltaM = (1 - parameters.xk) * main.quake.magnitude - parameters.xmeff
+    const elapsed = time - main.time
+    if (elapsed <= 0) return parameters.tauMin
+    const tau = (-Math.log(1 - parameters.probability) * elapsed) / 10 ** ((2 * (deltaM - 1)) / 3)
+    return Math.min(parameters.tauMax, Math.max(parameters.tauMin, tau))
+  }
+
+  events.forEach((current, j) => {
+    for (let i = j - 1; i >= 0; i--) {
+      const earlier = events[i]
+      if (current.time - earlier.time > parameters.tauMax) break
+
+      const cluster = find(i)
+      if (find(j) === cluster || current.time - earlier.time > lookAhead(cluster, earlier.time)) continue
+
+      const main = events[largest.get(cluster) ?? cluster]
+      const radius = Math.max(
+        parameters.rfact * crackRadius(earlier.quake.magnitude),
+        crackRadius(main.quake.magnitude),
+      )
+      const epicentral = calcularDistanciaHaversine(
+        earlier.quake.latitude,
+        earlier.quake.longitude,
+        current.quake.latitude,
+        current.quake.longitude,
+      )
+      const distance = Math.sqrt(epicentral ** 2 + (earlier.quake.depth - current.quake.depth) ** 2)
+      if (distance > radius) continue
+
+      // Merge the current event's cluster into the earlier one
+      const own = find(j)
+      const ownLargest = largest.get(own) ?? own
+      clusterOf[own] = cluster
+      if (events[ownLargest].quake.magnitude > main.quake.magnitude) {
+        largest.set(cluster, ownLargest)
+      }
+    }
+  })
+
+  return events.map((_, index) => find(index))
+}
+
+/**
+ * Group a catalog into clusters and label the role of every event
+ * @param earthquakes Events in any order
+ * @param method Declustering algorithm
+ * @returns Labels by event id
+ */
+export function declusterCatalog(
+  earthquakes: EarthquakeData[],
+  method: DeclusteringMethod = "reasenberg",
+  parameters: ReasenbergParameters = DEFAULT_REASENBERG_PARAMETERS,
+): Record<string, ClusterLabel> {
+  const events = toCatalogEvents(earthquakes)
+  const clusterOf = method === "gardner-knopoff" ? gardnerKnopoff(events) : reasenberg(events, parameters)
+  return labelClusters(events, clusterOf)
+}
+
+/**
+ * Keep only independent events: mainshocks and events outside any cluster
+ */
+export function declusteredEarthquakes(
+  earthquakes: EarthquakeData[],
+  labels: Record<string, ClusterLabel>,
+): EarthquakeData[] {
+  return earthquakes.filter(
+    (quake) => labels[quake.id]?.role !== "foreshock" && labels[quake.id]?.role !== "aftershock",
+  )
+}
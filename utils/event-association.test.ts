@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest"
+import type { EarthquakeData } from "@/lib/api"
+import { diffEarthquakes } from "@/lib/earthquake-changes"
+import { associateEarthquakes, carryOverEventIds, isSameEvent } from "./event-association"
+
+function solution(id: string, source: EarthquakeData["source"], changes: Partial<EarthquakeData> = {}): EarthquakeData {
+  return {
+    id,
+    utc_time: "2024-03-10 08:14:03",
+    local_time: "2024-03-10 05:14:03",
+    latitude: -33.41,
+    longitude: -71.99,
+    depth: 35,
+    magnitude: 5.4,
+    scale: "Mw",
+    reference: "",
+    source,
+    ...changes,
+  }
+}
+
+const csn = solution("csn:1", "csn", { magnitude: 5.5, latitude: -33.45 })
+const usgs = solution("usgs:us7000m1ab", "usgs")
+const emsc = solution("emsc:20240310_0000081", "emsc", { magnitude: 5.3 })
+
+describe("associateEarthquakes", () => {
+  it("merges solutions of the same event under the most authoritative one", () => {
+    const [event, ...others] = associateEarthquakes([usgs, emsc, csn])
+
+    expect(others).toHaveLength(0)
+    expect(event).toMatchObject({ id: "csn:1", authoritativeSource: "csn", magnitude: 5.5 })
+    expect(event.alternates?.map((alternate) => alternate.id)).toEqual(["usgs:us7000m1ab", "emsc:20240310_0000081"])
+  })
+})
+
+describe("carryOverEventIds", () => {
+  it("keeps the id of an event whose authoritative catalog misses a refresh", () => {
+    const first = associateEarthquakes([csn, usgs, emsc])
+    const withoutCsn = carryOverEventIds(first, associateEarthquakes([usgs, emsc]))
+    const csnBack = carryOverEventIds(withoutCsn, associateEarthquakes([csn, usgs, emsc]))
+
+    expect(withoutCsn[0]).toMatchObject({ id: "csn:1", solutionId: "usgs:us7000m1ab", authoritativeSource: "usgs" })
+    expect(csnBack[0].id).toBe("csn:1")
+    expect(csnBack[0].solutionId).toBeUndefined()
+  })
+
+  it("keeps the first published id when a more authoritative catalog reports late", () => {
+    const first = associateEarthquakes([usgs])
+    const [event] = carryOverEventIds(first, associateEarthquakes([csn, usgs]))
+
+    expect(event).toMatchObject({ id: "usgs:us7000m1ab", solutionId: "csn:1", authoritativeSource: "csn" })
+  })
+
+  it("turns a change of authoritative catalog into an update rather than a deletion and a new event", () => {
+    const first = associateEarthquakes([csn, usgs])
+    const next = carryOverEventIds(first, associateEarthquakes([usgs]))
+
+    expect(diffEarthquakes(first, next).map((change) => change.type)).toEqual(["updated"])
+  })
+
+  it("leaves unrelated events alone", () => {
+    const other = solution("usgs:us7000m2cd", "usgs", { utc_time: "2024-03-10 09:30:00", latitude: -20.1 })
+    const first = associateEarthquakes([csn])
+    const next = carryOverEventIds(first, associateEarthquakes([csn, other]))
+
+    expect(next.map((quake) => quake.id)).toEqual(["usgs:us7000m2cd", "csn:1"])
+  })
+})
+
+describe("isSameEvent", () => {
+  it("matches another catalog's solution of an event, merged or not", () => {
+    const [merged] = associateEarthquakes([csn, emsc])
+    expect(isSameEvent(merged, emsc)).toBe(true)
+    expect(isSameEvent(merged, usgs)).toBe(true)
+  })
+
+  it("never matches two events of the same catalog", () => {
+    const aftershock = solution("csn:2", "csn", { utc_time: "2024-03-10 08:14:10" })
+    expect(isSameEvent(csn, aftershock)).toBe(false)
+  })
+})
@@ -0,0 +1,181 @@
+/**
+ * Association of earthquake solutions reported by different catalogs
+ * Groups records of the same physical event and builds one canonical EarthquakeData
+ */
+
+import type { EarthquakeData, EarthquakeSolution } from "@/lib/api"
+import { EARTHQUAKE_SOURCES } from "@/lib/sources"
+import { parseUtcTime } from "@/lib/sources/normalize"
+import { calcularDistanciaHaversine } from "./seismic-calculations"
+
+export interface AssociationTolerances {
+  maxTimeDifferenceSeconds: number
+  maxDistanceKm: number
+  maxMagnitudeDifference: number
+}
+
+// Typical discrepancies between CSN, USGS and EMSC solutions for Chilean events
+export const DEFAULT_ASSOCIATION_TOLERANCES: AssociationTolerances = {
+  maxTimeDifferenceSeconds: 16,
+  maxDistanceKm: 100,
+  maxMagnitudeDifference: 1.0,
+}
+
+interface Cluster {
+  members: EarthquakeData[]
+  time: number // Origin time of the first member in milliseconds
+}
+
+/**
+ * Source priority used to pick the authoritative solution (lower is more authoritative)
+ */
+function sourcePriority(quake: EarthquakeData): number {
+  return quake.source ? EARTHQUAKE_SOURCES[quake.source].priority : Number.MAX_SAFE_INTEGER
+}
+
+/**
+ * Normalized association score between two solutions, or null if they cannot be the same event
+ * A score of 0 is a perfect match and 3 is the edge of all tolerances
+ */
+function associationScore(
+  a: EarthquakeData,
+  b: EarthquakeData,
+  tolerances: AssociationTolerances,
+): number | null {
+  const dt = Math.abs(parseUtcTime(a.utc_time).getTime() - parseUtcTime(b.utc_time).getTime()) / 1000
+  if (dt > tolerances.maxTimeDifferenceSeconds) return null
+
+  const distance = calcularDistanciaHaversine(a.latitude, a.longitude, b.latitude, b.longitude)
+  if (distance > tolerances.maxDistanceKm) return null
+
+  const dm = Math.abs(a.magnitude - b.magnitude)
+  if (dm > tolerances.maxMagnitudeDifference) return null
+
+  return (
+    dt / tolerances.maxTimeDifferenceSeconds +
+    distance / tolerances.maxDistanceKm +
+    dm / tolerances.maxMagnitudeDifference
+  )
+}
+
+/**
+ * Strip an EarthquakeData record down to its per-source solution
+ */
+function toSolution(quake: EarthquakeData): EarthquakeSolution {
+  return {
+    id: quake.id,
+    source: quake.source,
+    utc_time: quake.utc_time,
+    latitude: quake.latitude,
+    longitude: quake.longitude,
+    depth: quake.depth,
+    magnitude: quake.magnitude,
+    scale: quake.scale,
+  }
+}
+
+/**
+ * Build the canonical event for a cluster from its most authoritative member
+ */
+function mergeCluster(cluster: Cluster): EarthquakeData {
+  const [authoritative, ...others] = [...cluster.members].sort((a, b) => sourcePriority(a) - sourcePriority(b))
+
+  return {
+    ...authoritative,
+    authoritativeSource: authoritative.source,
+    alternates: others.map(toSolution),
+    // Keep a human-readable reference even if the authoritative feed has none
+    reference: authoritative.reference || others.find((quake) => quake.reference)?.reference || "",
+  }
+}
+
+/**
+ * Cluster earthquakes from several catalogs into one canonical record per physical event
+ * @param earthquakes Records from any number of sources
+ * @param tolerances Maximum time, distance and magnitude differences for two records to be associated
+ * @returns Canonical events sorted by origin time, most recent first
+ */
+export function associateEarthquakes(
+  earthquakes: EarthquakeData[],
+  tolerances: AssociationTolerances = DEFAULT_ASSOCIATION_TOLERANCES,
+): EarthquakeData[] {
+  const sorted = [...earthquakes].sort(
+    (a, b) => parseUtcTime(a.utc_time).getTime() - parseUtcTime(b.utc_time).getTime(),
+  )
+  const clusters: Cluster[] = []
+
+  sorted.forEach((quake) => {
+    const time = parseUtcTime(quake.utc_time).getTime()
+    let bestCluster: Cluster | null = null
+    let bestScore = Infinity
+
+    for (const cluster of clusters) {
+      // Clusters are time-ordered, so only recent ones can match
+      if (time - cluster.time > tolerances.maxTimeDifferenceSeconds * 1000) continue
+      // A catalog never reports the same event twice
+      if (cluster.members.some((member) => member.source === quake.source)) continue
+
+      const score = associationScore(cluster.members[0], quake, tolerances)
+      if (score !== null && score < bestScore) {
+        bestScore = score
+        bestCluster = cluster
+      }
+    }
+
+    if (bestCluster) {
+      bestCluster.members.push(quake)
+    } else {
+      clusters.push({ members: [quake], time })
+    }
+  })
+
+  return clusters
+    .map(mergeCluster)
+    .sort((a, b) => parseUtcTime(b.utc_time).getTime() - parseUtcTime(a.utc_time).getTime())
+}
+
+/**
+ * Ids of every catalog solution merged into an event, and the id the event is published under
+ */
+export function getSolutionIds(quake: EarthquakeData): string[] {
+  const ids = [quake.id, ...(quake.alternates ?? []).map((alternate) => alternate.id)]
+  return quake.solutionId ? [...ids, quake.solutionId] : ids
+}
+
+/**
+ * Whether two records are solutions of the same physical event: they share a catalog solution, or they come
+ * from different catalogs and fall within the association tolerances
+ */
+export function isSameEvent(
+  a: EarthquakeData,
+  b: EarthquakeData,
+  tolerances: AssociationTolerances = DEFAULT_ASSOCIATION_TOLERANCES,
+): boolean {
+  const ids = new Set(getSolutionIds(a))
+  if (getSolutionIds(b).some((id) => ids.has(id))) return true
+  // A catalog never reports the same event twice
+  return a.source !== b.source && associationScore(a, b, tolerances) !== null
+}
+
+/**
+ * Keep the ids events were published under in the previous refresh
+ * A merged event takes the id of its authoritative solution, which changes when a catalog misses a refresh
+ * or reports late; matching events by any shared solution keeps each one under the id clients already know
+ * @param previous Canonical events from the previous refresh
+ * @param next Canonical events from this refresh
+ */
+export function carryOverEventIds(previous: EarthquakeData[], next: EarthquakeData[]): EarthquakeData[] {
+  const publishedIds = new Map<string, string>() // Solution id to the id of the event it was merged into
+  previous.forEach((quake) => getSolutionIds(quake).forEach((id) => publishedIds.set(id, quake.id)))
+  const assigned = new Set<string>()
+
+  return next.map((quake) => {
+    const id = getSolutionIds(quake)
+      .map((solutionId) => publishedIds.get(solutionId))
+      .find((publishedId) => publishedId !== undefined && !assigned.has(publishedId))
+    if (id === undefined) return quake
+
+    assigned.add(id)
+    return id === quake.id ? quake : { ...quake, id, solutionId: quake.solutionId ?? quake.id }
+  })
+}
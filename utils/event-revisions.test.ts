@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest"
+import type { EarthquakeData } from "@/lib/api"
+import { appendRevision, crossesThreshold, findRenamedHistory } from "./event-revisions"
+
+const preliminary: EarthquakeData = {
+  id: "csn:1",
+  utc_time: "2024-03-10 08:14:03",
+  local_time: "2024-03-10 05:14:03",
+  latitude: -33.45,
+  longitude: -71.99,
+  depth: 35,
+  magnitude: 5.8,
+  scale: "Ml",
+  reference: "",
+  source: "csn",
+  authoritativeSource: "csn",
+  alternates: [
+    {
+      id: "usgs:us7000m1ab",
+      source: "usgs",
+      utc_time: "2024-03-10 08:14:03",
+      latitude: -33.41,
+      longitude: -71.98,
+      depth: 38,
+      magnitude: 5.4,
+      scale: "Mww",
+    },
+  ],
+}
+
+describe("appendRevision", () => {
+  it("records a new revision only when a tracked field changes", () => {
+    const history = appendRevision([], preliminary, "2024-03-10T08:20:00Z")
+    expect(appendRevision(history, { ...preliminary }, "2024-03-10T08:21:00Z")).toBe(history)
+
+    const revised = appendRevision(history, { ...preliminary, magnitude: 5.4 }, "2024-03-10T08:25:00Z")
+    expect(revised).toHaveLength(2)
+    expect(revised[1].changes).toEqual([{ field: "magnitude", previous: 5.8, current: 5.4 }])
+  })
+})
+
+describe("findRenamedHistory", () => {
+  it("finds the history of an event that came back under another catalog's id", () => {
+    const histories = { "csn:1": appendRevision([], preliminary) }
+    const renamed: EarthquakeData = {
+      ...preliminary.alternates![0],
+      local_time: preliminary.local_time,
+      reference: "",
+      id: "usgs:us7000m1ab",
+      authoritativeSource: "usgs",
+      alternates: [],
+    }
+
+    expect(findRenamedHistory(histories, renamed)).toBe("csn:1")
+    expect(findRenamedHistory(histories, { ...renamed, id: "usgs:us7000zzzz" })).toBeNull()
+  })
+})
+
+describe("crossesThreshold", () => {
+  it("tells upgrades from downgrades across the threshold", () => {
+    expect(crossesThreshold(5.4, 5.8, 5.5)).toBe("upgrade")
+    expect(crossesThreshold(5.8, 5.4, 5.5)).toBe("downgrade")
+    expect(crossesThreshold(5.6, 5.8, 5.5)).toBeNull()
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * Revision history for earthquakes whose solution is updated after the first report
+ * e.g. a preliminary M5.4 revised to M5.9 with a relocated epicenter
+ */
+
+import type { EarthquakeData } from "@/lib/api"
+import { TRACKED_EARTHQUAKE_FIELDS } from "@/lib/earthquake-changes"
+import { getSolutionIds } from "./event-association"
+import { calcularDistanciaHaversine } from "./seismic-calculations"
+
+export interface FieldChange {
+  field: keyof EarthquakeData
+  previous: unknown
+  current: unknown
+}
+
+export interface EventRevision {
+  revision: number // 1 for the first solution received
+  receivedAt: string // ISO 8601
+  earthquake: EarthquakeData
+  changes: FieldChange[] // Empty for the first revision
+  epicenterShiftKm: number // Distance the epicenter moved from the previous revision
+}
+
+/**
+ * List the tracked fields that differ between two solutions of the same event
+ */
+export function diffRevision(previous: EarthquakeData, current: EarthquakeData): FieldChange[] {
+  return TRACKED_EARTHQUAKE_FIELDS.filter((field) => previous[field] !== current[field]).map((field) => ({
+    field,
+    previous: previous[field],
+    current: current[field],
+  }))
+}
+
+/**
+ * Append a solution to an event's history if it differs from the last revision
+ * @returns The updated history, or the same array if nothing changed
+ */
+export function appendRevision(
+  history: EventRevision[],
+  earthquake: EarthquakeData,
+  receivedAt: string = new Date().toISOString(),
+): EventRevision[] {
+  const last = history[history.length - 1]
+
+  if (!last) {
+    return [{ revision: 1, receivedAt, earthquake, changes: [], epicenterShiftKm: 0 }]
+  }
+
+  const changes = diffRevision(last.earthquake, earthquake)
+  if (changes.length === 0) return history
+
+  return [
+    ...history,
+    {
+      revision: last.revision + 1,
+      receivedAt,
+      earthquake,
+      changes,
+      epicenterShiftKm: calcularDistanciaHaversine(
+        last.earthquake.latitude,
+        last.earthquake.longitude,
+        earthquake.latitude,
+        earthquake.longitude,
+      ),
+    },
+  ]
+}
+
+/**
+ * Find the history of an event recorded under another id
+ * An event can come back under a different id, e.g. the id of another catalog's solution when the server
+ * restarts while its authoritative catalog is down; any solution shared with the last revision identifies it
+ * @returns The id the history is recorded under, or null if the event has no history under another id
+ */
+export function findRenamedHistory(
+  histories: Record<string, EventRevision[]>,
+  earthquake: EarthquakeData,
+): string | null {
+  const solutionIds = new Set(getSolutionIds(earthquake))
+
+  for (const [id, history] of Object.entries(histories)) {
+    if (id === earthquake.id) continue
+    const last = history[history.length - 1]
+    if (last && getSolutionIds(last.earthquake).some((solutionId) => solutionIds.has(solutionId))) return id
+  }
+  return null
+}
+
+/**
+ * Check whether a magnitude revision crosses an alert threshold
+ * @returns "upgrade" if it rose to or above the threshold, "downgrade" if it fell below it, otherwise null
+ */
+export function crossesThreshold(
+  previousMagnitude: number,
+  currentMagnitude: number,
+  threshold: number,
+): "upgrade" | "downgrade" | null {
+  if (previousMagnitude < threshold && currentMagnitude >= threshold) return "upgrade"
+  if (previousMagnitude >= threshold && currentMagnitude < threshold) return "downgrade"
+  return null
+}
+
+/**
+ * Describe a revision's changes in Spanish for display
+ */
+export function describeRevision(revision: EventRevision): string[] {
+  const descriptions: string[] = []
+
+  revision.changes.forEach(({ field, previous, current }) => {
+    switch (field) {
+      case "magnitude":
+        descriptions.push(`Magnitud ${previous} → ${current}`)
+        break
+      case "depth":
+        descriptions.push(`Profundidad ${previous} km → ${current} km`)
+        break
+      case "scale":
+        descriptions.push(`Escala ${previous || "—"} → ${current}`)
+        break
+      case "utc_time":
+        descriptions.push("Hora de origen corregida")
+        break
+      case "reference":
+        descriptions.push(`Referencia: ${current}`)
+        break
+      case "evaluationStatus":
+        descriptions.push(`Estado: ${current}`)
+        break
+    }
+  })
+
+  if (revision.epicenterShiftKm >= 1) {
+    descriptions.push(`Epicentro desplazado ${Math.round(revision.epicenterShiftKm)} km`)
+  }
+
+  return descriptions
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import { fromLocal, ruptureDistances, type FaultRupture } from "./finite-fault"
+
+// Fault striking north and dipping 45° east, with the hypocenter on its upper edge at 10 km
+const rupture: FaultRupture = {
+  latitude: -33,
+  longitude: -72,
+  depthKm: 10,
+  magnitude: 7,
+  lengthKm: 100,
+  widthKm: 40,
+  strike: 0,
+  dip: 45,
+  topDepthKm: 10,
+  hypocenterDownDipKm: 0,
+}
+
+function distancesAt(eastKm: number, northKm = 0) {
+  const [latitude, longitude] = fromLocal(rupture.latitude, rupture.longitude, eastKm, northKm)
+  return ruptureDistances(rupture, latitude, longitude)
+}
+
+describe("ruptureDistances", () => {
+  it("reduces to hypocentral and epicentral distances for a point source", () => {
+    const point = { ...rupture, lengthKm: 1e-6, widthKm: 1e-6, depthKm: 30, topDepthKm: 30 }
+    const [latitude, longitude] = fromLocal(point.latitude, point.longitude, 30, 40)
+    const distances = ruptureDistances(point, latitude, longitude)
+
+    expect(distances.rRupKm).toBeCloseTo(Math.hypot(50, 30), 3)
+    expect(distances.rJbKm).toBeCloseTo(50, 3)
+    expect(distances.rHypoKm).toBeCloseTo(Math.hypot(50, 30), 3)
+  })
+
+  it("measures sites on the hanging wall to the plane below them", () => {
+    const distances = distancesAt(14)
+
+    expect(distances.rJbKm).toBeCloseTo(0, 6)
+    expect(distances.rRupKm).toBeCloseTo(24 / Math.SQRT2, 3)
+  })
+
+  it("measures sites on the footwall to the upper edge", () => {
+    const distances = distancesAt(-20)
+
+    expect(distances.rJbKm).toBeCloseTo(20, 3)
+    expect(distances.rRupKm).toBeCloseTo(Math.hypot(20, 10), 3)
+  })
+
+  it("measures sites beyond the ends of the rupture to its nearest corner", () => {
+    const distances = distancesAt(-20, 80)
+
+    expect(distances.rJbKm).toBeCloseTo(Math.hypot(20, 30), 3)
+    expect(distances.rRupKm).toBeCloseTo(Math.hypot(20, 30, 10), 3)
+  })
+})
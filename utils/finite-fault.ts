@@ -0,0 +1,231 @@
+/**
+ * Finite-fault rupture geometry and source-to-site distances
+ * A great earthquake ruptures hundreds of kilometers of fault, so distances to its epicenter understate
+ * shaking along strike. The rupture is modeled as a rectangle scaled with magnitude and oriented with the slab.
+ */
+
+import type { EarthquakeData } from "@/lib/api"
+import { getSlabDepth, getTrenchLongitude } from "@/lib/slab-geometry"
+import type { EventType, SourceDistances } from "./ground-motion"
+
+export interface FaultRupture {
+  latitude: number // Epicenter
+  longitude: number
+  depthKm: number // Hypocentral depth
+  magnitude: number // Moment magnitude
+  lengthKm: number // Along strike
+  widthKm: number // Down dip
+  strike: number // Degrees clockwise from north, with the fault dipping to the right
+  dip: number // Degrees from horizontal
+  topDepthKm: number // Depth of the upper edge
+  hypocenterDownDipKm: number // Distance of the hypocenter below the upper edge, along dip
+}
+
+interface ScalingRelation {
+  length: [number, number] // log10 L = a + b Mw
+  width: [number, number] // log10 W = a + b Mw
+}
+
+// Strasser et al. (2010) for subduction events, Wells & Coppersmith (1994) for crustal faults
+const SCALING: Record<EventType, ScalingRelation> = {
+  interface: { length: [-2.477, 0.585], width: [-0.882, 0.351] },
+  intraslab: { length: [-2.35, 0.562], width: [-1.058, 0.356] },
+  crustal: { length: [-2.44, 0.59], width: [-1.01, 0.32] },
+}
+
+// Depth range that can rupture, in km; widths are capped so the rupture fits within it
+const SEISMOGENIC_DEPTHS: Record<EventType, { top: number; bottom: number }> = {
+  interface: { top: 5, bottom: 55 },
+  intraslab: { top: 0, bottom: 700 },
+  crustal: { top: 0, bottom: 20 },
+}
+
+// Dips used when the slab geometry says nothing: intraslab and crustal faults do not follow the slab
+const DEFAULT_DIPS: Record<EventType, number> = {
+  interface: 20,
+  intraslab: 60,
+  crustal: 60,
+}
+
+const KM_PER_DEGREE = 111.195
+const DEG = Math.PI / 180
+
+/**
+ * Offset of a point from an origin in km, east and north, on a local flat projection
+ */
+function toLocal(originLatitude: number, originLongitude: number, latitude: number, longitude: number) {
+  return {
+    x: (longitude - originLongitude) * KM_PER_DEGREE * Math.cos(originLatitude * DEG),
+    y: (latitude - originLatitude) * KM_PER_DEGREE,
+  }
+}
+
+/**
+ * Point at an offset in km east and north of an origin, inverting toLocal
+ */
+export function fromLocal(originLatitude: number, originLongitude: number, x: number, y: number): [number, number] {
+  return [originLatitude + y / KM_PER_DEGREE, originLongitude + x / (KM_PER_DEGREE * Math.cos(originLatitude * DEG))]
+}
+
+/**
+ * Strike of the trench near a latitude, with the slab dipping to the right (east)
+ * @returns Degrees clockwise from north, or null outside the mapped trench
+ */
+function getTrenchStrike(latitude: number): number | null {
+  const south = getTrenchLongitude(latitude - 0.5)
+  const north = getTrenchLongitude(latitude + 0.5)
+  if (south === null || north === null) return null
+
+  const { x, y } = toLocal(latitude - 0.5, south, latitude + 0.5, north)
+  return (Math.atan2(x, y) / DEG + 360) % 360
+}
+
+/**
+ * Dip of the slab surface below a point, from the depth gradient across strike
+ * @returns Degrees, or null where the slab is not mapped
+ */
+function getSlabDip(latitude: number, longitude: number, strike: number): number | null {
+  const offsetKm = 25
+  const dipDirection = (strike + 90) * DEG
+  const [updipLatitude, updipLongitude] = fromLocal(
+    latitude,
+    longitude,
+    -offsetKm * Math.sin(dipDirection),
+    -offsetKm * Math.cos(dipDirection),
+  )
+  const [downdipLatitude, downdipLongitude] = fromLocal(
+    latitude,
+    longitude,
+    offsetKm * Math.sin(dipDirection),
+    offsetKm * Math.cos(dipDirection),
+  )
+
+  const updip = getSlabDepth(updipLatitude, updipLongitude)
+  const downdip = getSlabDepth(downdipLatitude, downdipLongitude)
+  if (updip === null || downdip === null || downdip <= updip) return null
+  return Math.atan((downdip - updip) / (2 * offsetKm)) / DEG
+}
+
+/**
+ * Estimate the rupture of an earthquake from its magnitude and the slab geometry
+ * Faults strike parallel to the trench; interface ruptures dip with the slab. The hypocenter sits at the
+ * middle of the rupture, unless that would push the rupture out of the seismogenic depth range.
+ * @param origin Epicenter and hypocentral depth
+ * @param magnitude Moment magnitude
+ * @param type Tectonic type of the event
+ */
+export function estimateRupture(
+  origin: Pick<EarthquakeData, "latitude" | "longitude" | "depth">,
+  magnitude: number,
+  type: EventType,
+): FaultRupture {
+  const strike = getTrenchStrike(origin.latitude) ?? 0
+  const slabDip = type === "interface" ? getSlabDip(origin.latitude, origin.longitude, strike) : null
+  const dip = slabDip !== null ? Math.min(45, Math.max(5, slabDip)) : DEFAULT_DIPS[type]
+
+  const { length, width } = SCALING[type]
+  const depths = SEISMOGENIC_DEPTHS[type]
+  const sinDip = Math.sin(dip * DEG)
+  const widthKm = Math.min(10 ** (width[0] + width[1] * magnitude), (depths.bottom - depths.top) / sinDip)
+  const lengthKm = Math.max(10 ** (length[0] + length[1] * magnitude), widthKm)
+
+  // The rupture always contains the hypocenter, even when that is outside the seismogenic range
+  const centeredTop = origin.depth - (widthKm / 2) * sinDip
+  const top = Math.min(Math.max(centeredTop, depths.top), depths.bottom - widthKm * sinDip)
+  const hypocenterDownDipKm = Math.min(widthKm, Math.max(0, (origin.depth - top) / sinDip))
+
+  return {
+    latitude: origin.latitude,
+    longitude: origin.longitude,
+    depthKm: origin.depth,
+    magnitude,
+    lengthKm,
+    widthKm,
+    strike,
+    dip,
+    topDepthKm: origin.depth - hypocenterDownDipKm * sinDip,
+    hypocenterDownDipKm,
+  }
+}
+
+/**
+ * Unit vectors of the rupture plane in local coordinates (east, north, down) and the middle of its upper edge
+ */
+function ruptureFrame(rupture: FaultRupture) {
+  const strike = rupture.strike * DEG
+  const dip = rupture.dip * DEG
+  const alongStrike = { x: Math.sin(strike), y: Math.cos(strike), z: 0 }
+  const downDip = { x: Math.cos(strike) * Math.cos(dip), y: -Math.sin(strike) * Math.cos(dip), z: Math.sin(dip) }
+  const top = {
+    x: -rupture.hypocenterDownDipKm * downDip.x,
+    y: -rupture.hypocenterDownDipKm * downDip.y,
+    z: rupture.topDepthKm,
+  }
+  return { alongStrike, downDip, top }
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/**
+ * Rupture, Joyner-Boore and hypocentral distances from a site to a rupture
+ */
+export function ruptureDistances(rupture: FaultRupture, latitude: number, longitude: number): SourceDistances {
+  const site = toLocal(rupture.latitude, rupture.longitude, latitude, longitude)
+  const { alongStrike, downDip, top } = ruptureFrame(rupture)
+  const relative = { x: site.x - top.x, y: site.y - top.y, z: -top.z }
+
+  // Closest point of the plane: the site's coordinates within it, clamped to the rectangle
+  const along = clamp(
+    relative.x * alongStrike.x + relative.y * alongStrike.y,
+    -rupture.lengthKm / 2,
+    rupture.lengthKm / 2,
+  )
+  const down = clamp(relative.x * downDip.x + relative.y * downDip.y + relative.z * downDip.z, 0, rupture.widthKm)
+  const rRupKm = Math.hypot(
+    relative.x - along * alongStrike.x - down * downDip.x,
+    relative.y - along * alongStrike.y - down * downDip.y,
+    relative.z - down * downDip.z,
+  )
+
+  // Same on the surface projection, whose down-dip extent shrinks with the dip
+  const horizontal = Math.hypot(downDip.x, downDip.y)
+  const across = (relative.x * downDip.x + relative.y * downDip.y) / horizontal
+  const alongOffset = relative.x * alongStrike.x + relative.y * alongStrike.y
+  const rJbKm = Math.hypot(
+    alongOffset - clamp(alongOffset, -rupture.lengthKm / 2, rupture.lengthKm / 2),
+    across - clamp(across, 0, rupture.widthKm * horizontal),
+  )
+
+  const epicentralKm = Math.hypot(site.x, site.y)
+  return { rRupKm, rJbKm, rHypoKm: Math.hypot(epicentralKm, rupture.depthKm) }
+}
+
+/**
+ * Corners of the surface projection of a rupture, as [latitude, longitude]
+ */
+export function getRuptureOutline(rupture: FaultRupture): [number, number][] {
+  const { alongStrike, downDip, top } = ruptureFrame(rupture)
+  const halfLength = rupture.lengthKm / 2
+  const corner = (along: number, down: number) =>
+    fromLocal(
+      rupture.latitude,
+      rupture.longitude,
+      top.x + along * alongStrike.x + down * downDip.x,
+      top.y + along * alongStrike.y + down * downDip.y,
+    )
+  return [
+    corner(-halfLength, 0),
+    corner(halfLength, 0),
+    corner(halfLength, rupture.widthKm),
+    corner(-halfLength, rupture.widthKm),
+  ]
+}
+
+/**
+ * Center of the surface projection of a rupture, as [latitude, longitude]
+ */
+export function getRuptureCenter(rupture: FaultRupture): [number, number] {
+  const { downDip, top } = ruptureFrame(rupture)
+  const halfWidth = rupture.widthKm / 2
+  return fromLocal(rupture.latitude, rupture.longitude, top.x + halfWidth * downDip.x, top.y + halfWidth * downDip.y)
+}
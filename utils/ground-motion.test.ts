@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { predictGroundMotion, SPECTRAL_PERIODS, type GroundMotionInput } from "./ground-motion"
+
+const crustal: GroundMotionInput = {
+  magnitude: 6.5,
+  type: "crustal",
+  depthKm: 10,
+  rRupKm: 12,
+  rJbKm: 10,
+  rHypoKm: 14,
+  vs30: 760,
+}
+
+describe("predictGroundMotion", () => {
+  it("predicts spectral accelerations at every period for crustal events", () => {
+    const { pga, sa, model } = predictGroundMotion(crustal)
+
+    expect(model).toBe("Boore & Atkinson (2008)")
+    SPECTRAL_PERIODS.forEach((period) => expect(sa[period]).toBeGreaterThan(0))
+    // Typical response spectrum shape: amplified at short periods, decaying at long ones
+    expect(sa[0.2]!).toBeGreaterThan(pga)
+    expect(sa[1.0]!).toBeLessThan(sa[0.2]!)
+  })
+
+  it("amplifies crustal spectral accelerations on soft soil", () => {
+    const rock = predictGroundMotion(crustal)
+    const soil = predictGroundMotion({ ...crustal, vs30: 250 })
+
+    SPECTRAL_PERIODS.forEach((period) => expect(soil.sa[period]!).toBeGreaterThan(rock.sa[period]!))
+  })
+
+  it("predicts spectral accelerations for subduction events", () => {
+    const { sa } = predictGroundMotion({ ...crustal, magnitude: 8, type: "interface", depthKm: 25, rRupKm: 60 })
+
+    SPECTRAL_PERIODS.forEach((period) => expect(sa[period]).toBeGreaterThan(0))
+  })
+})
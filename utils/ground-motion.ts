@@ -0,0 +1,404 @@
+/**
+ * Ground-motion prediction equations (GMPEs) for Chilean earthquakes
+ * Subduction interface and intraslab events use the BC Hydro model (Abrahamson, Gregor & Addo, 2016),
+ * whose functional form Montalva et al. (2017) validated against Chilean records.
+ * Shallow crustal events use Boore & Atkinson (2008).
+ */
+
+export type EventType = "interface" | "intraslab" | "crustal"
+
+// Periods in seconds with spectral acceleration coefficients
+export type SpectralPeriod = 0.1 | 0.2 | 0.3 | 0.5 | 1.0
+export const SPECTRAL_PERIODS: SpectralPeriod[] = [0.1, 0.2, 0.3, 0.5, 1.0]
+
+export interface GroundMotionInput {
+  magnitude: number // Moment magnitude
+  type: EventType
+  depthKm: number // Hypocentral depth
+  rRupKm: number // Closest distance to the rupture
+  rJbKm: number // Joyner-Boore distance, closest distance to the surface projection of the rupture
+  rHypoKm: number // Hypocentral distance
+  vs30: number // Time-averaged shear-wave velocity of the top 30 m, in m/s
+}
+
+export type SourceDistances = Pick<GroundMotionInput, "rRupKm" | "rJbKm" | "rHypoKm">
+
+export interface GroundMotion {
+  pga: number // Median peak ground acceleration, in g
+  pgv: number // Median peak ground velocity, in cm/s
+  sa: Partial<Record<SpectralPeriod, number>> // Median 5%-damped spectral acceleration, in g
+  sigma: number // Total standard deviation, natural log units
+  model: string
+}
+
+interface BcHydroCoefficients {
+  vlin: number
+  b: number
+  theta1: number
+  theta2: number
+  theta6: number
+  theta10: number
+  theta11: number
+  theta12: number
+  theta13: number
+  theta14: number
+  deltaC1Interface: number
+}
+
+// Abrahamson et al. (2016), Table 3, forearc sites (backarc terms omitted)
+const BC_HYDRO: Record<"pga" | SpectralPeriod, BcHydroCoefficients> = {
+  pga: {
+    vlin: 865.1,
+    b: -1.186,
+    theta1: 4.2203,
+    theta2: -1.35,
+    theta6: -0.0012,
+    theta10: 3.12,
+    theta11: 0.013,
+    theta12: 0.98,
+    theta13: -0.0135,
+    theta14: -0.4,
+    deltaC1Interface: 0.2,
+  },
+  0.1: {
+    vlin: 1032.5,
+    b: -1.624,
+    theta1: 5.2892,
+    theta2: -1.45,
+    theta6: -0.0012,
+    theta10: 3.33,
+    theta11: 0.013,
+    theta12: 1.613,
+    theta13: -0.0145,
+    theta14: -0.4,
+    deltaC1Interface: 0.2,
+  },
+  0.2: {
+    vlin: 748.2,
+    b: -2.188,
+    theta1: 5.2684,
+    theta2: -1.4,
+    theta6: -0.0018,
+    theta10: 3.03,
+    theta11: 0.0129,
+    theta12: 2.076,
+    theta13: -0.0162,
+    theta14: -0.35,
+    deltaC1Interface: 0.2,
+  },
+  0.3: {
+    vlin: 587.1,
+    b: -2.518,
+    theta1: 4.7945,
+    theta2: -1.28,
+    theta6: -0.0027,
+    theta10: 2.59,
+    theta11: 0.0128,
+    theta12: 2.348,
+    theta13: -0.0183,
+    theta14: -0.28,
+    deltaC1Interface: 0.2,
+  },
+  0.5: {
+    vlin: 456.6,
+    b: -2.669,
+    theta1: 4.0181,
+    theta2: -1.08,
+    theta6: -0.0044,
+    theta10: 1.92,
+    theta11: 0.0125,
+    theta12: 2.399,
+    theta13: -0.0231,
+    theta14: -0.19,
+    deltaC1Interface: 0.1,
+  },
+  1.0: {
+    vlin: 400.0,
+    b: -1.955,
+    theta1: 2.7981,
+    theta2: -0.85,
+    theta6: -0.0062,
+    theta10: 1.1,
+    theta11: 0.0114,
+    theta12: 1.47,
+    theta13: -0.0363,
+    theta14: -0.07,
+    deltaC1Interface: 0,
+  },
+}
+
+// Period-independent BC Hydro constants
+const BC_HYDRO_C1 = 7.8
+const BC_HYDRO_DELTA_C1_SLAB = -0.3
+const BC_HYDRO_C4 = 10
+const BC_HYDRO_N = 1.18
+const BC_HYDRO_C = 1.88
+const BC_HYDRO_THETA3 = 0.1
+const BC_HYDRO_THETA4 = 0.9
+const BC_HYDRO_THETA5 = 0
+const BC_HYDRO_THETA9 = 0.4
+const BC_HYDRO_SIGMA = 0.74
+
+/**
+ * BC Hydro median in natural log units
+ * @param pga1000 Median PGA on Vs30 = 1000 m/s rock, for the nonlinear site term
+ */
+function bcHydroLn(coefficients: BcHydroCoefficients, input: GroundMotionInput, pga1000: number): number {
+  const slab = input.type === "intraslab" ? 1 : 0
+  const deltaC1 = slab ? BC_HYDRO_DELTA_C1_SLAB : coefficients.deltaC1Interface
+  const { magnitude } = input
+  const distance = slab ? input.rHypoKm : input.rRupKm
+
+  const magnitudeBreak = BC_HYDRO_C1 + deltaC1
+  const fMagnitude =
+    (magnitude <= magnitudeBreak ? BC_HYDRO_THETA4 : BC_HYDRO_THETA5) * (magnitude - magnitudeBreak) +
+    coefficients.theta13 * (10 - magnitude) ** 2
+
+  const fDistance =
+    (coefficients.theta2 + coefficients.theta14 * slab + BC_HYDRO_THETA3 * (magnitude - BC_HYDRO_C1)) *
+      Math.log(distance + BC_HYDRO_C4 * Math.exp(BC_HYDRO_THETA9 * (magnitude - 6))) +
+    coefficients.theta6 * distance
+
+  const fDepth = coefficients.theta11 * (Math.min(input.depthKm, 120) - 60) * slab
+
+  const vs = Math.min(input.vs30, 1000)
+  const ratio = Math.log(vs / coefficients.vlin)
+  const fSite =
+    vs >= coefficients.vlin
+      ? coefficients.theta12 * ratio + coefficients.b * BC_HYDRO_N * ratio
+      : coefficients.theta12 * ratio -
+        coefficients.b * Math.log(pga1000 + BC_HYDRO_C) +
+        coefficients.b * Math.log(pga1000 + BC_HYDRO_C * (vs / coefficients.vlin) ** BC_HYDRO_N)
+
+  return (
+    coefficients.theta1 +
+    BC_HYDRO_THETA4 * deltaC1 +
+    fMagnitude +
+    fDistance +
+    coefficients.theta10 * slab +
+    fDepth +
+    fSite
+  )
+}
+
+/**
+ * Subduction interface and intraslab ground motion
+ * PGV follows from SA(0.5 s) with the Bommer & Alarcón (2006) relation, since BC Hydro does not predict it
+ */
+function predictSubduction(input: GroundMotionInput): GroundMotion {
+  const pga1000 = Math.exp(bcHydroLn(BC_HYDRO.pga, { ...input, vs30: 1000 }, 0))
+
+  const sa: Partial<Record<SpectralPeriod, number>> = {}
+  SPECTRAL_PERIODS.forEach((period) => {
+    sa[period] = Math.exp(bcHydroLn(BC_HYDRO[period], input, pga1000))
+  })
+
+  return {
+    pga: Math.exp(bcHydroLn(BC_HYDRO.pga, input, pga1000)),
+    pgv: (sa[0.5]! * 981) / 20,
+    sa,
+    sigma: BC_HYDRO_SIGMA,
+    model: "BC Hydro (2016)",
+  }
+}
+
+interface Ba08Coefficients {
+  c1: number
+  c2: number
+  c3: number
+  h: number
+  e1: number
+  e5: number
+  e6: number
+  e7: number
+  mh: number
+  blin: number
+  b1: number
+  b2: number
+  sigma: number
+}
+
+// Boore & Atkinson (2008), Tables 6 to 8, unspecified mechanism
+const BA08: Record<"pga" | "pgv" | SpectralPeriod, Ba08Coefficients> = {
+  pga: {
+    c1: -0.6605,
+    c2: 0.1197,
+    c3: -0.01151,
+    h: 1.35,
+    e1: -0.53804,
+    e5: 0.28805,
+    e6: -0.10164,
+    e7: 0,
+    mh: 6.75,
+    blin: -0.36,
+    b1: -0.64,
+    b2: -0.14,
+    sigma: 0.564,
+  },
+  pgv: {
+    c1: -0.8737,
+    c2: 0.1006,
+    c3: -0.00334,
+    h: 2.54,
+    e1: 5.00121,
+    e5: 0.18322,
+    e6: -0.12736,
+    e7: 0,
+    mh: 8.5,
+    blin: -0.6,
+    b1: -0.5,
+    b2: -0.06,
+    sigma: 0.56,
+  },
+  0.1: {
+    c1: -0.7081,
+    c2: 0.1117,
+    c3: -0.01151,
+    h: 1.68,
+    e1: 0.20109,
+    e5: 0.04697,
+    e6: -0.15948,
+    e7: 0,
+    mh: 6.75,
+    blin: -0.25,
+    b1: -0.6,
+    b2: -0.13,
+    sigma: 0.608,
+  },
+  0.2: {
+    c1: -0.583,
+    c2: 0.04273,
+    c3: -0.00952,
+    h: 1.98,
+    e1: 0.5718,
+    e5: 0.52729,
+    e6: -0.12964,
+    e7: 0.00102,
+    mh: 6.75,
+    blin: -0.31,
+    b1: -0.52,
+    b2: -0.19,
+    sigma: 0.596,
+  },
+  0.3: {
+    c1: -0.5543,
+    c2: 0.01955,
+    c3: -0.0075,
+    h: 2.14,
+    e1: 0.43825,
+    e5: 0.64472,
+    e6: -0.15694,
+    e7: 0.10601,
+    mh: 6.75,
+    blin: -0.44,
+    b1: -0.52,
+    b2: -0.14,
+    sigma: 0.608,
+  },
+  0.5: {
+    c1: -0.6914,
+    c2: 0.0608,
+    c3: -0.0054,
+    h: 2.32,
+    e1: 0.18957,
+    e5: 0.76837,
+    e6: -0.09054,
+    e7: 0,
+    mh: 6.75,
+    blin: -0.6,
+    b1: -0.5,
+    b2: -0.06,
+    sigma: 0.615,
+  },
+  1.0: {
+    c1: -0.8183,
+    c2: 0.1027,
+    c3: -0.00334,
+    h: 2.54,
+    e1: -0.46896,
+    e5: 0.6788,
+    e6: -0.18257,
+    e7: 0.05393,
+    mh: 6.75,
+    blin: -0.7,
+    b1: -0.44,
+    b2: 0,
+    sigma: 0.647,
+  },
+}
+
+// Boore & Atkinson (2008) site term constants
+const BA08_VREF = 760
+const BA08_V1 = 180
+const BA08_V2 = 300
+const BA08_A1 = 0.03
+const BA08_A2 = 0.09
+const BA08_PGA_LOW = 0.06
+
+/**
+ * Boore & Atkinson (2008) median in natural log units, without the site term when vs30 is the reference velocity
+ */
+function ba08Ln(coefficients: Ba08Coefficients, input: GroundMotionInput, pga4nl: number): number {
+  const { magnitude } = input
+  const r = Math.sqrt(input.rJbKm ** 2 + coefficients.h ** 2)
+  const fDistance = (coefficients.c1 + coefficients.c2 * (magnitude - 4.5)) * Math.log(r) + coefficients.c3 * (r - 1)
+
+  const dm = magnitude - coefficients.mh
+  const fMagnitude =
+    magnitude <= coefficients.mh
+      ? coefficients.e1 + coefficients.e5 * dm + coefficients.e6 * dm * dm
+      : coefficients.e1 + coefficients.e7 * dm
+
+  const vs30 = input.vs30
+  const fLinear = coefficients.blin * Math.log(vs30 / BA08_VREF)
+
+  let bnl = 0
+  if (vs30 <= BA08_V1) bnl = coefficients.b1
+  else if (vs30 <= BA08_V2)
+    bnl =
+      ((coefficients.b1 - coefficients.b2) * Math.log(vs30 / BA08_V2)) / Math.log(BA08_V1 / BA08_V2) + coefficients.b2
+  else if (vs30 < BA08_VREF) bnl = (coefficients.b2 * Math.log(vs30 / BA08_VREF)) / Math.log(BA08_V2 / BA08_VREF)
+
+  let fNonlinear: number
+  if (pga4nl <= BA08_A1) {
+    fNonlinear = bnl * Math.log(BA08_PGA_LOW / 0.1)
+  } else if (pga4nl <= BA08_A2) {
+    const dx = Math.log(BA08_A2 / BA08_A1)
+    const dy = bnl * Math.log(BA08_A2 / BA08_PGA_LOW)
+    const c = (3 * dy - bnl * dx) / dx ** 2
+    const d = -(2 * dy - bnl * dx) / dx ** 3
+    const x = Math.log(pga4nl / BA08_A1)
+    fNonlinear = bnl * Math.log(BA08_PGA_LOW / 0.1) + c * x ** 2 + d * x ** 3
+  } else {
+    fNonlinear = bnl * Math.log(pga4nl / 0.1)
+  }
+
+  return fMagnitude + fDistance + fLinear + fNonlinear
+}
+
+/**
+ * Shallow crustal ground motion
+ */
+function predictCrustal(input: GroundMotionInput): GroundMotion {
+  const pga4nl = Math.exp(ba08Ln(BA08.pga, { ...input, vs30: BA08_VREF }, 0))
+
+  const sa: Partial<Record<SpectralPeriod, number>> = {}
+  SPECTRAL_PERIODS.forEach((period) => {
+    sa[period] = Math.exp(ba08Ln(BA08[period], input, pga4nl))
+  })
+
+  return {
+    pga: Math.exp(ba08Ln(BA08.pga, input, pga4nl)),
+    pgv: Math.exp(ba08Ln(BA08.pgv, input, pga4nl)),
+    sa,
+    sigma: BA08.pga.sigma,
+    model: "Boore & Atkinson (2008)",
+  }
+}
+
+/**
+ * Predict median ground motion at a site
+ */
+export function predictGroundMotion(input: GroundMotionInput): GroundMotion {
+  return input.type === "crustal" ? predictCrustal(input) : predictSubduction(input)
+}
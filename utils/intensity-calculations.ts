@@ -1,72 +1,177 @@
 /**
  * Utility functions for estimating local seismic intensity
- * Specialized for Chilean territory with regional adjustments
+ * Ground motion comes from the GMPEs in ./ground-motion and is converted to Mercalli intensity
  */
 
-import { regionToMacroZone } from "./seismic-calculations"
+import { fromLocal, getRuptureCenter, ruptureDistances, type FaultRupture } from "./finite-fault"
+import { predictGroundMotion, type EventType, type SourceDistances } from "./ground-motion"
+import { VS30_POR_DEFECTO } from "./site-response"
 
-type MacroZone = "norte" | "centro" | "sur" | "austral"
-type RegionCode = string // Chilean administrative region codes
-type SoilType = "roca" | "suelo_firme" | "suelo_blando" | "relleno" | "arenoso" | "arcilloso" | "aluvial" | "volcánico"
+// One-sigma scatter of observed intensities around the estimate, in intensity units:
+// GMPE aleatory variability plus the scatter of the ground motion to intensity conversion
+export const DESVIACION_INTENSIDAD = 1.0
 
-interface RegionalCoefficients {
-  a: number
-  b: number
-  c: number
+interface ConversionCoefficients {
+  c1: number
+  c2: number
+  c3: number
+  c4: number
+  t1: number
 }
 
-// Regional attenuation coefficients based on CSN studies
-const coeficientesRegionales: Record<MacroZone, RegionalCoefficients> = {
-  norte: { a: 1.48, b: 0.48, c: 0.0065 },
-  centro: { a: 1.52, b: 0.52, c: 0.007 },
-  sur: { a: 1.55, b: 0.55, c: 0.0075 },
-  austral: { a: 1.5, b: 0.5, c: 0.0068 },
+// Worden et al. (2012) bilinear ground motion to intensity conversion equations
+const CONVERSION_PGA: ConversionCoefficients = { c1: 1.78, c2: 1.55, c3: -1.6, c4: 3.7, t1: 1.57 }
+const CONVERSION_PGV: ConversionCoefficients = { c1: 3.78, c2: 1.47, c3: 2.89, c4: 3.16, t1: 0.53 }
+
+const GRAVEDAD_CM_S2 = 980.665
+
+function convertirIntensidad(valor: number, { c1, c2, c3, c4, t1 }: ConversionCoefficients): number {
+  const logValor = Math.log10(Math.max(valor, 1e-6))
+  return logValor <= t1 ? c1 + c2 * logValor : c3 + c4 * logValor
 }
 
-// Soil amplification factors
-const factoresSuelo: Record<SoilType, number> = {
-  roca: 1.0,
-  suelo_firme: 1.2,
-  suelo_blando: 1.6,
-  relleno: 2.0,
-  arenoso: 1.8,
-  arcilloso: 1.7,
-  aluvial: 1.9,
-  volcánico: 1.5,
+/**
+ * Mercalli intensity from peak ground acceleration
+ * @param pga Peak ground acceleration in g
+ */
+export function intensidadDesdePGA(pga: number): number {
+  return convertirIntensidad(pga * GRAVEDAD_CM_S2, CONVERSION_PGA)
+}
+
+/**
+ * Mercalli intensity from peak ground velocity
+ * @param pgv Peak ground velocity in cm/s
+ */
+export function intensidadDesdePGV(pgv: number): number {
+  return convertirIntensidad(pgv, CONVERSION_PGV)
+}
+
+/**
+ * Mercalli intensity from PGA and PGV
+ * PGA controls low intensities and PGV high ones, with a linear blend between V and VII (Wald et al., 1999)
+ * @param pga Peak ground acceleration in g
+ * @param pgv Peak ground velocity in cm/s
+ */
+export function intensidadDesdeMovimiento(pga: number, pgv: number): number {
+  const porPGA = intensidadDesdePGA(pga)
+  const porPGV = intensidadDesdePGV(pgv)
+  if (porPGA < 5) return porPGA
+  if (porPGA >= 7) return porPGV
+  const peso = (porPGA - 5) / 2
+  return porPGA * (1 - peso) + porPGV * peso
+}
+
+/**
+ * Estimate local seismic intensity as a continuous value, before rounding to a Mercalli degree
+ * @param magnitud Earthquake moment magnitude
+ * @param profundidadKm Earthquake depth in kilometers
+ * @param distancias Distances from the rupture to the location, in kilometers
+ * @param vs30 Vs30 at the location in m/s, which sets the site amplification
+ * @param tipoEvento Tectonic type of the event, which selects the ground-motion model
+ */
+export function estimarIntensidadContinua(
+  magnitud: number,
+  profundidadKm: number,
+  distancias: SourceDistances,
+  vs30: number,
+  tipoEvento: EventType,
+): number {
+  const movimiento = predictGroundMotion({
+    magnitude: magnitud,
+    type: tipoEvento,
+    depthKm: profundidadKm,
+    ...distancias,
+    vs30,
+  })
+
+  return intensidadDesdeMovimiento(movimiento.pga, movimiento.pgv)
 }
 
 /**
  * Estimate local seismic intensity based on earthquake parameters and location
- * @param magnitud Earthquake magnitude
+ * @param magnitud Earthquake moment magnitude
  * @param profundidadKm Earthquake depth in kilometers
- * @param distanciaKm Distance from epicenter in kilometers
- * @param tipoSuelo Soil type at the location
- * @param regionUsuario User's administrative region code
+ * @param distancias Distances from the rupture to the location, in kilometers
+ * @param vs30 Vs30 at the location in m/s, which sets the site amplification
+ * @param tipoEvento Tectonic type of the event, which selects the ground-motion model
  * @returns Estimated intensity on the Modified Mercalli scale (I-XII)
  */
 export function estimarIntensidadLocal(
   magnitud: number,
   profundidadKm: number,
-  distanciaKm: number,
-  tipoSuelo: SoilType,
-  regionUsuario: RegionCode,
+  distancias: SourceDistances,
+  vs30: number,
+  tipoEvento: EventType,
 ): number {
-  // Get coefficients for the region
-  const macroZona = regionToMacroZone(regionUsuario)
-  const { a, b, c } = coeficientesRegionales[macroZona]
+  const intensidad = estimarIntensidadContinua(magnitud, profundidadKm, distancias, vs30, tipoEvento)
 
-  // Base intensity using regional attenuation formula
-  let intensidadBase = a * magnitud - b * Math.log10(distanciaKm) - c * distanciaKm
+  // Convert to Mercalli scale (I-XII)
+  return Math.min(12, Math.max(1, Math.round(intensidad)))
+}
 
-  // Depth adjustment (shallow earthquakes are more destructive)
-  const factorProfundidad = profundidadKm < 30 ? 1.2 : profundidadKm < 70 ? 1.0 : 0.8
-  intensidadBase = intensidadBase * factorProfundidad
+/**
+ * Area within which the estimated intensity reaches a given level, elongated along the rupture of large events
+ * Each ray from the center of the rupture is followed outward until the intensity drops below the level
+ * @param ruptura Estimated rupture of the earthquake
+ * @param intensidad Mercalli intensity level
+ * @param tipoEvento Tectonic type of the event, which selects the ground-motion model
+ * @param vs30 Vs30 assumed over the whole area, in m/s
+ * @returns Outline as [latitude, longitude] points, empty if the level is not reached anywhere
+ */
+export function calcularHuellaIntensidad(
+  ruptura: FaultRupture,
+  intensidad: number,
+  tipoEvento: EventType,
+  vs30: number = VS30_POR_DEFECTO,
+): [number, number][] {
+  const [latitudCentro, longitudCentro] = getRuptureCenter(ruptura)
+  const puntoA = (azimut: number, distanciaKm: number) =>
+    fromLocal(latitudCentro, longitudCentro, distanciaKm * Math.sin(azimut), distanciaKm * Math.cos(azimut))
+  const intensidadEn = ([latitud, longitud]: [number, number]) =>
+    estimarIntensidadContinua(
+      ruptura.magnitude,
+      ruptura.depthKm,
+      ruptureDistances(ruptura, latitud, longitud),
+      vs30,
+      tipoEvento,
+    )
 
-  // Apply soil factor
-  intensidadBase = intensidadBase * factoresSuelo[tipoSuelo]
+  const maximoKm = 2000
+  const pasoKm = 10
+  const rayos = 72
 
-  // Convert to Mercalli scale (I-XII)
-  return Math.min(12, Math.max(1, Math.round(intensidadBase)))
+  // Distance to a dipping rupture can first decrease along a ray, so step outward before bisecting
+  const alcances = Array.from({ length: rayos }, (_, i) => {
+    const azimut = (2 * Math.PI * i) / rayos
+    let cerca = -1
+    for (let distancia = 0; distancia <= maximoKm; distancia += pasoKm) {
+      if (intensidadEn(puntoA(azimut, distancia)) >= intensidad) cerca = distancia
+      else if (cerca >= 0) break
+    }
+    if (cerca < 0) return null
+
+    let lejos = Math.min(cerca + pasoKm, maximoKm)
+    while (lejos - cerca > 1) {
+      const medio = (cerca + lejos) / 2
+      if (intensidadEn(puntoA(azimut, medio)) >= intensidad) cerca = medio
+      else lejos = medio
+    }
+    return { azimut, distancia: cerca }
+  })
+
+  if (alcances.every((alcance) => alcance === null)) return []
+  return alcances.map((alcance) =>
+    alcance ? puntoA(alcance.azimut, alcance.distancia) : [latitudCentro, longitudCentro],
+  )
+}
+
+/**
+ * Roman numeral for a Mercalli intensity level
+ * @param intensidad Mercalli intensity level (1-12)
+ */
+export function getNumeroRomano(intensidad: number): string {
+  const numerales = ["", "I", "II", "III", "IV", "V", "VI", "VII", "VIII", "IX", "X", "XI", "XII"]
+  return numerales[Math.min(12, Math.max(1, Math.round(intensidad)))]
 }
 
 /**
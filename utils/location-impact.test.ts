@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest"
+import type { EarthquakeData } from "@/lib/api"
+import { DEFAULT_ALERT_PROFILE, evaluateLocations, updateCountdowns, type SavedLocation } from "./location-impact"
+
+const earthquake: EarthquakeData = {
+  id: "2024-03-10-081403",
+  utc_time: "2024-03-10 08:14:03",
+  local_time: "2024-03-10 05:14:03",
+  latitude: -32.5,
+  longitude: -71.8,
+  depth: 35,
+  magnitude: 6.2,
+  scale: "Mw",
+  reference: "",
+}
+
+const location: SavedLocation = {
+  id: "1",
+  name: "Casa",
+  latitude: -33.45,
+  longitude: -70.66,
+  type: "home",
+  regionCode: "13",
+  profile: DEFAULT_ALERT_PROFILE,
+}
+
+const origin = Date.parse("2024-03-10T08:14:03Z")
+
+describe("updateCountdowns", () => {
+  it("matches evaluating the locations again at a later time", () => {
+    const [impact] = evaluateLocations(earthquake, [location], "chile", origin)
+    const [later] = evaluateLocations(earthquake, [location], "chile", origin + 10_000)
+    const [updated] = updateCountdowns([impact], earthquake, origin + 10_000)
+
+    expect(updated.intensity).toBe(impact.intensity)
+    expect(updated.secondsToS).toBeCloseTo(later.secondsToS!, 6)
+    expect(updated.secondsToS).toBeCloseTo(impact.secondsToS! - 10, 6)
+  })
+
+  it("stops the countdown once the S wave has passed", () => {
+    const [impact] = evaluateLocations(earthquake, [location], "chile", origin)
+    expect(updateCountdowns([impact], earthquake, origin + (impact.sArrival + 1) * 1000)[0].secondsToS).toBeNull()
+  })
+})
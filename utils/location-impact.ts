@@ -0,0 +1,145 @@
+/**
+ * Alert profiles of saved locations and the impact of an earthquake on each of them
+ * Every location has its own building, site and thresholds, so one event is evaluated against all of them
+ */
+
+import type { EarthquakeData } from "@/lib/api"
+import { getSiteConditions } from "@/lib/site-conditions"
+import { parseUtcTime } from "@/lib/sources/normalize"
+import { classifyEarthquake, getGroundMotionEventType } from "@/lib/tectonic-regime"
+import { getNumeroRomano } from "./intensity-calculations"
+import { getMomentMagnitude } from "./magnitude"
+import { getVs30Clase, type SiteClass } from "./site-response"
+import type { VelocityModelId } from "./travel-times"
+import { estimateArrivalTimes, estimateIntensity, type EstimateRange } from "./uncertainty"
+
+export type ConstructionType = "hormigon" | "albanileria" | "madera" | "adobe"
+
+export const CONSTRUCTION_TYPE_LABELS: Record<ConstructionType, string> = {
+  hormigon: "Hormigón armado",
+  albanileria: "Albañilería",
+  madera: "Madera",
+  adobe: "Adobe",
+}
+
+export interface NotificationPreferences {
+  enabled: boolean // Browser notification when the thresholds are met
+  sound: boolean
+  vibration: boolean
+}
+
+export interface AlertProfile {
+  constructionType: ConstructionType
+  siteClass: SiteClass | "auto" // NCh433 class, or "auto" to look it up from the location
+  floor: number // Floor of the building, 1 at ground level
+  minMagnitude: number // Mw
+  minIntensity: number // Mercalli degree
+  notifications: NotificationPreferences
+}
+
+export interface SavedLocation {
+  id: string
+  name: string
+  latitude: number
+  longitude: number
+  type: "home" | "work" | "family" | "other"
+  regionCode: string
+  profile: AlertProfile
+}
+
+export interface LocationImpact {
+  location: SavedLocation
+  intensity: EstimateRange // Mercalli degrees, including the floor of the building
+  sArrival: number // S-wave arrival, seconds after origin time
+  secondsToS: number | null // Until the S wave arrives, or null once it has passed
+  triggered: boolean // The event meets the location's magnitude and intensity thresholds
+}
+
+export const DEFAULT_ALERT_PROFILE: AlertProfile = {
+  constructionType: "hormigon",
+  siteClass: "auto",
+  floor: 1,
+  minMagnitude: 4.0,
+  minIntensity: 4,
+  notifications: { enabled: true, sound: true, vibration: true },
+}
+
+// Upper floors sway more than the ground; from this floor up shaking is felt about one degree stronger
+const UPPER_FLOOR = 5
+
+/**
+ * Vs30 at a saved location, from its chosen site class or else from the site conditions lookup
+ */
+function getLocationVs30(location: SavedLocation): number {
+  if (location.profile.siteClass !== "auto") return getVs30Clase(location.profile.siteClass)
+  return getSiteConditions(location.latitude, location.longitude).vs30
+}
+
+/**
+ * Seconds from now until an arrival, or null once it has passed
+ */
+function secondsUntil(arrival: number, earthquake: EarthquakeData, now: number): number | null {
+  const seconds = arrival - (now - parseUtcTime(earthquake.utc_time).getTime()) / 1000
+  return seconds > 0 ? seconds : null
+}
+
+/**
+ * Impact of an earthquake on each saved location
+ * @param now Time of the evaluation, in milliseconds since the epoch, for the time left until the S wave
+ */
+export function evaluateLocations(
+  earthquake: EarthquakeData,
+  locations: SavedLocation[],
+  velocityModel: VelocityModelId = "chile",
+  now: number = Date.now(),
+): LocationImpact[] {
+  const eventType = getGroundMotionEventType(classifyEarthquake(earthquake).regime)
+
+  return locations.map((location) => {
+    const floorAdjustment = location.profile.floor >= UPPER_FLOOR ? 1 : 0
+    const ground = estimateIntensity(earthquake, location, getLocationVs30(location), eventType)
+    const intensity = {
+      value: Math.min(12, ground.value + floorAdjustment),
+      low: Math.min(12, ground.low + floorAdjustment),
+      high: Math.min(12, ground.high + floorAdjustment),
+    }
+
+    const sArrival = estimateArrivalTimes(earthquake, location, velocityModel).s.value
+
+    return {
+      location,
+      intensity,
+      sArrival,
+      secondsToS: secondsUntil(sArrival, earthquake, now),
+      triggered:
+        getMomentMagnitude(earthquake) >= location.profile.minMagnitude &&
+        intensity.value >= location.profile.minIntensity,
+    }
+  })
+}
+
+/**
+ * Recompute the time left until the S wave of already evaluated impacts, which is cheap enough for every tick
+ * of a countdown, unlike evaluating the locations again
+ */
+export function updateCountdowns(
+  impacts: LocationImpact[],
+  earthquake: EarthquakeData,
+  now: number = Date.now(),
+): LocationImpact[] {
+  return impacts.map((impact) => ({ ...impact, secondsToS: secondsUntil(impact.sArrival, earthquake, now) }))
+}
+
+/**
+ * One-line summary of the impacts, e.g. "Casa: VI, 18 s; Trabajo: IV"
+ */
+export function formatImpactSummary(impacts: LocationImpact[]): string {
+  return impacts
+    .map(({ location, intensity, secondsToS }) => {
+      const degree = getNumeroRomano(intensity.value)
+      return secondsToS !== null
+        ? `${location.name}: ${degree}, ${Math.round(secondsToS)} s`
+        : `${location.name}: ${degree}`
+    })
+    .join("; ")
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest"
+import { binMagnitudes, estimateBValue, estimateMc, fitGutenbergRichter } from "./magnitude-frequency"
+import { createRandom } from "./random"
+
+/**
+ * Synthetic catalog following Gutenberg-Richter with a known b-value above a magnitude of completeness,
+ * detected with a probability that falls off below it, and reported to one decimal
+ */
+function syntheticCatalog(b: number, mc: number, count: number, seed = 7): number[] {
+  const random = createRandom(seed)
+  const magnitudes: number[] = []
+  while (magnitudes.length < count) {
+    const magnitude = mc - 1.5 - Math.log10(1 - random()) / b
+    const detection = Math.min(1, 10 ** (2 * (magnitude - mc)))
+    if (random() < detection) magnitudes.push(Math.round(magnitude * 10) / 10)
+  }
+  return magnitudes
+}
+
+describe("binMagnitudes", () => {
+  it("counts events per bin and at or above each bin", () => {
+    expect(binMagnitudes([2.0, 2.1, 2.1, 2.3])).toEqual([
+      { magnitude: 2.0, incremental: 1, cumulative: 4 },
+      { magnitude: 2.1, incremental: 2, cumulative: 3 },
+      { magnitude: 2.2, incremental: 0, cumulative: 1 },
+      { magnitude: 2.3, incremental: 1, cumulative: 1 },
+    ])
+  })
+})
+
+describe("estimateBValue", () => {
+  it("recovers the b-value of a complete catalog with the Aki-Utsu estimator", () => {
+    for (const b of [0.8, 1.0, 1.2]) {
+      const magnitudes = syntheticCatalog(b, 3, 20000).filter((magnitude) => magnitude >= 3)
+      expect(estimateBValue(magnitudes, 3)).toBeCloseTo(b, 1)
+    }
+  })
+})
+
+describe("estimateMc", () => {
+  const magnitudes = syntheticCatalog(1, 3, 20000)
+
+  it("finds the magnitude of completeness by maximum curvature", () => {
+    const mc = estimateMc(magnitudes, "maxc")!
+    expect(mc).toBeGreaterThanOrEqual(2.8)
+    expect(mc).toBeLessThanOrEqual(3.2)
+  })
+
+  it("finds the magnitude of completeness by goodness of fit", () => {
+    const mc = estimateMc(magnitudes, "gof")!
+    expect(mc).toBeGreaterThanOrEqual(2.8)
+    expect(mc).toBeLessThanOrEqual(3.3)
+  })
+})
+
+describe("fitGutenbergRichter", () => {
+  it("recovers b with a bootstrap uncertainty that covers it", () => {
+    const fit = fitGutenbergRichter(syntheticCatalog(1, 3, 5000), { bootstrapSamples: 50 })!
+
+    expect(Math.abs(fit.b - 1)).toBeLessThan(3 * fit.bSigma + 0.05)
+    expect(fit.bSigma).toBeGreaterThan(0)
+    expect(fit.bSigma).toBeLessThan(0.1)
+    expect(fit.a).toBeCloseTo(Math.log10(fit.count) + fit.b * fit.mc, 6)
+  })
+
+  it("declines to fit too few complete events", () => {
+    expect(fitGutenbergRichter(syntheticCatalog(1, 3, 40))).toBeNull()
+  })
+})
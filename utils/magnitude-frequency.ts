@@ -0,0 +1,175 @@
+/**
+ * Frequency-magnitude analysis: magnitude of completeness and Gutenberg-Richter b-value
+ * log10 N(>= M) = a - b M
+ */
+
+import { createRandom } from "./random"
+
+export type CompletenessMethod = "maxc" | "gof"
+
+export interface MagnitudeBin {
+  magnitude: number // Lower edge of the bin
+  incremental: number // Events in the bin
+  cumulative: number // Events at or above the bin
+}
+
+export interface GutenbergRichterFit {
+  mc: number // Magnitude of completeness
+  mcSigma: number // Bootstrap standard deviation of Mc
+  b: number // Maximum-likelihood b-value
+  bSigma: number // Bootstrap standard deviation of b
+  a: number // Productivity, log10 of the number of events at or above magnitude 0
+  count: number // Events at or above Mc
+  method: CompletenessMethod
+}
+
+export interface FrequencyMagnitudeOptions {
+  binWidth?: number
+  method?: CompletenessMethod
+  bootstrapSamples?: number
+  seed?: number
+}
+
+// Too few events above Mc make the b-value meaningless
+export const MIN_EVENTS_FOR_B_VALUE = 50
+
+// Maximum curvature underestimates Mc for gradually curved distributions (Woessner & Wiemer, 2005)
+const MAXC_CORRECTION = 0.2
+
+/**
+ * Round a magnitude down to the lower edge of its bin, tolerating floating-point noise
+ */
+function binOf(magnitude: number, binWidth: number): number {
+  return Math.round(Math.floor(magnitude / binWidth + 1e-6) * binWidth * 100) / 100
+}
+
+/**
+ * Incremental and cumulative frequency-magnitude distribution
+ * @param magnitudes Event magnitudes
+ * @param binWidth Magnitude bin width
+ */
+export function binMagnitudes(magnitudes: number[], binWidth = 0.1): MagnitudeBin[] {
+  if (magnitudes.length === 0) return []
+
+  const counts = new Map<number, number>()
+  magnitudes.forEach((magnitude) => {
+    const bin = binOf(magnitude, binWidth)
+    counts.set(bin, (counts.get(bin) ?? 0) + 1)
+  })
+
+  const first = Math.min(...counts.keys())
+  const last = Math.max(...counts.keys())
+  const bins: MagnitudeBin[] = []
+  for (let i = 0; first + i * binWidth <= last + 1e-6; i++) {
+    const magnitude = Math.round((first + i * binWidth) * 100) / 100
+    bins.push({ magnitude, incremental: counts.get(magnitude) ?? 0, cumulative: 0 })
+  }
+
+  let cumulative = 0
+  for (let i = bins.length - 1; i >= 0; i--) {
+    cumulative += bins[i].incremental
+    bins[i].cumulative = cumulative
+  }
+  return bins
+}
+
+/**
+ * Maximum-likelihood b-value (Aki, 1965; Utsu, 1965) with the correction for binned magnitudes
+ * @returns The b-value, or null if no events reach Mc
+ */
+export function estimateBValue(magnitudes: number[], mc: number, binWidth = 0.1): number | null {
+  const complete = magnitudes.filter((magnitude) => magnitude >= mc - 1e-6)
+  if (complete.length < 2) return null
+
+  const mean = complete.reduce((sum, magnitude) => sum + magnitude, 0) / complete.length
+  const spread = mean - (mc - binWidth / 2)
+  return spread > 0 ? Math.LOG10E / spread : null
+}
+
+/**
+ * Magnitude of completeness by maximum curvature: the most populated bin, plus the usual correction
+ */
+function mcMaxCurvature(magnitudes: number[], binWidth: number): number | null {
+  const bins = binMagnitudes(magnitudes, binWidth)
+  if (bins.length === 0) return null
+
+  const peak = bins.reduce((best, bin) => (bin.incremental > best.incremental ? bin : best))
+  return Math.round((peak.magnitude + MAXC_CORRECTION) * 100) / 100
+}
+
+/**
+ * Magnitude of completeness by goodness of fit (Wiemer & Wyss, 2000)
+ * The lowest Mc whose Gutenberg-Richter fit explains 95% of the observed distribution, or 90% failing that
+ */
+function mcGoodnessOfFit(magnitudes: number[], binWidth: number): number | null {
+  const bins = binMagnitudes(magnitudes, binWidth)
+  const residuals: { mc: number; fit: number }[] = []
+
+  bins.forEach(({ magnitude: mc, cumulative }) => {
+    if (cumulative < MIN_EVENTS_FOR_B_VALUE / 2) return
+    const b = estimateBValue(magnitudes, mc, binWidth)
+    if (b === null) return
+
+    const above = bins.filter((bin) => bin.magnitude >= mc)
+    const a = Math.log10(cumulative) + b * mc
+    const misfit = above.reduce((sum, bin) => sum + Math.abs(bin.cumulative - 10 ** (a - b * bin.magnitude)), 0)
+    const total = above.reduce((sum, bin) => sum + bin.cumulative, 0)
+    residuals.push({ mc, fit: 100 - (100 * misfit) / total })
+  })
+
+  const good = residuals.find(({ fit }) => fit >= 95) ?? residuals.find(({ fit }) => fit >= 90)
+  return good ? good.mc : mcMaxCurvature(magnitudes, binWidth)
+}
+
+/**
+ * Magnitude of completeness
+ * @param method "maxc" for maximum curvature, "gof" for goodness of fit
+ */
+export function estimateMc(magnitudes: number[], method: CompletenessMethod = "maxc", binWidth = 0.1): number | null {
+  return method === "gof" ? mcGoodnessOfFit(magnitudes, binWidth) : mcMaxCurvature(magnitudes, binWidth)
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1))
+}
+
+/**
+ * Fit the Gutenberg-Richter relation above the magnitude of completeness
+ * Uncertainties come from bootstrap resampling of the catalog, re-estimating Mc in every sample
+ * @returns The fit, or null if too few events are complete
+ */
+export function fitGutenbergRichter(
+  magnitudes: number[],
+  { binWidth = 0.1, method = "maxc", bootstrapSamples = 200, seed = 1 }: FrequencyMagnitudeOptions = {},
+): GutenbergRichterFit | null {
+  const mc = estimateMc(magnitudes, method, binWidth)
+  if (mc === null) return null
+
+  const count = magnitudes.filter((magnitude) => magnitude >= mc - 1e-6).length
+  const b = estimateBValue(magnitudes, mc, binWidth)
+  if (b === null || count < MIN_EVENTS_FOR_B_VALUE) return null
+
+  const random = createRandom(seed)
+  const mcSamples: number[] = []
+  const bSamples: number[] = []
+  for (let i = 0; i < bootstrapSamples; i++) {
+    const sample = magnitudes.map(() => magnitudes[Math.floor(random() * magnitudes.length)])
+    const sampleMc = estimateMc(sample, method, binWidth)
+    const sampleB = sampleMc === null ? null : estimateBValue(sample, sampleMc, binWidth)
+    if (sampleMc === null || sampleB === null) continue
+    mcSamples.push(sampleMc)
+    bSamples.push(sampleB)
+  }
+
+  return {
+    mc,
+    mcSigma: standardDeviation(mcSamples),
+    b,
+    bSigma: standardDeviation(bSamples),
+    a: Math.log10(count) + b * mc,
+    count,
+    method,
+  }
+}
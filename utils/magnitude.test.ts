@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import { describeMagnitudeConversion, fromMomentMagnitude, parseMagnitudeType, toMomentMagnitude } from "./magnitude"
+
+describe("toMomentMagnitude", () => {
+  it("keeps CSN local magnitudes within about 0.3 units of Mw in the range they are reported", () => {
+    for (let ml = 3; ml <= 6; ml += 0.1) {
+      expect(Math.abs(toMomentMagnitude(ml, "Ml") - ml)).toBeLessThan(0.31)
+    }
+  })
+
+  it("is inverted by fromMomentMagnitude for every scale", () => {
+    for (const scale of ["Ml", "mb", "Ms"] as const) {
+      for (const magnitude of [3.5, 5, 6.5]) {
+        expect(fromMomentMagnitude(toMomentMagnitude(magnitude, scale), scale)).toBeCloseTo(magnitude, 6)
+      }
+    }
+  })
+
+  it("assumes unknown scales are already Mw", () => {
+    expect(parseMagnitudeType("")).toBeNull()
+    expect(toMomentMagnitude(5.2, "")).toBe(5.2)
+  })
+})
+
+describe("toMomentMagnitude for body- and surface-wave magnitudes", () => {
+  it("applies the global relation to mb", () => {
+    expect(toMomentMagnitude(5, "mb")).toBeCloseTo(5.28, 6)
+    expect(toMomentMagnitude(6, "mb_Lg")).toBeCloseTo(6.13, 6)
+  })
+
+  it("switches Ms branches at 6.2", () => {
+    expect(toMomentMagnitude(5, "Ms")).toBeCloseTo(5.42, 6)
+    expect(toMomentMagnitude(7, "Ms_20")).toBeCloseTo(7.01, 6)
+    expect(Math.abs(toMomentMagnitude(6.2, "Ms") - toMomentMagnitude(6.19999, "Ms"))).toBeLessThan(0.01)
+  })
+
+  it("inverts either Ms branch on its side of the switch", () => {
+    for (const ms of [6.1, 6.3]) {
+      expect(fromMomentMagnitude(toMomentMagnitude(ms, "Ms"), "Ms")).toBeCloseTo(ms, 2)
+    }
+  })
+})
+
+describe("describeMagnitudeConversion", () => {
+  it("says a converted Mw is approximate", () => {
+    expect(describeMagnitudeConversion({ magnitude: 5.4, scale: "Ml" })).toBe(
+      "Mw 5.1 convertida de Ml 5.4 con una relación centroeuropea no calibrada para Chile; es aproximada",
+    )
+    expect(describeMagnitudeConversion({ magnitude: 5, scale: "mb" })).toContain("relación global")
+  })
+
+  it("has nothing to say about reported Mw", () => {
+    expect(describeMagnitudeConversion({ magnitude: 6.1, scale: "Mww" })).toBeNull()
+    expect(describeMagnitudeConversion({ magnitude: 6.1, scale: "" })).toBeNull()
+  })
+})
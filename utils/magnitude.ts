@@ -0,0 +1,138 @@
+/**
+ * Magnitude scales, seismic moment and radiated energy
+ * Feeds report local (Ml), body-wave (mb), surface-wave (Ms) or moment (Mw) magnitudes; only Mw is
+ * comparable across sizes, so every physical calculation converts to it first
+ */
+
+import type { EarthquakeData } from "@/lib/api"
+import { parseUtcTime } from "@/lib/sources/normalize"
+
+export type MagnitudeType = "Mw" | "Ml" | "mb" | "Ms"
+
+export interface MomentReleasePoint {
+  time: number // Milliseconds since the epoch
+  moment: number // Cumulative seismic moment, in N·m
+  magnitude: number // Mw of a single event releasing the cumulative moment
+}
+
+/**
+ * Magnitude type from a feed's scale label, e.g. "Mww", "ML" or "mb_Lg"
+ * Duration magnitudes are calibrated against Ml and treated as such
+ * @returns The type, or null if the label is empty or unknown
+ */
+export function parseMagnitudeType(scale: string): MagnitudeType | null {
+  const label = scale.trim().toLowerCase()
+  if (label.startsWith("mw")) return "Mw"
+  if (label.startsWith("ml") || label.startsWith("md") || label.startsWith("mc")) return "Ml"
+  if (label.startsWith("mb")) return "mb"
+  if (label.startsWith("ms")) return "Ms"
+  return null
+}
+
+// Ml to Mw: Mw = a Ml² + b Ml + c, from Grünthal et al. (2009)
+// It is a central-European relation, not one calibrated for the Ml of the Centro Sismológico Nacional, which
+// reports Mw itself for larger events. It stands in for a Chilean relation because it stays within about
+// 0.3 units of Mw = Ml from Ml 3 to 6, the range in which CSN reports Ml, so it cannot move intensity or
+// tsunami estimates far. Estimates based on a converted Mw say so (see describeMagnitudeConversion); replace
+// these coefficients once a Chilean calibration is adopted.
+const ML_TO_MW = { a: 0.0376, b: 0.646, c: 0.53 }
+
+/**
+ * Convert a magnitude to Mw
+ * Ml uses the relation of Grünthal et al. (2009) (see ML_TO_MW), mb and Ms the global relations of
+ * Scordilis (2006); unknown scales are assumed to be Mw already
+ */
+export function toMomentMagnitude(magnitude: number, scale: string): number {
+  switch (parseMagnitudeType(scale)) {
+    case "Ml":
+      return ML_TO_MW.a * magnitude ** 2 + ML_TO_MW.b * magnitude + ML_TO_MW.c
+    case "mb":
+      return 0.85 * magnitude + 1.03
+    case "Ms":
+      return magnitude < 6.2 ? 0.67 * magnitude + 2.07 : 0.99 * magnitude + 0.08
+    default:
+      return magnitude
+  }
+}
+
+/**
+ * Convert Mw to another magnitude type, inverting the relations of toMomentMagnitude
+ */
+export function fromMomentMagnitude(mw: number, type: MagnitudeType): number {
+  switch (type) {
+    case "Ml":
+      return (-ML_TO_MW.b + Math.sqrt(ML_TO_MW.b ** 2 - 4 * ML_TO_MW.a * (ML_TO_MW.c - mw))) / (2 * ML_TO_MW.a)
+    case "mb":
+      return (mw - 1.03) / 0.85
+    case "Ms":
+      // The two Ms branches meet near Mw 6.2
+      return mw < 0.67 * 6.2 + 2.07 ? (mw - 2.07) / 0.67 : (mw - 0.08) / 0.99
+    default:
+      return mw
+  }
+}
+
+/**
+ * Moment magnitude of an event, whatever scale its feed reported
+ */
+export function getMomentMagnitude(quake: Pick<EarthquakeData, "magnitude" | "scale">): number {
+  return toMomentMagnitude(quake.magnitude, quake.scale)
+}
+
+/**
+ * Note for estimates based on an Mw converted from another scale, e.g.
+ * "Mw 5.1 convertida de Ml 5.4 con una relación centroeuropea no calibrada para Chile; es aproximada"
+ * @returns The note, or null if the event was reported as Mw or on an unknown scale
+ */
+export function describeMagnitudeConversion(quake: Pick<EarthquakeData, "magnitude" | "scale">): string | null {
+  const type = parseMagnitudeType(quake.scale)
+  if (type === null || type === "Mw") return null
+
+  const relation = type === "Ml" ? "una relación centroeuropea no calibrada para Chile" : "una relación global"
+  const mw = getMomentMagnitude(quake).toFixed(1)
+  return `Mw ${mw} convertida de ${type} ${quake.magnitude.toFixed(1)} con ${relation}; es aproximada`
+}
+
+/**
+ * Copy of an event with its magnitude expressed as Mw
+ */
+export function withMomentMagnitude<T extends Pick<EarthquakeData, "magnitude" | "scale">>(quake: T): T {
+  return { ...quake, magnitude: Math.round(getMomentMagnitude(quake) * 10) / 10, scale: "Mw" }
+}
+
+/**
+ * Scalar seismic moment in N·m (Hanks & Kanamori, 1979, with the IASPEI constant)
+ */
+export function seismicMoment(mw: number): number {
+  return 10 ** (1.5 * mw + 9.1)
+}
+
+/**
+ * Moment magnitude of a scalar seismic moment in N·m
+ */
+export function momentToMagnitude(moment: number): number {
+  return (Math.log10(moment) - 9.1) / 1.5
+}
+
+/**
+ * Radiated seismic energy in joules, from the average energy-to-moment ratio of 5e-5 (Kanamori, 1977)
+ */
+export function radiatedEnergy(mw: number): number {
+  return 5e-5 * seismicMoment(mw)
+}
+
+/**
+ * Cumulative seismic moment released by a catalog over time
+ * @param earthquakes Events in any order
+ * @returns One point per event, in time order
+ */
+export function cumulativeMomentRelease(earthquakes: EarthquakeData[]): MomentReleasePoint[] {
+  let moment = 0
+  return earthquakes
+    .map((quake) => ({ time: parseUtcTime(quake.utc_time).getTime(), mw: getMomentMagnitude(quake) }))
+    .sort((a, b) => a.time - b.time)
+    .map(({ time, mw }) => {
+      moment += seismicMoment(mw)
+      return { time, moment, magnitude: momentToMagnitude(moment) }
+    })
+}
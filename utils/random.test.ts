@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { createRandom, randomNormal, seedFromString } from "./random"
+
+describe("createRandom", () => {
+  it("repeats the same sequence for the same seed", () => {
+    const a = createRandom(42)
+    const b = createRandom(42)
+    const c = createRandom(43)
+    const first = Array.from({ length: 5 }, a)
+
+    expect(Array.from({ length: 5 }, b)).toEqual(first)
+    expect(Array.from({ length: 5 }, c)).not.toEqual(first)
+    first.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    })
+  })
+})
+
+describe("randomNormal", () => {
+  it("has zero mean and unit variance", () => {
+    const random = createRandom(seedFromString("normal"))
+    const samples = Array.from({ length: 20000 }, () => randomNormal(random))
+    const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length
+    const variance = samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) / samples.length
+
+    expect(Math.abs(mean)).toBeLessThan(0.03)
+    expect(Math.abs(variance - 1)).toBeLessThan(0.05)
+  })
+})
+
+describe("seedFromString", () => {
+  it("hashes the same string to the same seed", () => {
+    expect(seedFromString("csn:2024-03-10-081403")).toBe(seedFromString("csn:2024-03-10-081403"))
+    expect(seedFromString("csn:2024-03-10-081403")).not.toBe(seedFromString("csn:2024-03-10-081404"))
+  })
+})
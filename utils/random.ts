@@ -0,0 +1,37 @@
+/**
+ * Seeded random numbers for reproducible simulations
+ */
+
+/**
+ * Small deterministic PRNG (mulberry32) so a given seed always produces the same sequence
+ * @returns A function returning numbers in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Standard normal sample using the Box-Muller transform
+ */
+export function randomNormal(random: () => number): number {
+  const u = 1 - random() // Avoid log(0)
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random())
+}
+
+/**
+ * Hash a string into a 32-bit seed, e.g. an event id
+ */
+export function seedFromString(value: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619)
+  }
+  return hash >>> 0
+}
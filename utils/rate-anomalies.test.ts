@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+import type { EarthquakeData } from "@/lib/api"
+import { betaStatistic, detectRateAnomalies, type BaselineCatalog } from "./rate-anomalies"
+
+const NOW = new Date("2024-03-10T12:00:00Z")
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function earthquake(id: string, daysAgo: number, magnitude = 3, latitude = -33, longitude = -71.6): EarthquakeData {
+  const time = new Date(NOW.getTime() - daysAgo * DAY_MS).toISOString().replace("T", " ").slice(0, 19)
+  return { id, utc_time: time, local_time: time, latitude, longitude, depth: 20, magnitude, scale: "Ml", reference: "" }
+}
+
+/**
+ * A year of events at a steady rate in one place, ending where the recent window begins
+ */
+function steadyBaseline(eventsPerDay: number, endDaysAgo: number): BaselineCatalog {
+  const count = Math.round(365 * eventsPerDay)
+  return {
+    earthquakes: Array.from({ length: count }, (_, i) => earthquake(`baseline-${i}`, endDaysAgo + (365 * i) / count)),
+    start: new Date(NOW.getTime() - (endDaysAgo + 365) * DAY_MS),
+    end: new Date(NOW.getTime() - endDaysAgo * DAY_MS),
+  }
+}
+
+describe("betaStatistic", () => {
+  it("standardizes the excess of recent events over the expected share", () => {
+    expect(betaStatistic(10, 110, 0.01)).toBeCloseTo((10 - 1.1) / Math.sqrt(1.089), 6)
+    expect(betaStatistic(1, 100, 0.01)).toBeCloseTo(0, 6)
+    expect(betaStatistic(0, 0, 0.01)).toBe(0)
+  })
+})
+
+describe("detectRateAnomalies", () => {
+  const home = { id: "1", name: "Casa", latitude: -33.04, longitude: -71.62 }
+
+  it("flags a burst of similar events as a swarm near a saved location", () => {
+    const recent = Array.from({ length: 8 }, (_, i) => earthquake(`recent-${i}`, 1 - i / 8, 3 + (i % 4) / 10))
+    const [anomaly, ...others] = detectRateAnomalies(recent, steadyBaseline(0.1, 1), [home], {}, NOW)
+
+    expect(others).toHaveLength(0)
+    expect(anomaly).toMatchObject({ kind: "swarm", recentCount: 8, maxMagnitude: 3.3 })
+    expect(anomaly.beta).toBeGreaterThan(3)
+    expect(anomaly.nearbyLocations.map((location) => location.name)).toEqual(["Casa"])
+  })
+
+  it("tells a mainshock and its aftershocks from a swarm", () => {
+    const recent = [
+      earthquake("mainshock", 1, 5),
+      ...Array.from({ length: 7 }, (_, i) => earthquake(`aftershock-${i}`, 0.9 - i / 10, 3.2)),
+    ]
+    expect(detectRateAnomalies(recent, steadyBaseline(0.1, 1), [], {}, NOW)[0]).toMatchObject({ kind: "sequence" })
+  })
+
+  it("does not flag activity at the long-term rate", () => {
+    const recent = Array.from({ length: 5 }, (_, i) => earthquake(`recent-${i}`, 5 - i))
+    expect(detectRateAnomalies(recent, steadyBaseline(1, 5), [home], {}, NOW)).toEqual([])
+  })
+
+  it("needs a minimum number of recent events", () => {
+    const recent = Array.from({ length: 4 }, (_, i) => earthquake(`recent-${i}`, 1 - i / 4))
+    expect(detectRateAnomalies(recent, steadyBaseline(0.01, 1), [home], {}, NOW)).toEqual([])
+  })
+})
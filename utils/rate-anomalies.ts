@@ -0,0 +1,184 @@
+/**
+ * Detection of swarms and unusual seismicity rates
+ * Recent counts in overlapping circular cells are compared with each cell's long-term rate
+ * using the beta statistic of Matthews & Reasenberg (1988)
+ */
+
+import type { EarthquakeData } from "@/lib/api"
+import { parseUtcTime } from "@/lib/sources/normalize"
+import { calcularDistanciaHaversine } from "./seismic-calculations"
+
+export type AnomalyKind = "swarm" | "sequence"
+
+export interface NearbyLocation {
+  id: string
+  name: string
+  distanceKm: number
+}
+
+export interface RateAnomaly {
+  id: string // Stable for the same cell, to avoid repeating notifications
+  latitude: number // Centroid of the recent events
+  longitude: number
+  radiusKm: number
+  kind: AnomalyKind // A swarm has no dominant event; a sequence follows a clear mainshock
+  recentCount: number
+  expectedCount: number // Recent events expected from the long-term rate
+  beta: number
+  maxMagnitude: number
+  nearbyLocations: NearbyLocation[]
+}
+
+export interface AnomalyOptions {
+  cellRadiusKm?: number
+  gridStep?: number // Spacing of cell centers in degrees; cells overlap when smaller than their diameter
+  minEvents?: number // Recent events needed before a cell can be flagged
+  betaThreshold?: number
+  locationRadiusKm?: number // Saved locations within this distance of a cell are reported
+}
+
+export interface BaselineCatalog {
+  earthquakes: EarthquakeData[]
+  start: Date
+  end: Date
+}
+
+interface SavedLocation {
+  id: string
+  name: string
+  latitude: number
+  longitude: number
+}
+
+interface TimedEvent {
+  quake: EarthquakeData
+  time: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Magnitude gap between the largest and the next largest event that marks a mainshock (Båth's law)
+const MAINSHOCK_GAP = 1.0
+
+/**
+ * Beta statistic: standardized excess of recent events over the share expected from the whole record
+ * @param recentCount Events in the recent window
+ * @param totalCount Events in the recent window and the baseline
+ * @param recentFraction Recent window length as a fraction of the whole record
+ */
+export function betaStatistic(recentCount: number, totalCount: number, recentFraction: number): number {
+  const expected = totalCount * recentFraction
+  const variance = totalCount * recentFraction * (1 - recentFraction)
+  return variance > 0 ? (recentCount - expected) / Math.sqrt(variance) : 0
+}
+
+/**
+ * Whether a group of events looks like a swarm rather than a mainshock and its aftershocks
+ */
+function classifyActivity(events: EarthquakeData[]): AnomalyKind {
+  const magnitudes = events.map((quake) => quake.magnitude).sort((a, b) => b - a)
+  return magnitudes.length > 1 && magnitudes[0] - magnitudes[1] >= MAINSHOCK_GAP ? "sequence" : "swarm"
+}
+
+function withTimes(earthquakes: EarthquakeData[]): TimedEvent[] {
+  return earthquakes.map((quake) => ({ quake, time: parseUtcTime(quake.utc_time).getTime() }))
+}
+
+/**
+ * Flag cells whose recent rate is anomalously high compared with the baseline
+ * @param recent Recent events, e.g. the live feed
+ * @param baseline Long-term catalog, complete to the same magnitude; only the part before the recent window is used
+ * @param locations Saved locations to check for nearby anomalies
+ * @param now Reference time; the recent window spans from the oldest recent event to it
+ */
+export function detectRateAnomalies(
+  recent: EarthquakeData[],
+  baseline: BaselineCatalog,
+  locations: SavedLocation[] = [],
+  { cellRadiusKm = 50, gridStep = 0.25, minEvents = 5, betaThreshold = 3, locationRadiusKm = 100 }: AnomalyOptions = {},
+  now = new Date(),
+): RateAnomaly[] {
+  const recentEvents = withTimes(recent)
+  if (recentEvents.length < minEvents) return []
+
+  const windowStart = Math.min(...recentEvents.map((event) => event.time))
+  const recentDays = Math.max((now.getTime() - windowStart) / DAY_MS, 1 / 24)
+  const baselineEnd = Math.min(baseline.end.getTime(), windowStart)
+  const baselineDays = (baselineEnd - baseline.start.getTime()) / DAY_MS
+  if (baselineDays <= 0) return []
+
+  const recentFraction = recentDays / (recentDays + baselineDays)
+  const baselineEvents = withTimes(baseline.earthquakes).filter((event) => event.time < baselineEnd)
+
+  const within = (events: TimedEvent[], latitude: number, longitude: number) =>
+    events.filter(
+      ({ quake }) => calcularDistanciaHaversine(latitude, longitude, quake.latitude, quake.longitude) <= cellRadiusKm,
+    )
+
+  // Only cells around recent events can hold enough of them
+  const centers = new Map<string, { latitude: number; longitude: number }>()
+  recentEvents.forEach(({ quake }) => {
+    const latitude = Math.round(quake.latitude / gridStep) * gridStep
+    const longitude = Math.round(quake.longitude / gridStep) * gridStep
+    for (let i = -1; i <= 1; i++) {
+      for (let j = -1; j <= 1; j++) {
+        const center = { latitude: latitude + i * gridStep, longitude: longitude + j * gridStep }
+        centers.set(`${center.latitude.toFixed(2)},${center.longitude.toFixed(2)}`, center)
+      }
+    }
+  })
+
+  const candidates: RateAnomaly[] = []
+  centers.forEach(({ latitude, longitude }, key) => {
+    const recentInCell = within(recentEvents, latitude, longitude)
+    if (recentInCell.length < minEvents) return
+
+    const baselineCount = within(baselineEvents, latitude, longitude).length
+    const beta = betaStatistic(recentInCell.length, recentInCell.length + baselineCount, recentFraction)
+    if (beta < betaThreshold) return
+
+    const quakes = recentInCell.map(({ quake }) => quake)
+    const centroid = {
+      latitude: quakes.reduce((sum, quake) => sum + quake.latitude, 0) / quakes.length,
+      longitude: quakes.reduce((sum, quake) => sum + quake.longitude, 0) / quakes.length,
+    }
+    candidates.push({
+      id: key,
+      ...centroid,
+      radiusKm: cellRadiusKm,
+      kind: classifyActivity(quakes),
+      recentCount: quakes.length,
+      expectedCount: (baselineCount * recentDays) / baselineDays,
+      beta,
+      maxMagnitude: Math.max(...quakes.map((quake) => quake.magnitude)),
+      nearbyLocations: locations
+        .map((location) => ({
+          id: location.id,
+          name: location.name,
+          distanceKm: calcularDistanciaHaversine(
+            centroid.latitude,
+            centroid.longitude,
+            location.latitude,
+            location.longitude,
+          ),
+        }))
+        .filter((location) => location.distanceKm <= locationRadiusKm)
+        .sort((a, b) => a.distanceKm - b.distanceKm),
+    })
+  })
+
+  // Overlapping cells see the same activity: keep the strongest of each group
+  const anomalies: RateAnomaly[] = []
+  candidates
+    .sort((a, b) => b.beta - a.beta)
+    .forEach((candidate) => {
+      const overlaps = anomalies.some(
+        (kept) =>
+          calcularDistanciaHaversine(kept.latitude, kept.longitude, candidate.latitude, candidate.longitude) <
+          2 * cellRadiusKm,
+      )
+      if (!overlaps) anomalies.push(candidate)
+    })
+
+  return anomalies
+}
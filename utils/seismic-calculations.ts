@@ -3,15 +3,16 @@
  * Specialized for Chilean territory with regional adjustments
  */
 
+import { getElevationProfile } from "@/lib/elevation"
+import { firstArrivals, type VelocityModelId } from "./travel-times"
+
 export type MacroZone = "norte" | "centro" | "sur" | "austral"
 export type RegionCode = string // Chilean administrative region codes
 
-interface RegionalVelocities {
-  ondaP: number // P-wave velocity in km/s
-  ondaS: number // S-wave velocity in km/s
-}
+// Pseudo-region for events outside Chile and its waters
+export const OUTSIDE_CHILE_REGION_CODE = "00"
 
-interface ArrivalTimeResult {
+export interface ArrivalTimeResult {
   tiempoOndaP: number // P-wave arrival time in seconds
   tiempoOndaS: number // S-wave arrival time in seconds
   diferenciaSegundos: number // Time difference between waves in seconds
@@ -19,18 +20,6 @@ interface ArrivalTimeResult {
   distanciaKm: number // Distance in kilometers
 }
 
-// Regional wave velocities based on terrain type
-const velocidadesRegionales: Record<MacroZone, RegionalVelocities> = {
-  // Northern regions (more arid and rocky terrain)
-  norte: { ondaP: 8.2, ondaS: 4.2 },
-  // Central regions (mixed terrain)
-  centro: { ondaP: 8.0, ondaS: 4.0 },
-  // Southern regions (softer and volcanic terrain)
-  sur: { ondaP: 7.8, ondaS: 3.8 },
-  // Austral regions (more compact terrain)
-  austral: { ondaP: 8.1, ondaS: 4.1 },
-}
-
 // Map Chilean administrative regions to macro zones
 export const regionToMacroZone = (regionCode: RegionCode): MacroZone => {
   // Northern regions: Arica y Parinacota, Tarapacá, Antofagasta, Atacama
@@ -81,9 +70,19 @@ function toRadians(degrees: number): number {
   return degrees * (Math.PI / 180)
 }
 
+// Travel-time increase per km of mean elevation along the path: high relief sits on a thick, slower crustal root
+const RETRASO_POR_KM_ELEVACION = 0.05
+const FACTOR_TOPOGRAFICO_MAXIMO = 1.2
+
+// Spacing of the elevation samples along the path, in km
+const PASO_PERFIL_KM = 5
+
 /**
- * Calculate topographic factor based on terrain between epicenter and user location
- * This is a simplified version - a real implementation would use elevation data
+ * Calculate topographic factor from the terrain profile between epicenter and user location
+ * Elevations are sampled along the great-circle path from the bundled elevation tiles; the factor grows with
+ * the relief the path climbs over and with the mean elevation it crosses, such as the Andes. Paths without
+ * elevation data count as flat
+ * @returns Multiplier of the path length, 1.0 for flat paths at sea level
  */
 export function calcularFactorTopografico(
   epicentroLat: number,
@@ -91,28 +90,35 @@ export function calcularFactorTopografico(
   usuarioLat: number,
   usuarioLon: number,
 ): number {
-  // Simplified implementation
-  // In a real app, this would use elevation data from a GIS service
-  // and calculate the actual terrain profile between points
+  const distanciaKm = calcularDistanciaHaversine(epicentroLat, epicentroLon, usuarioLat, usuarioLon)
+  if (distanciaKm < PASO_PERFIL_KM) return 1.0
+
+  const muestras = Math.min(200, Math.ceil(distanciaKm / PASO_PERFIL_KM) + 1)
+  const perfil = getElevationProfile(epicentroLat, epicentroLon, usuarioLat, usuarioLon, muestras)
 
-  // For now, we'll use a simple approximation based on latitude
-  // The Andes mountains run north-south through Chile, affecting east-west wave propagation
+  // Offshore and unmapped stretches count as sea level
+  const elevacionesKm = perfil.map((punto) => Math.max(0, punto.elevation ?? 0) / 1000)
 
-  // Check if the path crosses the Andes (simplified)
-  const crossesAndes = Math.abs(epicentroLon - usuarioLon) > 0.5
+  // Length along the relief relative to the straight path
+  let longitudRelieve = 0
+  for (let i = 1; i < perfil.length; i++) {
+    const tramoKm = perfil[i].distanceKm - perfil[i - 1].distanceKm
+    longitudRelieve += Math.hypot(tramoKm, elevacionesKm[i] - elevacionesKm[i - 1])
+  }
 
-  // Higher factor means longer travel time due to terrain obstacles
-  return crossesAndes ? 1.15 : 1.0
+  const elevacionMediaKm = elevacionesKm.reduce((suma, elevacion) => suma + elevacion, 0) / elevacionesKm.length
+  const factor = (longitudRelieve / distanciaKm) * (1 + RETRASO_POR_KM_ELEVACION * elevacionMediaKm)
+  return Math.min(FACTOR_TOPOGRAFICO_MAXIMO, Math.max(1.0, factor))
 }
 
 /**
- * Calculate seismic wave arrival time with regional adjustments
+ * Calculate seismic wave arrival time through a layered velocity model
  * @param epicentroLat Epicenter latitude
  * @param epicentroLon Epicenter longitude
  * @param usuarioLat User latitude
  * @param usuarioLon User longitude
  * @param profundidadKm Earthquake depth in kilometers
- * @param regionUsuario User's administrative region code
+ * @param modelo Velocity model for the first-arrival travel times
  * @returns Object with arrival times and alert information
  */
 export function calcularTiempoLlegada(
@@ -121,24 +127,16 @@ export function calcularTiempoLlegada(
   usuarioLat: number,
   usuarioLon: number,
   profundidadKm: number,
-  regionUsuario: RegionCode,
+  modelo: VelocityModelId = "chile",
 ): ArrivalTimeResult {
-  // Determine velocities based on region
-  const macroZona = regionToMacroZone(regionUsuario)
-  const { ondaP, ondaS } = velocidadesRegionales[macroZona]
-
   // Calculate distance using Haversine formula (considers Earth's curvature)
   const distanciaKm = calcularDistanciaHaversine(epicentroLat, epicentroLon, usuarioLat, usuarioLon)
 
   // Adjust for topographic obstacles (mountains, valleys)
   const factorTopografico = calcularFactorTopografico(epicentroLat, epicentroLon, usuarioLat, usuarioLon)
 
-  // Total distance including depth (Pythagorean theorem)
-  const distanciaTotal = Math.sqrt(Math.pow(distanciaKm * factorTopografico, 2) + Math.pow(profundidadKm, 2))
-
-  // Time in seconds for each wave type
-  const tiempoOndaP = distanciaTotal / ondaP
-  const tiempoOndaS = distanciaTotal / ondaS
+  // First-arrival times in seconds, direct or refracted along deeper interfaces
+  const { p: tiempoOndaP, s: tiempoOndaS } = firstArrivals(profundidadKm, distanciaKm * factorTopografico, modelo)
 
   return {
     tiempoOndaP,
@@ -183,6 +181,7 @@ export function getRegionName(regionCode: RegionCode): string {
     "10": "Los Lagos",
     "11": "Aysén",
     "12": "Magallanes",
+    [OUTSIDE_CHILE_REGION_CODE]: "Fuera de Chile",
   }
 
   return regions[regionCode] || "Región desconocida"
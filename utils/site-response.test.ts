@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest"
+import { clasificarSitio, estimarVs30DesdePendiente } from "./site-response"
+
+describe("clasificarSitio", () => {
+  it.each([
+    [1000, "A", "B"],
+    [900, "A", "B"],
+    [899, "B", "B"],
+    [760, "B", "B"],
+    [759, "B", "C"],
+    [500, "B", "C"],
+    [499, "C", "C"],
+    [360, "C", "C"],
+    [359, "C", "D"],
+    [350, "C", "D"],
+    [349, "D", "D"],
+    [180, "D", "D"],
+    [179, "E", "E"],
+  ])("classifies Vs30 = %i m/s as NCh433 %s and NEHRP %s", (vs30, nch433, nehrp) => {
+    expect(clasificarSitio(vs30)).toBe(nch433)
+    expect(clasificarSitio(vs30, "nehrp")).toBe(nehrp)
+  })
+
+  it("puts very hard rock in NEHRP class A only", () => {
+    expect(clasificarSitio(1600, "nehrp")).toBe("A")
+    expect(clasificarSitio(1600)).toBe("A")
+  })
+})
+
+describe("estimarVs30DesdePendiente", () => {
+  it("matches the Wald & Allen (2007) bin edges and clamps outside them", () => {
+    expect(estimarVs30DesdePendiente(1e-5)).toBe(180)
+    expect(estimarVs30DesdePendiente(1.8e-2)).toBeCloseTo(360, 6)
+    expect(estimarVs30DesdePendiente(0.5)).toBe(760)
+  })
+
+  it("interpolates in log-slope between bins", () => {
+    expect(estimarVs30DesdePendiente(Math.sqrt(1.8e-2 * 5.0e-2))).toBeCloseTo(425, 6)
+  })
+
+  it("increases with slope", () => {
+    const slopes = [1e-4, 1e-3, 5e-3, 1e-2, 3e-2, 8e-2, 0.12]
+    const vs30 = slopes.map(estimarVs30DesdePendiente)
+    vs30.slice(1).forEach((value, i) => expect(value).toBeGreaterThan(vs30[i]))
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * Site classification and Vs30 estimation
+ * Site response itself is applied through the Vs30 term of the ground-motion models in ./ground-motion
+ */
+
+export type SiteClass = "A" | "B" | "C" | "D" | "E"
+export type SiteStandard = "nch433" | "nehrp"
+
+export type SoilType =
+  "roca" | "suelo_firme" | "suelo_blando" | "relleno" | "arenoso" | "arcilloso" | "aluvial" | "volcánico"
+
+// Lower Vs30 bound (m/s) of each class, from stiffest to softest
+const LIMITES_CLASE: Record<SiteStandard, [SiteClass, number][]> = {
+  // NCh433 as amended by DS 61 (2011)
+  nch433: [
+    ["A", 900],
+    ["B", 500],
+    ["C", 350],
+    ["D", 180],
+    ["E", 0],
+  ],
+  // NEHRP / ASCE 7
+  nehrp: [
+    ["A", 1500],
+    ["B", 760],
+    ["C", 360],
+    ["D", 180],
+    ["E", 0],
+  ],
+}
+
+// Representative Vs30 (m/s) of each NCh433 class, used when only the class is known
+const VS30_CLASE: Record<SiteClass, number> = {
+  A: 1000,
+  B: 650,
+  C: 420,
+  D: 260,
+  E: 150,
+}
+
+// Representative Vs30 (m/s) for each descriptive soil type
+const VS30_SUELO: Record<SoilType, number> = {
+  roca: 900,
+  suelo_firme: 500,
+  suelo_blando: 250,
+  relleno: 180,
+  arenoso: 220,
+  arcilloso: 200,
+  aluvial: 300,
+  volcánico: 400,
+}
+
+// Wald & Allen (2007) slope (m/m) to Vs30 (m/s) correlation for active tectonic regions
+const PENDIENTE_VS30: [number, number][] = [
+  [1.0e-4, 180],
+  [2.2e-3, 240],
+  [6.3e-3, 300],
+  [1.8e-2, 360],
+  [5.0e-2, 490],
+  [1.0e-1, 620],
+  [1.38e-1, 760],
+]
+
+// Used when nothing is known about the site, at the NEHRP C/D boundary
+export const VS30_POR_DEFECTO = 360
+
+// Reference rock condition of the ground-motion models
+export const VS30_REFERENCIA = 760
+
+/**
+ * Site class for a Vs30 value
+ * @param vs30 Time-averaged shear-wave velocity of the top 30 m, in m/s
+ * @param norma Classification standard, NCh433 by default
+ */
+export function clasificarSitio(vs30: number, norma: SiteStandard = "nch433"): SiteClass {
+  const clase = LIMITES_CLASE[norma].find(([, limite]) => vs30 >= limite)
+  return clase ? clase[0] : "E"
+}
+
+/**
+ * Representative Vs30 for an NCh433 site class
+ */
+export function getVs30Clase(clase: SiteClass): number {
+  return VS30_CLASE[clase]
+}
+
+/**
+ * Representative Vs30 for a descriptive soil type
+ */
+export function getVs30Suelo(tipoSuelo: SoilType): number {
+  return VS30_SUELO[tipoSuelo]
+}
+
+/**
+ * Vs30 from topographic slope, interpolated in log-slope between the bins of Wald & Allen (2007)
+ * @param pendiente Topographic gradient in m/m
+ */
+export function estimarVs30DesdePendiente(pendiente: number): number {
+  const [primera] = PENDIENTE_VS30
+  const ultima = PENDIENTE_VS30[PENDIENTE_VS30.length - 1]
+  if (pendiente <= primera[0]) return primera[1]
+  if (pendiente >= ultima[0]) return ultima[1]
+
+  const indice = PENDIENTE_VS30.findIndex(([limite]) => pendiente < limite)
+  const [pendienteBaja, vs30Bajo] = PENDIENTE_VS30[indice - 1]
+  const [pendienteAlta, vs30Alto] = PENDIENTE_VS30[indice]
+  const fraccion = Math.log(pendiente / pendienteBaja) / Math.log(pendienteAlta / pendienteBaja)
+  return vs30Bajo + fraccion * (vs30Alto - vs30Bajo)
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest"
+import { computeTravelTime, travelTime, VELOCITY_MODELS } from "./travel-times"
+
+const KM_PER_DEGREE = 111.195
+const iasp91 = VELOCITY_MODELS.iasp91
+
+// Flat-earth head wave along the IASP91 Moho for a surface source: 20 km of upper and 15 km of lower crust
+function flatHeadWave(upper: number, lower: number, mantle: number, distanceKm: number): number {
+  const leg = (thickness: number, velocity: number) => thickness * Math.sqrt(1 / velocity ** 2 - 1 / mantle ** 2)
+  return 2 * (leg(20, upper) + leg(15, lower)) + distanceKm / mantle
+}
+
+describe("computeTravelTime", () => {
+  it("matches the IASP91 Pg and Sg times at 1°", () => {
+    const distanceKm = KM_PER_DEGREE
+
+    expect(computeTravelTime(iasp91, "P", 0, distanceKm)).toMatchObject({ type: "direct" })
+    expect(computeTravelTime(iasp91, "P", 0, distanceKm).time).toBeCloseTo(distanceKm / 5.8, 1)
+    expect(computeTravelTime(iasp91, "S", 0, distanceKm).time).toBeCloseTo(distanceKm / 3.36, 1)
+  })
+
+  it("matches the IASP91 Pn and Sn head waves along the Moho at regional distances", () => {
+    for (const degrees of [2, 3, 5]) {
+      const distanceKm = degrees * KM_PER_DEGREE
+      const p = computeTravelTime(iasp91, "P", 0, distanceKm)
+      const s = computeTravelTime(iasp91, "S", 0, distanceKm)
+
+      expect(p).toMatchObject({ type: "head", refractorDepthKm: 35 })
+      expect(s).toMatchObject({ type: "head", refractorDepthKm: 35 })
+      // Earth flattening makes them slightly earlier than on a flat Earth
+      expect(p.time).toBeLessThan(flatHeadWave(5.8, 6.5, 8.04, distanceKm))
+      expect(p.time).toBeGreaterThan(flatHeadWave(5.8, 6.5, 8.04, distanceKm) - 0.5)
+      expect(s.time).toBeLessThan(flatHeadWave(3.36, 3.75, 4.47, distanceKm))
+      expect(s.time).toBeGreaterThan(flatHeadWave(3.36, 3.75, 4.47, distanceKm) - 1)
+    }
+  })
+
+  it("switches from Pg to Pn at the crossover distance of the IASP91 crust", () => {
+    // Where the direct wave and the Moho head wave take the same time on a flat Earth, about 156 km
+    const crossoverKm = flatHeadWave(5.8, 6.5, 8.04, 0) / (1 / 5.8 - 1 / 8.04)
+
+    expect(computeTravelTime(iasp91, "P", 0, crossoverKm - 10).type).toBe("direct")
+    expect(computeTravelTime(iasp91, "P", 0, crossoverKm + 10)).toMatchObject({ type: "head", refractorDepthKm: 35 })
+  })
+
+  it("takes the time straight up for a source below the receiver", () => {
+    // 33 km through 20 km at 5.8 km/s and 13 km at 6.5 km/s
+    expect(computeTravelTime(iasp91, "P", 33, 0).time).toBeCloseTo(20 / 5.8 + 13 / 6.5, 1)
+  })
+})
+
+describe("travelTime", () => {
+  it("interpolates the lookup tables close to ray tracing between nodes", () => {
+    for (const [depthKm, distanceKm] of [
+      [12, 87],
+      [47, 333],
+      [135, 1210],
+    ]) {
+      for (const phase of ["P", "S"] as const) {
+        const traced = computeTravelTime(VELOCITY_MODELS.chile, phase, depthKm, distanceKm).time
+        expect(Math.abs(travelTime(phase, depthKm, distanceKm) - traced)).toBeLessThan(0.5)
+      }
+    }
+  })
+})
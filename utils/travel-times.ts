@@ -0,0 +1,329 @@
+/**
+ * Seismic travel times through layered 1D velocity models
+ * First-arrival P and S times for a surface receiver, including head waves refracted along deeper interfaces.
+ * Models are converted with the Earth-flattening transformation so regional distances account for curvature.
+ */
+
+export type VelocityModelId = "chile" | "iasp91"
+export type Phase = "P" | "S"
+
+export interface VelocityLayer {
+  depth: number // Top of the layer in km; the layer extends to the next one's top
+  vp: number // P-wave velocity in km/s
+  vs: number // S-wave velocity in km/s
+}
+
+export interface VelocityModel {
+  id: VelocityModelId
+  name: string
+  layers: VelocityLayer[]
+}
+
+export interface TravelTime {
+  time: number // Seconds after origin time
+  type: "direct" | "head"
+  refractorDepthKm?: number // Interface a head wave travels along
+}
+
+// Upper mantle and transition zone below 120 km, shared by both models (IASP91 sampled into layers)
+const MANTLE_LAYERS: VelocityLayer[] = [
+  { depth: 120, vp: 8.11, vs: 4.5 },
+  { depth: 165, vp: 8.24, vs: 4.51 },
+  { depth: 210, vp: 8.39, vs: 4.56 },
+  { depth: 260, vp: 8.57, vs: 4.65 },
+  { depth: 310, vp: 8.76, vs: 4.74 },
+  { depth: 360, vp: 8.94, vs: 4.83 },
+  { depth: 410, vp: 9.45, vs: 5.12 },
+  { depth: 460, vp: 9.61, vs: 5.23 },
+  { depth: 510, vp: 9.78, vs: 5.34 },
+  { depth: 560, vp: 9.95, vs: 5.45 },
+  { depth: 610, vp: 10.12, vs: 5.56 },
+  { depth: 660, vp: 10.79, vs: 5.96 },
+]
+
+export const VELOCITY_MODELS: Record<VelocityModelId, VelocityModel> = {
+  // Representative of the 1D models used for routine location along the Chilean margin:
+  // thick forearc crust with a gradual transition into the mantle wedge
+  chile: {
+    id: "chile",
+    name: "Modelo chileno",
+    layers: [
+      { depth: 0, vp: 5.55, vs: 3.2 },
+      { depth: 5, vp: 6.07, vs: 3.51 },
+      { depth: 20, vp: 6.53, vs: 3.77 },
+      { depth: 35, vp: 7.07, vs: 4.08 },
+      { depth: 50, vp: 7.8, vs: 4.45 },
+      { depth: 70, vp: 8.05, vs: 4.49 },
+      ...MANTLE_LAYERS,
+    ],
+  },
+  // Kennett & Engdahl (1991), gradients sampled into constant-velocity layers
+  iasp91: {
+    id: "iasp91",
+    name: "IASP91",
+    layers: [
+      { depth: 0, vp: 5.8, vs: 3.36 },
+      { depth: 20, vp: 6.5, vs: 3.75 },
+      { depth: 35, vp: 8.04, vs: 4.47 },
+      { depth: 77.5, vp: 8.045, vs: 4.485 },
+      ...MANTLE_LAYERS,
+    ],
+  },
+}
+
+const EARTH_RADIUS_KM = 6371
+const MAX_SUBLAYER_KM = 10 // Flattening turns each layer into a gradient, approximated by thin sublayers
+const MODEL_BOTTOM_KM = 800
+
+interface FlatLayer {
+  top: number // Flattened depth in km
+  bottom: number
+  velocity: number
+}
+
+/**
+ * Earth-flattening transformation of a depth
+ */
+function flattenDepth(depthKm: number): number {
+  return -EARTH_RADIUS_KM * Math.log((EARTH_RADIUS_KM - depthKm) / EARTH_RADIUS_KM)
+}
+
+/**
+ * Inverse of flattenDepth
+ */
+function unflattenDepth(flatDepthKm: number): number {
+  return EARTH_RADIUS_KM * (1 - Math.exp(-flatDepthKm / EARTH_RADIUS_KM))
+}
+
+const flatModels = new Map<string, FlatLayer[]>()
+
+/**
+ * Flattened, finely layered version of a model for one phase
+ */
+function getFlatModel(model: VelocityModel, phase: Phase): FlatLayer[] {
+  const key = `${model.id}:${phase}`
+  const cached = flatModels.get(key)
+  if (cached) return cached
+
+  const layers: FlatLayer[] = []
+  model.layers.forEach((layer, index) => {
+    const bottom = model.layers[index + 1]?.depth ?? MODEL_BOTTOM_KM
+    const count = Math.max(1, Math.ceil((bottom - layer.depth) / MAX_SUBLAYER_KM))
+    const velocity = phase === "P" ? layer.vp : layer.vs
+
+    for (let i = 0; i < count; i++) {
+      const top = layer.depth + ((bottom - layer.depth) * i) / count
+      const end = layer.depth + ((bottom - layer.depth) * (i + 1)) / count
+      const middle = (top + end) / 2
+      layers.push({
+        top: flattenDepth(top),
+        bottom: flattenDepth(end),
+        velocity: (velocity * EARTH_RADIUS_KM) / (EARTH_RADIUS_KM - middle),
+      })
+    }
+  })
+
+  flatModels.set(key, layers)
+  return layers
+}
+
+interface PathLayer {
+  thickness: number
+  velocity: number
+}
+
+interface HeadWave {
+  slowness: number // s/km, the inverse of the refractor velocity
+  intercept: number // Time at zero distance, in seconds
+  minDistanceKm: number // Critical distance where the head wave begins
+  refractorDepthKm: number
+}
+
+/**
+ * Thickness of each layer crossed by the upgoing leg from a source at flattened depth zs to the surface
+ */
+function layersAbove(layers: FlatLayer[], zs: number): PathLayer[] {
+  return layers
+    .filter((layer) => layer.top < zs)
+    .map((layer) => ({ thickness: Math.min(layer.bottom, zs) - layer.top, velocity: layer.velocity }))
+}
+
+/**
+ * Head waves along every interface below the source that is faster than everything above it
+ * They depend on the source depth only, so they are computed once per depth
+ */
+function headWaves(layers: FlatLayer[], zs: number): HeadWave[] {
+  const waves: HeadWave[] = []
+  let fastestAbove = 0
+
+  layers.forEach((refractor, index) => {
+    if (index > 0) fastestAbove = Math.max(fastestAbove, layers[index - 1].velocity)
+    if (refractor.top < zs || refractor.velocity <= fastestAbove) return
+
+    // Layers above the source are crossed once (upgoing), layers between source and refractor twice
+    const slowness = 1 / refractor.velocity
+    let minDistanceKm = 0
+    let intercept = 0
+    layers.slice(0, index).forEach((layer) => {
+      const thickness = layer.bottom - layer.top + Math.max(0, layer.bottom - Math.max(layer.top, zs))
+      const pv = slowness * layer.velocity
+      minDistanceKm += (thickness * pv) / Math.sqrt(1 - pv * pv)
+      intercept += thickness * Math.sqrt(1 / (layer.velocity * layer.velocity) - slowness * slowness)
+    })
+
+    waves.push({
+      slowness,
+      intercept,
+      minDistanceKm,
+      refractorDepthKm: Math.round(unflattenDepth(refractor.top) * 10) / 10,
+    })
+  })
+
+  return waves
+}
+
+/**
+ * Direct (upgoing) ray: find the ray parameter whose horizontal range matches the distance by bisection
+ */
+function directTravelTime(path: PathLayer[], distanceKm: number): number {
+  if (path.length === 0) return Infinity
+
+  const maxVelocity = Math.max(...path.map((layer) => layer.velocity))
+  const range = (p: number) =>
+    path.reduce((sum, layer) => {
+      const pv = p * layer.velocity
+      return sum + (layer.thickness * pv) / Math.sqrt(1 - pv * pv)
+    }, 0)
+
+  let low = 0
+  let high = 1 / maxVelocity
+  for (let i = 0; i < 60; i++) {
+    const middle = (low + high) / 2
+    if (range(middle) < distanceKm) low = middle
+    else high = middle
+  }
+
+  const p = (low + high) / 2
+  return path.reduce((sum, layer) => {
+    const pv = p * layer.velocity
+    return sum + layer.thickness / (layer.velocity * Math.sqrt(1 - pv * pv))
+  }, 0)
+}
+
+/**
+ * Earliest of the direct wave and the head waves at a distance
+ */
+function earliestArrival(path: PathLayer[], heads: HeadWave[], distanceKm: number): TravelTime {
+  let best: TravelTime = { time: directTravelTime(path, distanceKm), type: "direct" }
+
+  heads.forEach((head) => {
+    if (head.minDistanceKm > distanceKm) return
+    const time = head.intercept + distanceKm * head.slowness
+    if (time < best.time) {
+      best = { time, type: "head", refractorDepthKm: head.refractorDepthKm }
+    }
+  })
+
+  return best
+}
+
+/**
+ * Flattened source depth, kept inside the model
+ */
+function sourceDepth(depthKm: number): number {
+  return flattenDepth(Math.min(Math.max(depthKm, 0.01), MODEL_BOTTOM_KM - 1))
+}
+
+/**
+ * Ray-trace the first arrival of a phase through a model
+ * @param depthKm Source depth in km
+ * @param distanceKm Epicentral distance along the surface in km
+ */
+export function computeTravelTime(model: VelocityModel, phase: Phase, depthKm: number, distanceKm: number): TravelTime {
+  const layers = getFlatModel(model, phase)
+  const zs = sourceDepth(depthKm)
+  return earliestArrival(layersAbove(layers, zs), headWaves(layers, zs), distanceKm)
+}
+
+// Lookup table grid: travel time is smooth enough between nodes for linear interpolation
+const TABLE_DEPTHS = [
+  ...Array.from({ length: 21 }, (_, i) => i * 5), // 0-100 km every 5 km
+  ...Array.from({ length: 20 }, (_, i) => 110 + i * 10), // 110-300 km every 10 km
+  ...Array.from({ length: 16 }, (_, i) => 325 + i * 25), // 325-700 km every 25 km
+]
+const TABLE_DISTANCE_STEP_KM = 5
+const TABLE_MAX_DISTANCE_KM = 2000
+
+// Rows are computed on first use, one per model, phase and depth node
+const tableRows = new Map<string, Float64Array>()
+
+function getTableRow(modelId: VelocityModelId, phase: Phase, depthIndex: number): Float64Array {
+  const key = `${modelId}:${phase}:${depthIndex}`
+  let row = tableRows.get(key)
+  if (!row) {
+    const layers = getFlatModel(VELOCITY_MODELS[modelId], phase)
+    const zs = sourceDepth(TABLE_DEPTHS[depthIndex])
+    const path = layersAbove(layers, zs)
+    const heads = headWaves(layers, zs)
+
+    row = new Float64Array(TABLE_MAX_DISTANCE_KM / TABLE_DISTANCE_STEP_KM + 1)
+    for (let i = 0; i < row.length; i++) {
+      row[i] = earliestArrival(path, heads, i * TABLE_DISTANCE_STEP_KM).time
+    }
+    tableRows.set(key, row)
+  }
+  return row
+}
+
+/**
+ * First-arrival travel time from the precomputed lookup tables, bilinearly interpolated
+ * Falls back to ray tracing outside the table
+ * @param phase "P" or "S"
+ * @param depthKm Source depth in km
+ * @param distanceKm Epicentral distance in km
+ * @param modelId Velocity model
+ * @returns Seconds after origin time
+ */
+export function travelTime(
+  phase: Phase,
+  depthKm: number,
+  distanceKm: number,
+  modelId: VelocityModelId = "chile",
+): number {
+  const depth = Math.max(0, depthKm)
+  if (distanceKm > TABLE_MAX_DISTANCE_KM || depth > TABLE_DEPTHS[TABLE_DEPTHS.length - 1]) {
+    return computeTravelTime(VELOCITY_MODELS[modelId], phase, depth, distanceKm).time
+  }
+
+  let depthIndex = 0
+  while (depthIndex < TABLE_DEPTHS.length - 2 && TABLE_DEPTHS[depthIndex + 1] < depth) depthIndex++
+  const depthFraction = (depth - TABLE_DEPTHS[depthIndex]) / (TABLE_DEPTHS[depthIndex + 1] - TABLE_DEPTHS[depthIndex])
+
+  const position = Math.max(0, distanceKm) / TABLE_DISTANCE_STEP_KM
+  const distanceIndex = Math.min(Math.floor(position), TABLE_MAX_DISTANCE_KM / TABLE_DISTANCE_STEP_KM - 1)
+  const distanceFraction = position - distanceIndex
+
+  const interpolate = (row: Float64Array) =>
+    row[distanceIndex] + (row[distanceIndex + 1] - row[distanceIndex]) * distanceFraction
+
+  const upper = interpolate(getTableRow(modelId, phase, depthIndex))
+  const lower = interpolate(getTableRow(modelId, phase, depthIndex + 1))
+  return upper + (lower - upper) * depthFraction
+}
+
+/**
+ * First-arrival P and S times for a source and a surface receiver
+ * @param depthKm Source depth in km
+ * @param distanceKm Epicentral distance in km
+ * @param modelId Velocity model
+ */
+export function firstArrivals(
+  depthKm: number,
+  distanceKm: number,
+  modelId: VelocityModelId = "chile",
+): { p: number; s: number } {
+  return {
+    p: travelTime("P", depthKm, distanceKm, modelId),
+    s: travelTime("S", depthKm, distanceKm, modelId),
+  }
+}
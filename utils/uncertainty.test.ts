@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest"
+import type { EarthquakeData } from "@/lib/api"
+import { estimateArrivalTimes, estimateIntensity, type EstimateRange } from "./uncertainty"
+
+const origin: EarthquakeData = {
+  id: "csn:2024-03-10-081403",
+  utc_time: "2024-03-10 08:14:03",
+  local_time: "2024-03-10 05:14:03",
+  latitude: -32.5,
+  longitude: -71.8,
+  depth: 35,
+  magnitude: 6.2,
+  scale: "Mw",
+  reference: "",
+}
+
+const santiago = { latitude: -33.45, longitude: -70.66 }
+
+const width = (range: EstimateRange) => range.high - range.low
+
+describe("estimateArrivalTimes", () => {
+  it("orders the percentiles around the median", () => {
+    const { p, s } = estimateArrivalTimes(origin, santiago)
+
+    expect(p.low).toBeLessThan(p.value)
+    expect(p.value).toBeLessThan(p.high)
+    expect(s.low).toBeLessThan(s.value)
+    expect(s.value).toBeLessThan(s.high)
+    expect(p.high).toBeLessThan(s.low)
+  })
+
+  it("gives the same interval every time for the same event", () => {
+    expect(estimateArrivalTimes(origin, santiago)).toEqual(estimateArrivalTimes(origin, santiago))
+  })
+
+  it("widens the interval with the uncertainty of the origin", () => {
+    const precise = estimateArrivalTimes({ ...origin, uncertainty: { horizontalKm: 2, timeSeconds: 0.2 } }, santiago)
+    const rough = estimateArrivalTimes({ ...origin, uncertainty: { horizontalKm: 30, timeSeconds: 3 } }, santiago)
+
+    expect(width(rough.s)).toBeGreaterThan(width(precise.s))
+    expect(width(rough.p)).toBeGreaterThan(width(precise.p))
+  })
+
+  it("narrows the interval with a lower confidence", () => {
+    const wide = estimateArrivalTimes(origin, santiago, "chile", { confidence: 0.9 })
+    const narrow = estimateArrivalTimes(origin, santiago, "chile", { confidence: 0.5 })
+
+    expect(width(narrow.s)).toBeLessThan(width(wide.s))
+  })
+})
+
+describe("estimateIntensity", () => {
+  it("orders the percentiles around the median", () => {
+    const intensity = estimateIntensity(origin, santiago, 360, "interface")
+
+    expect(intensity.low).toBeLessThanOrEqual(intensity.value)
+    expect(intensity.value).toBeLessThanOrEqual(intensity.high)
+    expect(intensity.low).toBeLessThan(intensity.high)
+  })
+
+  it("gives the same interval every time for the same event", () => {
+    expect(estimateIntensity(origin, santiago, 360, "interface")).toEqual(
+      estimateIntensity(origin, santiago, 360, "interface"),
+    )
+  })
+
+  it("widens the interval with the uncertainty of the magnitude", () => {
+    const precise = estimateIntensity({ ...origin, uncertainty: { magnitude: 0.05 } }, santiago, 360, "interface")
+    const rough = estimateIntensity({ ...origin, uncertainty: { magnitude: 0.8 } }, santiago, 360, "interface")
+
+    expect(width(rough)).toBeGreaterThan(width(precise))
+  })
+})
@@ -0,0 +1,167 @@
+/**
+ * Confidence intervals for arrival time and intensity estimates
+ * Monte Carlo sampling of the event's origin within its reported uncertainty, plus each model's own error
+ */
+
+import type { EarthquakeData, OriginUncertainty } from "@/lib/api"
+import { calcularTiempoLlegada, type ArrivalTimeResult } from "./seismic-calculations"
+import { DESVIACION_INTENSIDAD, estimarIntensidadContinua, getNumeroRomano } from "./intensity-calculations"
+import { estimateRupture, ruptureDistances } from "./finite-fault"
+import type { EventType } from "./ground-motion"
+import { getMomentMagnitude } from "./magnitude"
+import { createRandom, randomNormal, seedFromString } from "./random"
+import type { VelocityModelId } from "./travel-times"
+
+export interface EstimateRange {
+  value: number // Median of the samples
+  low: number // Lower bound of the confidence interval
+  high: number // Upper bound of the confidence interval
+}
+
+export interface ArrivalTimeEstimate {
+  nominal: ArrivalTimeResult // Point estimate for the reported origin
+  p: EstimateRange // P-wave arrival, seconds after origin time
+  s: EstimateRange // S-wave arrival, seconds after origin time
+}
+
+export interface UncertaintyOptions {
+  samples?: number
+  confidence?: number // Central probability covered by the interval, e.g. 0.9 for the 5th-95th percentiles
+}
+
+type Origin = Pick<EarthquakeData, "id" | "latitude" | "longitude" | "depth" | "magnitude" | "scale" | "uncertainty">
+
+interface Location {
+  latitude: number
+  longitude: number
+}
+
+// Typical one-sigma errors of automatic solutions, used when the feed reports none
+export const DEFAULT_ORIGIN_UNCERTAINTY: Required<OriginUncertainty> = {
+  timeSeconds: 1,
+  horizontalKm: 10,
+  depthKm: 10,
+  magnitude: 0.3,
+}
+
+// 1D velocity model misfit: a fixed picking/site term plus a fraction of the travel time
+const TRAVEL_TIME_ERROR_SECONDS = 0.5
+const TRAVEL_TIME_ERROR_FRACTION = 0.03
+
+const KM_PER_DEGREE = 111.195
+
+/**
+ * Sample origins around the reported one
+ * Seeded from the event id so the same event always gets the same interval; magnitudes are sampled as Mw
+ */
+function sampleOrigins(origin: Origin, samples: number) {
+  const sigma = { ...DEFAULT_ORIGIN_UNCERTAINTY, ...origin.uncertainty }
+  const random = createRandom(seedFromString(origin.id))
+  const magnitude = getMomentMagnitude(origin)
+
+  return Array.from({ length: samples }, () => {
+    const northKm = randomNormal(random) * sigma.horizontalKm
+    const eastKm = randomNormal(random) * sigma.horizontalKm
+    return {
+      latitude: origin.latitude + northKm / KM_PER_DEGREE,
+      longitude: origin.longitude + eastKm / (KM_PER_DEGREE * Math.cos((origin.latitude * Math.PI) / 180)),
+      depth: Math.max(0, origin.depth + randomNormal(random) * sigma.depthKm),
+      magnitude: magnitude + randomNormal(random) * sigma.magnitude,
+      timeOffset: randomNormal(random) * sigma.timeSeconds,
+      modelError: randomNormal(random), // Standard normal, scaled by each model's own error
+    }
+  })
+}
+
+/**
+ * Median and central interval of a set of samples
+ */
+function summarize(values: number[], confidence: number): EstimateRange {
+  const sorted = [...values].sort((a, b) => a - b)
+  const quantile = (q: number) => {
+    const position = q * (sorted.length - 1)
+    const index = Math.floor(position)
+    const next = sorted[Math.min(index + 1, sorted.length - 1)]
+    return sorted[index] + (next - sorted[index]) * (position - index)
+  }
+
+  const tail = (1 - confidence) / 2
+  return { value: quantile(0.5), low: quantile(tail), high: quantile(1 - tail) }
+}
+
+/**
+ * Arrival times with confidence intervals
+ * @param origin Event, with its reported uncertainty if any
+ * @param location Receiver location
+ * @param model Velocity model
+ */
+export function estimateArrivalTimes(
+  origin: Origin,
+  location: Location,
+  model: VelocityModelId = "chile",
+  { samples = 200, confidence = 0.9 }: UncertaintyOptions = {},
+): ArrivalTimeEstimate {
+  const arrival = (latitude: number, longitude: number, depth: number) =>
+    calcularTiempoLlegada(latitude, longitude, location.latitude, location.longitude, depth, model)
+
+  const pTimes: number[] = []
+  const sTimes: number[] = []
+  sampleOrigins(origin, samples).forEach((sample) => {
+    const times = arrival(sample.latitude, sample.longitude, sample.depth)
+    const error = (time: number) => sample.modelError * (TRAVEL_TIME_ERROR_SECONDS + TRAVEL_TIME_ERROR_FRACTION * time)
+    pTimes.push(Math.max(0, times.tiempoOndaP + sample.timeOffset + error(times.tiempoOndaP)))
+    sTimes.push(Math.max(0, times.tiempoOndaS + sample.timeOffset + error(times.tiempoOndaS)))
+  })
+
+  return {
+    nominal: arrival(origin.latitude, origin.longitude, origin.depth),
+    p: summarize(pTimes, confidence),
+    s: summarize(sTimes, confidence),
+  }
+}
+
+/**
+ * Mercalli intensity with a confidence interval, in whole degrees between I and XII
+ * @param origin Event, with its reported uncertainty if any
+ * @param location Receiver location, whose distances are measured to the rupture estimated for each sample
+ * @param vs30 Vs30 at the location, in m/s
+ * @param eventType Tectonic type of the event, which selects the ground-motion model
+ */
+export function estimateIntensity(
+  origin: Origin,
+  location: Location,
+  vs30: number,
+  eventType: EventType,
+  { samples = 200, confidence = 0.9 }: UncertaintyOptions = {},
+): EstimateRange {
+  const intensities = sampleOrigins(origin, samples).map((sample) => {
+    const rupture = estimateRupture(sample, sample.magnitude, eventType)
+    const distances = ruptureDistances(rupture, location.latitude, location.longitude)
+    return (
+      estimarIntensidadContinua(sample.magnitude, sample.depth, distances, vs30, eventType) +
+      sample.modelError * DESVIACION_INTENSIDAD
+    )
+  })
+
+  const range = summarize(intensities, confidence)
+  const degree = (value: number) => Math.min(12, Math.max(1, Math.round(value)))
+  return { value: degree(range.value), low: degree(range.low), high: degree(range.high) }
+}
+
+/**
+ * Format a time interval, e.g. "8–15 s"
+ */
+export function formatTimeRange(range: EstimateRange): string {
+  const low = Math.max(0, Math.round(range.low))
+  const high = Math.max(0, Math.round(range.high))
+  return low === high ? `${low} s` : `${low}–${high} s`
+}
+
+/**
+ * Format an intensity interval in Roman numerals, e.g. "VI–VII"
+ */
+export function formatIntensityRange(range: EstimateRange): string {
+  const low = getNumeroRomano(range.low)
+  const high = getNumeroRomano(range.high)
+  return low === high ? low : `${low}–${high}`
+}